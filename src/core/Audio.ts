@@ -12,6 +12,7 @@ export class AudioSystem {
     private boost = new THREE.Audio(this.listener);
     private boostPad = new THREE.Audio(this.listener);
     private wind = new THREE.Audio(this.listener);
+    private impact = new THREE.Audio(this.listener);
     private radioMedia: HTMLAudioElement | null = null;
     private radioGain = 0.6;
     private mp3Media: HTMLAudioElement | null = null;
@@ -54,6 +55,10 @@ export class AudioSystem {
             this.boostPad.setLoop(false);
             this.boostPad.setVolume(0.65);
         });
+        this.safeLoad('/audio/impact.wav', (buffer) => {
+            this.impact.setBuffer(buffer);
+            this.impact.setLoop(false);
+        });
     }
 
     private async safeLoad(url: string, onLoad: (buffer: AudioBuffer) => void) {
@@ -83,6 +88,14 @@ export class AudioSystem {
         this.boostPad.play();
     }
 
+    // Ship-to-ship contact; louder for harder hits
+    triggerImpact(strength: number) {
+        if (!this.impact.buffer) return;
+        if (this.impact.isPlaying) this.impact.stop();
+        this.impact.setVolume(0.3 + 0.5 * THREE.MathUtils.clamp(strength, 0, 1));
+        this.impact.play();
+    }
+
     getRms(): number {
         if (!this.analyser) return 0.5 + 0.5 * Math.sin(performance.now() * 0.004);
         const data = this.analyser.getAverageFrequency();
@@ -0,0 +1,59 @@
+import { SPLITS } from './constants';
+import { loadJSON, saveJSON } from './Storage';
+import type { LapTime } from './types';
+
+type StoredSplits = {
+    trackId: string;
+    lap: LapTime;
+};
+
+// Personal-best lap splits for one track, persisted in localStorage, used for the live delta readout
+export class BestSplits {
+    private trackId: string;
+    private best: LapTime | null;
+
+    constructor(trackId: string) {
+        this.trackId = trackId;
+        this.best = this.load();
+    }
+
+    // Keep the lap when it beats the stored best and has one split per gate. Returns true on a new best.
+    public submit(lap: LapTime, gateCount: number): boolean {
+        if (lap.time <= 0 || lap.splits.length !== gateCount) return false;
+        for (let i = 0; i < gateCount; i++) {
+            if (typeof lap.splits[i] !== 'number') return false;
+        }
+        if (this.best && this.best.time <= lap.time) return false;
+        this.best = { time: lap.time, splits: [...lap.splits] };
+        this.save();
+        return true;
+    }
+
+    public getBest(): LapTime | null {
+        return this.best;
+    }
+
+    // Current lap time minus the best lap's time at the same t (interpolated between gates).
+    // null when there is no comparable best lap.
+    public getDelta(t: number, lapTime: number, gateCount: number): number | null {
+        const best = this.best;
+        if (!best || best.splits.length !== gateCount) return null;
+        const pos = Math.min(Math.max(t, 0), 0.999999) * gateCount;
+        const sector = Math.floor(pos);
+        const start = sector === 0 ? 0 : best.splits[sector - 1];
+        const end = best.splits[sector];
+        return lapTime - (start + (end - start) * (pos - sector));
+    }
+
+    private load(): LapTime | null {
+        const stored = loadJSON<StoredSplits | null>(SPLITS.storageKeyPrefix + this.trackId, null);
+        if (stored?.trackId !== this.trackId || !stored.lap || !Array.isArray(stored.lap.splits)) return null;
+        return stored.lap;
+    }
+
+    private save() {
+        if (!this.best) return;
+        const stored: StoredSplits = { trackId: this.trackId, lap: this.best };
+        saveJSON(SPLITS.storageKeyPrefix + this.trackId, stored);
+    }
+}
@@ -1,16 +1,18 @@
 import * as THREE from 'three';
 import { Track } from './Track';
-import { NPCShip } from './NPCShip';
 import { ATTRACT_CAMERA } from './constants';
 
 export type Shot = 'standard' | 'heli' | 'close' | 'trackside' | 'first';
 
+// Anything the director can film: attract-mode NPCs, or every racer in a replay
+export type DirectedShip = { state: { t: number; lateralOffset: number } };
+
 type Pose = { position: THREE.Vector3; quaternion: THREE.Quaternion; up: THREE.Vector3 };
 
 export class CameraDirector {
     private track: Track;
     private camera: THREE.PerspectiveCamera;
-    private npcs: NPCShip[] = [];
+    private npcs: DirectedShip[] = [];
 
     private current: Shot = 'standard';
     private timeInShot = 0;
@@ -37,6 +39,7 @@ export class CameraDirector {
     private tmpQuat = new THREE.Quaternion();
     private zoom = 1; // 1 = default
     private leadIndex = 0; // which NPC we're following for shots that need a target
+    private focusIndex: number | null = null; // pinned lead (replay focus); null rotates every cut
     private heliOnly = false; // Enable all camera shots with cuts
 
     constructor(track: Track, camera: THREE.PerspectiveCamera) {
@@ -46,7 +49,22 @@ export class CameraDirector {
         this.scheduleNextCut();
     }
 
-    setNPCs(npcs: NPCShip[]) { this.npcs = npcs; }
+    setNPCs(npcs: DirectedShip[]) { this.npcs = npcs; }
+
+    // Restrict auto-direction to these shots, starting from the first
+    setShots(shots: readonly Shot[]) {
+        this.shotOrder = [...shots];
+        this.shotIndex = 0;
+        this.current = this.shotOrder[0];
+        this.timeInShot = 0;
+        this.scheduleNextCut();
+    }
+
+    // Pin shots that follow a single ship to this one; null goes back to rotating the lead
+    setFocus(index: number | null) {
+        this.focusIndex = index;
+        if (index !== null) this.leadIndex = index;
+    }
 
     adjustZoom(delta: number) {
         const z = this.zoom + delta;
@@ -62,8 +80,9 @@ export class CameraDirector {
         // Check if it's time to cut to the next shot
         if (!this.heliOnly && !this.blending) {
             if (this.current === 'trackside') {
-                // Trackside shot ends when all ships have passed the camera
-                if (this.allNPCsPassed()) {
+                // Trackside shot ends when all ships have passed the camera (or never will, e.g. a
+                // replay scrubbed backwards)
+                if (this.allNPCsPassed() || this.timeInShot >= ATTRACT_CAMERA.cutMaxSec * 2) {
                     this.cutTo(this.nextShot());
                 }
             } else {
@@ -123,7 +142,7 @@ export class CameraDirector {
         // Initialize trackside state upon entry
         if (next === 'trackside') this.initTrackside();
         // Rotate the lead every cut for variety
-        this.leadIndex = (this.leadIndex + 1) % this.npcs.length;
+        this.leadIndex = this.focusIndex ?? (this.leadIndex + 1) % this.npcs.length;
 
         const target = this.computeShotPose(next);
         this.toPose.position.copy(target.position);
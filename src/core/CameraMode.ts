@@ -0,0 +1,21 @@
+import { CAMERA_MODES } from './constants';
+import { loadJSON, saveJSON } from './Storage';
+import type { CameraMode, CameraSettings } from './types';
+
+// Next view in the camera-cycle order
+export function nextCameraMode(mode: CameraMode): CameraMode {
+    const order = CAMERA_MODES.order;
+    return order[(order.indexOf(mode) + 1) % order.length];
+}
+
+export function loadCameraSettings(): CameraSettings {
+    const data = loadJSON<Partial<CameraSettings> | null>(CAMERA_MODES.storageKey, null);
+    return {
+        mode: data?.mode && CAMERA_MODES.order.includes(data.mode) ? data.mode : CAMERA_MODES.defaults.mode,
+        mirror: typeof data?.mirror === 'boolean' ? data.mirror : CAMERA_MODES.defaults.mirror
+    };
+}
+
+export function saveCameraSettings(settings: CameraSettings) {
+    saveJSON(CAMERA_MODES.storageKey, settings);
+}
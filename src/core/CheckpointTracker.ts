@@ -0,0 +1,86 @@
+import type { Track } from './Track';
+
+// Per-racer gate progress. Gate 0 is the start/finish line; gates 1..count-1 are evenly spaced along t.
+// A line crossing only completes a lap after every gate was passed in order, so reversing over the
+// line or cutting across the track can't farm laps.
+export class CheckpointTracker {
+    private track: Track;
+    private count: number;
+    private next = 0; // 0 = behind the line, 1..count-1 = next gate to pass, count = line armed
+    private started = false; // first forward crossing of the line (race start) has happened
+
+    constructor(track: Track) {
+        this.track = track;
+        this.count = track.getCheckpointCount();
+    }
+
+    reset() {
+        this.count = this.track.getCheckpointCount();
+        this.next = 0;
+        this.started = false;
+    }
+
+    getCount(): number {
+        return this.count;
+    }
+
+    // t of the next gate to pass (1 once the line is armed)
+    getNextT(): number {
+        return this.next / this.count;
+    }
+
+    // t of the last gate passed in order (respawn point); null before the race start
+    getLastT(): number | null {
+        if (this.next === 0) return null;
+        return (this.next - 1) / this.count;
+    }
+
+    // Advance over one step from prevT (wrapped, or negative before the start) to the unwrapped newT.
+    // Returns the gate passed in order this step: 0 for the race start or a completed lap, 1..count-1
+    // for a sector gate, -1 for none.
+    advance(prevT: number, newT: number): number {
+        let passed = -1;
+        const forward = newT >= prevT;
+        // Gates at i/count plus shifted copies for steps that cross the 0/1 wrap, visited in travel order
+        for (let k = forward ? -1 : 1; forward ? k <= 1 : k >= -1; k += forward ? 1 : -1) {
+            for (let j = 0; j < this.count; j++) {
+                const i = forward ? j : this.count - 1 - j;
+                const g = i / this.count + k;
+                if (forward && prevT < g && g <= newT) {
+                    if (this.passForward(i)) passed = i;
+                } else if (!forward && newT < g && g <= prevT) {
+                    this.passBackward(i);
+                }
+            }
+        }
+        return passed;
+    }
+
+    private passForward(i: number): boolean {
+        if (i === 0) {
+            if (this.next === this.count) {
+                this.next = 1;
+                return true;
+            }
+            if (this.next === 0) {
+                // Re-crossing after reversing over the line restores progress but doesn't count
+                this.next = 1;
+                if (this.started) return false;
+                this.started = true;
+                return true;
+            }
+            return false; // skipped gates: not a lap
+        }
+        if (i !== this.next) return false;
+        this.next++;
+        return true;
+    }
+
+    private passBackward(i: number) {
+        if (i === 0) {
+            if (this.next === 1) this.next = 0;
+            return;
+        }
+        if (i === this.next - 1) this.next--;
+    }
+}
@@ -0,0 +1,106 @@
+import { COLLISION, HULL, SHIELD } from './constants';
+import { Track } from './Track';
+import type { RacerContact, ShipState } from './types';
+
+// Anything that can be bumped: the player ship and NPCs
+export interface CollisionBody {
+    racerId: string;
+    state: ShipState;
+    applyContact(push: number, bumpSpeed: number, speedLoss: number): void;
+    absorbHit(): boolean; // consumes an active shield
+    applyDamage(amount: number): void; // hull damage
+    isWrecked(): boolean;
+}
+
+// Ship-to-ship contacts between all racers in track space (t, lateralOffset, verticalOffset).
+// Overlapping ships are pushed apart every step; the contact event and the rear ship's
+// speed loss only fire when a pair first touches.
+export class CollisionSystem {
+    private touching = new Set<string>();
+    private cooldowns = new Map<string, number>();
+    private contactHandlers: Array<(contact: RacerContact) => void> = [];
+
+    // Combined (Minkowski sum) radii of two identical hull ellipsoids, in meters
+    private readonly reach = {
+        lateral: 2 * SHIELD.radiusX * COLLISION.shipScale * COLLISION.hullFraction,
+        vertical: 2 * SHIELD.radiusY * COLLISION.shipScale * COLLISION.hullFraction,
+        along: 2 * SHIELD.radiusZ * COLLISION.shipScale * COLLISION.hullFraction
+    };
+
+    onContact(handler: (contact: RacerContact) => void) {
+        this.contactHandlers.push(handler);
+    }
+
+    update(dt: number, track: Track, bodies: CollisionBody[]) {
+        this.cooldowns.forEach((time, key) => {
+            if (time - dt <= 0) this.cooldowns.delete(key);
+            else this.cooldowns.set(key, time - dt);
+        });
+
+        const touchingNow = new Set<string>();
+        for (let i = 0; i < bodies.length; i++) {
+            for (let j = i + 1; j < bodies.length; j++) {
+                const a = bodies[i];
+                const b = bodies[j];
+                if (a.isWrecked() || b.isWrecked()) continue;
+
+                // Signed distance along the track, wrapped so a is ahead when positive
+                let dT = a.state.t - b.state.t;
+                if (dT > 0.5) dT -= 1;
+                if (dT < -0.5) dT += 1;
+                const along = dT * track.length;
+                const lateral = a.state.lateralOffset - b.state.lateralOffset;
+                const vertical = a.state.verticalOffset - b.state.verticalOffset;
+
+                const dist = Math.sqrt(
+                    (along / this.reach.along) ** 2 +
+                    (lateral / this.reach.lateral) ** 2 +
+                    (vertical / this.reach.vertical) ** 2
+                );
+                if (dist >= 1) continue;
+
+                const key = `${a.racerId}|${b.racerId}`;
+                touchingNow.add(key);
+
+                // Separate sideways by the lateral share of the overlap
+                const side = lateral !== 0 ? Math.sign(lateral) : (i % 2 === 0 ? 1 : -1);
+                const push = (1 - dist) * this.reach.lateral * 0.5 * side;
+                const isNewContact = !this.touching.has(key) && !this.cooldowns.has(key);
+                if (!isNewContact) {
+                    a.applyContact(push, 0, 0);
+                    b.applyContact(-push, 0, 0);
+                    continue;
+                }
+
+                const closingKmh = Math.abs(a.state.speedKmh - b.state.speedKmh);
+                const strength = Math.min(1, Math.max(COLLISION.minStrength, closingKmh / COLLISION.fullStrengthKmh, 1 - dist));
+                const bump = COLLISION.bumpSpeed * strength * side;
+                const rear = along >= 0 ? b : a;
+                // A shielded ship only gets separated; the bump and speed loss are absorbed
+                const aShielded = a.absorbHit();
+                const bShielded = b.absorbHit();
+                a.applyContact(push, aShielded ? 0 : bump, rear === a && !aShielded ? COLLISION.rearSpeedLoss * strength : 0);
+                b.applyContact(-push, bShielded ? 0 : -bump, rear === b && !bShielded ? COLLISION.rearSpeedLoss * strength : 0);
+                if (!aShielded) a.applyDamage(HULL.collisionDamage * strength);
+                if (!bShielded) b.applyDamage(HULL.collisionDamage * strength);
+                this.cooldowns.set(key, COLLISION.pairCooldown);
+
+                const contact: RacerContact = {
+                    racerA: a.racerId,
+                    racerB: b.racerId,
+                    rearId: rear.racerId,
+                    shielded: [aShielded ? a.racerId : null, bShielded ? b.racerId : null].filter((id): id is string => id !== null),
+                    strength,
+                    t: b.state.t
+                };
+                this.contactHandlers.forEach(h => h(contact));
+            }
+        }
+        this.touching = touchingNow;
+    }
+
+    reset() {
+        this.touching.clear();
+        this.cooldowns.clear();
+    }
+}
@@ -343,6 +343,19 @@ export class Environment {
         this.vortexLayers = [];
     }
 
+    // Back to the pre-race blackhole; a faded or consumed one is rebuilt from scratch
+    public resetBlackhole() {
+        this.raceTime = 0;
+        if (this.blackholeRemoved || this.blackholeFadeProgress > 0) {
+            this.removeBlackhole();
+            this.blackholeRemoved = false;
+            this.blackholeFadeProgress = 0;
+            this.addBlackHole();
+            this.root.add(this.blackHole);
+        }
+        this.updateBlackholeSize();
+    }
+
     private addPlanets() {
         // Planet 1: Massive Magenta/Pink glowing planet - North-West quadrant
         const g1 = new THREE.SphereGeometry(88, 64, 48);
@@ -1,7 +1,7 @@
 import * as THREE from 'three';
 import Stats from 'stats.js';
-import { EffectComposer, RenderPass, EffectPass, BloomEffect, ChromaticAberrationEffect, VignetteEffect, SMAAEffect } from 'postprocessing';
-import { CAMERA, POST, RENDER, BLACKHOLE, DRAFTING } from './constants';
+import { EffectComposer, RenderPass, EffectPass, BloomEffect, ChromaticAberrationEffect, VignetteEffect, SMAAEffect, DepthOfFieldEffect } from 'postprocessing';
+import { CAMERA, CAMERA_MODES, POST, RENDER, BLACKHOLE, DRAFTING, TRACK_FILE, RESULTS, RACE_SETUP, HULL, REPLAY, PHOTO } from './constants';
 import { Ship } from './ship/Ship';
 import { Track } from './Track';
 import { UI } from './UI';
@@ -18,12 +18,38 @@ import { ShootingStars } from './background/ShootingStars';
 // import { Comets } from './Comets'; // Temporarily disabled
 import { COLORS } from './constants';
 import { DraftingSystem } from './ship/drafting/DraftingSystem';
-import type { RaceState } from './types';
+import { CollisionSystem } from './CollisionSystem';
+import { ItemSystem } from './ItemSystem';
+import { StyleScore } from './StyleScore';
+import { ShipExplosion } from './ship/ShipExplosion';
+import { GamepadInput } from './GamepadInput';
+import { InputBindings } from './InputBindings';
+import type { CameraSettings, PhotoSettings, RaceMode, RaceSetup, RaceState, ShipLivery } from './types';
 import { MainMenu } from './ui/MainMenu';
 import { NEWS_ITEMS } from './ui/news';
 import { ShipViewer } from './ship/ShipViewer';
 import { ControlsViewer } from './ui/ControlsViewer';
 import { CameraDirector } from './CameraDirector';
+import { ShipGhost } from './ship/ShipGhost';
+import { BestSplits } from './BestSplits';
+import { TrackFilePanel } from './ui/TrackFilePanel';
+import { TrackEditor } from './editor/TrackEditor';
+import { LeaderboardPanel } from './ui/LeaderboardPanel';
+import { Leaderboard } from './Leaderboard';
+import { RaceResultsOverlay, type RacerLabel } from './ui/RaceResultsOverlay';
+import { RaceSetupPanel } from './ui/RaceSetupPanel';
+import { ReplayControls, type ReplayControlEvent } from './ui/ReplayControls';
+import { PhotoModePanel, type PhotoModeEvent } from './ui/PhotoModePanel';
+import { ReplayRecorder, type ReplayTarget } from './replay/ReplayRecorder';
+import { ReplayPlayer } from './replay/ReplayPlayer';
+import { downloadReplay } from './replay/ReplayFormat';
+import { InputPlayer, InputRecorder, clearPlayerInput, createPlayerInput } from './replay/InputLog';
+import { loadRaceSetup, saveRaceSetup } from './RaceSetup';
+import { SHIP_CLASS_IDS, loadShipClass, saveShipClass } from './ShipClass';
+import { loadLivery, saveLivery } from './Livery';
+import { loadCameraSettings, nextCameraMode, saveCameraSettings } from './CameraMode';
+import { downloadTrackFile, fetchTrackFile, readTrackFile, serializeTrack, trackFileId, trackFileToLayout } from './TrackFile';
+import type { TrackFile } from './types';
 
 export class Game {
     private container: HTMLElement;
@@ -32,6 +58,9 @@ export class Game {
     private chromaticAberrationEffect!: ChromaticAberrationEffect;
     private vignetteEffect!: VignetteEffect;
     private bloomEffect!: BloomEffect;
+    // Only enabled in photo mode with blur turned up
+    private depthOfFieldEffect!: DepthOfFieldEffect;
+    private depthOfFieldPass!: EffectPass;
     private scene: THREE.Scene;
     private camera: THREE.PerspectiveCamera;
     private stats: Stats;
@@ -49,6 +78,9 @@ export class Game {
     private freeCamPos = new THREE.Vector3();
     private freeCamYaw = 0;
     private freeCamPitch = 0;
+    private freeCamRoll = 0; // photo mode only
+    private freeCamRollAxis = new THREE.Vector3(0, 0, 1); // camera view axis, never modified
+    private freeCamRollQuat = new THREE.Quaternion();
     private freeCamInput = { forward: false, back: false, left: false, right: false, up: false, down: false, sprint: false };
     private freeCamSprintSpeed = 1; // accumulates over time when sprinting
     private savedCamPos = new THREE.Vector3();
@@ -69,13 +101,50 @@ export class Game {
     private npcShips: NPCShip[] = [];
     private npcShipBoosts: ShipBoostParticles[] = [];
     private npcDriftTrails: DriftTrail[] = [];
+    private explosions: ShipExplosion[] = []; // hull wrecks, removed once burnt out
     private raceManager!: RaceManager;
     private raceState: RaceState = 'NOT_STARTED';
+    private raceMode: RaceMode = 'race';
+    private raceSetup: RaceSetup = loadRaceSetup(); // laps, field and track for the next race
+    private livery: ShipLivery = loadLivery(); // player paint job, applied at race start
+    private cameraSettings: CameraSettings = loadCameraSettings(); // chase view and mirror, kept between races
+    private mirrorViewport = new THREE.Vector4();
+    private canvasSize = new THREE.Vector2();
+    // Time trial ghost (only created in time-trial mode)
+    private ghost: ShipGhost | null = null;
+    private ghostLap = 0; // last lapCurrent seen by the ghost recorder
+    // Every race is recorded from GO; the results screen plays it back with its own camera director
+    private replayRecorder!: ReplayRecorder;
+    private replayPlayer: ReplayPlayer | null = null;
+    private replayControls: ReplayControls | null = null;
+    private replayDirector: CameraDirector | null = null;
+    private replayFocus: string | null = null;
+    // Player controls are logged every fixed step from GO; RE-RUN on the results screen re-simulates from the log
+    private inputRecorder = new InputRecorder();
+    private inputPlayer: InputPlayer | null = null;
+    private playerInput = createPlayerInput();
+    private draftLockRequested = false; // draft lock key or pad press, applied on the next fixed step
+    // Photo mode (from the pause menu): free camera with lens and post-FX sliders
+    private photoPanel: PhotoModePanel | null = null;
+    private photoSettings: PhotoSettings | null = null;
+    private photoRestore = { fov: CAMERA.fov, cameraControl: true, input: false };
+    // Personal-best sector splits for the live delta readout
+    private bestSplits: BestSplits | null = null;
+    private submittedLaps = 0; // player lapTimes already offered to bestSplits
     private minimapVisible = true; // Start visible by default
-    private mode: 'MENU' | 'RACE' | 'VIEWER' | 'CONTROLS' = 'MENU';
+    private mode: 'MENU' | 'RACE' | 'VIEWER' | 'CONTROLS' | 'EDITOR' = 'MENU';
     private mainMenu!: MainMenu;
     private shipViewer: ShipViewer | null = null;
     private controlsViewer: ControlsViewer | null = null;
+    private trackFilePanel: TrackFilePanel | null = null;
+    private trackName = 'Untitled'; // name of the loaded track file (used as export default)
+    private trackEditor: TrackEditor | null = null;
+    private leaderboard = new Leaderboard();
+    private leaderboardPanel: LeaderboardPanel | null = null;
+    private raceSetupPanel: RaceSetupPanel | null = null;
+    private raceResultsOverlay: RaceResultsOverlay | null = null;
+    private finishElapsed = 0; // seconds since the player finished (results delay)
+    private countdownTimers: number[] = []; // pending countdown steps, cleared on teardown
     // Attract mode
     private menuNpcShips: NPCShip[] = [];
     private menuNpcBoosts: ShipBoostParticles[] = [];
@@ -128,6 +197,11 @@ export class Game {
 
     // Drafting system
     private drafting!: DraftingSystem;
+    private collisions = new CollisionSystem();
+    private items = new ItemSystem(); // combat items from track item boxes (race mode only)
+    private style = new StyleScore(); // player style points for the HUD, results and leaderboard
+    private gamepad = new GamepadInput();
+    private bindings = new InputBindings();
 
     constructor(container: HTMLElement) {
         this.container = container;
@@ -157,6 +231,7 @@ export class Game {
 
         this.setup();
         this.onResize();
+        this.loadTrackFromUrl();
         window.addEventListener('resize', () => this.onResize());
 
         // Pause and free camera controls
@@ -175,6 +250,7 @@ export class Game {
         // Systems
         this.track = new Track();
         this.scene.add(this.track.root);
+        this.replayRecorder = new ReplayRecorder(this.track);
 
         // Verify track initialization
         if (this.track.curve && this.track.curve.points && this.track.curve.points.length > 0) {
@@ -191,7 +267,9 @@ export class Game {
             }, 0);
         }
 
-        this.ship = new Ship(this.track, this.camera);
+        this.ship = new Ship(this.track, this.camera, this.bindings);
+        this.ship.setShipClass(loadShipClass());
+        this.ship.setCameraMode(this.cameraSettings.mode);
         this.scene.add(this.ship.root);
 
         this.env = new Environment();
@@ -208,6 +286,7 @@ export class Game {
         // Drift trail effect (player color)
         this.driftTrail = new DriftTrail(this.track, this.ship.getColor());
         this.scene.add(this.driftTrail.root);
+        this.applyLivery();
 
         // Drift speed lines coming off the ship
         this.driftSpeedLines = new DriftSpeedLines(this.ship, this.track);
@@ -216,6 +295,36 @@ export class Game {
         // Drafting system
         this.drafting = new DraftingSystem();
 
+        // Ship-to-ship contacts: audio and camera shake react when the player is involved
+        this.collisions.onContact((contact) => {
+            this.replayRecorder.addEvent('contact', contact.racerA, 'CONTACT', contact.racerB);
+            if (contact.racerA !== this.ship.racerId && contact.racerB !== this.ship.racerId) return;
+            this.audio.triggerImpact(contact.strength);
+            if (!contact.shielded.includes(this.ship.racerId)) {
+                this.ship.addCameraShake(contact.strength);
+                this.style.breakCombo();
+            }
+        });
+        this.ship.onDestroyed(position => this.onRacerDestroyed(this.ship.racerId, position, this.ship.getColor()));
+
+        // Landing mid-rotation jolts like a contact and breaks the style combo
+        this.ship.onTrickLanded((rotations, clean) => {
+            this.style.landTrick(rotations, clean);
+            if (rotations > 0 || !clean) this.replayRecorder.addEvent('trick', this.ship.racerId, clean ? `TRICK x${rotations}` : 'BAD LANDING');
+            if (clean) return;
+            this.audio.triggerImpact(0.6);
+            this.ship.addCameraShake(0.6);
+        });
+
+        // Item hits on the player: mines jolt like a contact, EMPs only sound
+        this.scene.add(this.items.root);
+        this.items.onItemEvent((event) => {
+            this.replayRecorder.addEvent('item', event.userId, event.absorbed ? `${event.kind.toUpperCase()} (SHIELDED)` : event.kind.toUpperCase(), event.targetId);
+            if (event.targetId !== this.ship.racerId) return;
+            this.audio.triggerImpact(event.kind === 'mine' ? 1 : 0.4);
+            if (event.kind === 'mine' && !event.absorbed) this.ship.addCameraShake(0.8);
+        });
+
         // Speed stars
         this.speedStars = new ShipSpeedStars(this.ship, this.track);
         this.scene.add(this.speedStars.root);
@@ -236,7 +345,7 @@ export class Game {
         // Start line holographic wall is now built into Track.buildStartLine()
         // No separate particle system needed
 
-        this.ui = new UI();
+        this.ui = new UI(this.bindings);
         // Ensure pause menu is hidden on initialization
         this.ui.setPaused(false);
 
@@ -272,7 +381,11 @@ export class Game {
         this.vignetteEffect = vignette;
         this.bloomEffect = bloom;
         const effects = new EffectPass(this.camera, bloom, chroma, vignette);
+        this.depthOfFieldEffect = new DepthOfFieldEffect(this.camera, { worldFocusDistance: PHOTO.focusDistance.default, worldFocusRange: PHOTO.focusRange, bokehScale: 0 });
+        this.depthOfFieldPass = new EffectPass(this.camera, this.depthOfFieldEffect);
+        this.depthOfFieldPass.enabled = false;
         this.composer.addPass(renderPass);
+        this.composer.addPass(this.depthOfFieldPass);
         this.composer.addPass(effects);
 
         if (POST.enableSMAA) {
@@ -285,15 +398,17 @@ export class Game {
         const start = document.getElementById('start');
         start?.classList.add('hidden');
         this.mainMenu = new MainMenu({ news: NEWS_ITEMS });
-        this.mainMenu.setDisabled(['multiplayer', 'leaderboards']);
-        this.mainMenu.on('race', () => this.startFromMenu());
+        this.mainMenu.setDisabled(['multiplayer']);
+        this.mainMenu.on('race', () => this.openRaceSetup('race'));
+        this.mainMenu.on('time-trial', () => this.openRaceSetup('time-trial'));
         this.mainMenu.on('controls', () => {
             // Activate the controls viewer in the right viewport
             const mount = document.getElementById('menuViewport')!;
+            this.raceSetupPanel?.stop();
             // Show viewport first so ControlsViewer can get proper dimensions
             this.mainMenu.showViewerOverlay(true);
             if (!this.controlsViewer) {
-                this.controlsViewer = new ControlsViewer(mount);
+                this.controlsViewer = new ControlsViewer(mount, this.bindings);
             }
             this.controlsViewer.start();
             this.mode = 'CONTROLS';
@@ -301,17 +416,68 @@ export class Game {
         this.mainMenu.on('build-ship', () => {
             // Activate the ship viewer in the right viewport
             const mount = document.getElementById('menuViewport')!;
+            this.raceSetupPanel?.stop();
             // Show viewport first so ShipViewer can get proper dimensions
             this.mainMenu.showViewerOverlay(true);
             if (!this.shipViewer) {
-                this.shipViewer = new ShipViewer(mount, this.ship);
+                this.shipViewer = new ShipViewer(mount, this.ship, this.livery);
+                this.shipViewer.onClassChange(saveShipClass);
+                this.shipViewer.onLiveryChange((livery) => {
+                    this.livery = livery;
+                    saveLivery(livery);
+                });
             }
             this.shipViewer.start();
             this.mode = 'VIEWER';
         });
+        this.mainMenu.on('track', () => {
+            // Track import/export panel; attract mode keeps running so a loaded track previews behind it
+            const mount = document.getElementById('menuViewport')!;
+            this.shipViewer?.stop();
+            this.controlsViewer?.stop();
+            this.leaderboardPanel?.stop();
+            this.raceSetupPanel?.stop();
+            this.mainMenu.showViewerOverlay(true);
+            if (!this.trackFilePanel) {
+                this.trackFilePanel = new TrackFilePanel(mount);
+                this.trackFilePanel.onImport((file) => {
+                    readTrackFile(file)
+                        .then((trackFile) => {
+                            this.applyTrackFile(trackFile);
+                            this.trackFilePanel?.setTrackName(trackFile.name);
+                            this.trackFilePanel?.setStatus(`Loaded "${trackFile.name}"`);
+                        })
+                        .catch((err: Error) => this.trackFilePanel?.setStatus(err.message, true));
+                });
+                this.trackFilePanel.onExport((name) => {
+                    this.trackName = name;
+                    downloadTrackFile(serializeTrack(this.track, name));
+                    this.trackFilePanel?.setStatus(`Exported "${name}"`);
+                });
+            }
+            this.trackFilePanel.setTrackName(this.trackName);
+            this.trackFilePanel.start();
+            this.mode = 'MENU';
+        });
+        this.mainMenu.on('editor', () => this.enterEditor());
+        this.mainMenu.on('leaderboards', () => {
+            // Local records browser; attract mode keeps running behind it
+            const mount = document.getElementById('menuViewport')!;
+            this.shipViewer?.stop();
+            this.controlsViewer?.stop();
+            this.trackFilePanel?.stop();
+            this.raceSetupPanel?.stop();
+            this.mainMenu.showViewerOverlay(true);
+            if (!this.leaderboardPanel) {
+                this.leaderboardPanel = new LeaderboardPanel(mount, this.leaderboard);
+            }
+            this.leaderboardPanel.start(this.track.trackId);
+            this.mode = 'MENU';
+        });
         // Pause-mode specific actions
-        this.mainMenu.on('restart', () => this.restart());
-        this.mainMenu.on('quit', () => this.quitToMenu());
+        this.mainMenu.on('photo', () => this.enterPhotoMode());
+        this.mainMenu.on('restart', () => this.restartRace());
+        this.mainMenu.on('quit', () => this.returnToMenu());
 
         // Tab switching
         this.ui.onTabSwitch((mode) => {
@@ -524,6 +690,118 @@ export class Game {
         }
     }
 
+    // ?track=<url> loads a shared track file before the race starts
+    private loadTrackFromUrl() {
+        const url = new URLSearchParams(window.location.search).get(TRACK_FILE.urlParam);
+        if (!url) return;
+        fetchTrackFile(url)
+            .then((file) => {
+                if (this.started) return;
+                this.applyTrackFile(file);
+            })
+            .catch((err) => console.error('Failed to load track from URL:', err));
+    }
+
+    // Regenerate the track from a file and rebuild everything derived from its geometry
+    private applyTrackFile(file: TrackFile) {
+        if (this.started) return;
+        this.track.generate(file.options, 'custom', trackFileToLayout(file), trackFileId(file));
+        this.trackName = file.name;
+        this.keepLoadedTrack();
+        this.refreshTrackSystems();
+    }
+
+    // Pre-race setup in the menu viewport; START applies the track choice and begins the race
+    private openRaceSetup(mode: RaceMode) {
+        if (this.started) return;
+        const mount = document.getElementById('menuViewport')!;
+        this.shipViewer?.stop();
+        this.controlsViewer?.stop();
+        this.trackFilePanel?.stop();
+        this.leaderboardPanel?.stop();
+        this.mainMenu.showViewerOverlay(true);
+        if (!this.raceSetupPanel) {
+            this.raceSetupPanel = new RaceSetupPanel(mount);
+            this.raceSetupPanel.onLoadFile((file) => {
+                readTrackFile(file)
+                    .then((trackFile) => {
+                        this.applyTrackFile(trackFile);
+                        this.raceSetupPanel?.setLoadedTrack(trackFile.name);
+                        this.raceSetupPanel?.setStatus(`Loaded "${trackFile.name}"`);
+                    })
+                    .catch((err: Error) => this.raceSetupPanel?.setStatus(err.message, true));
+            });
+            this.raceSetupPanel.onStart((setup) => {
+                this.raceSetup = setup;
+                saveRaceSetup(setup);
+                this.applyRaceSetupTrack();
+                this.startFromMenu(this.raceMode);
+            });
+        }
+        this.raceMode = mode;
+        this.raceSetupPanel.start(mode, this.raceSetup, this.getTrackLabel());
+        this.mode = 'MENU';
+    }
+
+    // Generate the chosen seed unless it is already loaded; a null seed keeps the current track
+    private applyRaceSetupTrack() {
+        const seed = this.raceSetup.seed;
+        if (seed === null || this.track.trackId === String(seed)) return;
+        this.track.generate({ ...this.track.getOptions(), seed }, 'procedural');
+        this.trackName = 'Untitled';
+        this.refreshTrackSystems();
+    }
+
+    // The track in memory no longer matches the setup seed: race setup preselects LOADED TRACK so START keeps it
+    private keepLoadedTrack() {
+        this.raceSetup = { ...this.raceSetup, seed: null };
+    }
+
+    // Rebuild everything derived from the track geometry after Track.generate
+    private refreshTrackSystems() {
+        this.wormholeTunnel.rebuild();
+        this.ui.refreshMinimap();
+        const starfieldRadius = this.track.boundingRadius * 1.6;
+        this.env.setStarfieldRadius(starfieldRadius);
+        this.shootingStars.setStarfieldRadius(starfieldRadius);
+        this.ship.reset();
+        this.menuPacerT = -12 / this.track.length;
+    }
+
+    // Track editor takes over the whole screen; the menu comes back on exit
+    private enterEditor() {
+        if (this.started || this.trackEditor) return;
+        this.shipViewer?.stop();
+        this.controlsViewer?.stop();
+        this.trackFilePanel?.stop();
+        this.leaderboardPanel?.stop();
+        this.raceSetupPanel?.stop();
+        this.mainMenu.showViewerOverlay(false);
+        this.mainMenu.hide();
+        const newsEl = document.getElementById('newsFeed');
+        if (newsEl) newsEl.style.display = 'none';
+
+        this.trackEditor = new TrackEditor(this.track, this.camera, this.renderer.domElement, this.trackName);
+        this.trackEditor.onRegenerate(() => {
+            this.keepLoadedTrack();
+            this.refreshTrackSystems();
+        });
+        this.trackEditor.onExit(() => this.exitEditor());
+        this.scene.add(this.trackEditor.root);
+        this.mode = 'EDITOR';
+    }
+
+    private exitEditor() {
+        if (!this.trackEditor) return;
+        this.trackName = this.trackEditor.getTrackName();
+        this.trackEditor.dispose();
+        this.trackEditor = null;
+        this.mainMenu.show();
+        const newsEl = document.getElementById('newsFeed');
+        if (newsEl) newsEl.style.display = 'flex';
+        this.mode = 'MENU';
+    }
+
     private shouldAnimateMenu(): boolean {
         return !this.menuAnimationDisabled;
     }
@@ -541,38 +819,79 @@ export class Game {
     }
 
     private onPauseKey(e: KeyboardEvent, down: boolean) {
-        if (e.code === 'Escape' && down && this.started) {
-            this.togglePause();
+        const b = this.bindings;
+        if (b.is('pause', e.code) && down && this.started && !this.raceResultsOverlay?.isVisible() && !this.replayPlayer) {
+            // Pause in photo mode goes back to the pause menu
+            if (this.photoPanel) this.exitPhotoMode();
+            else this.togglePause();
         }
 
-        // Draft lock-on with 'E' key (only during race, not paused/free-flying)
-        if (e.code === 'KeyE' && down && this.started && !this.paused && !this.freeFlying) {
-            this.drafting.tryLockOn();
+        // Draft lock-on (only during race, not paused/free-flying)
+        if (b.is('draftLock', e.code) && down && this.started && !this.paused && !this.freeFlying) {
+            this.draftLockRequested = true;
         }
 
-        // Free flight mode toggle with '-' key
-        if (e.code === 'Minus' && down && this.started) {
+        // Camera view cycle and rear-view mirror (live race camera only)
+        if (b.is('cameraCycle', e.code) && down && this.isShipCameraLive()) {
+            this.cycleCameraMode();
+        }
+        if (b.is('rearMirror', e.code) && down && this.isShipCameraLive()) {
+            this.cameraSettings.mirror = !this.cameraSettings.mirror;
+            saveCameraSettings(this.cameraSettings);
+        }
+
+        // Free flight mode toggle
+        if (b.is('freeFly', e.code) && down && this.started) {
             this.toggleFreeFlying();
         }
 
-        // Minimap toggle with 'm' key
-        if (e.code === 'KeyM' && down && this.started) {
+        // Minimap toggle
+        if (b.is('toggleMinimap', e.code) && down && this.started) {
             this.toggleMinimap();
         }
 
         // Free camera movement (only when paused or free flying)
         if (!this.paused && !this.freeFlying) return;
-        if (e.code === 'KeyW') this.freeCamInput.forward = down;
-        if (e.code === 'KeyS') this.freeCamInput.back = down;
-        if (e.code === 'KeyA') this.freeCamInput.left = down;
-        if (e.code === 'KeyD') this.freeCamInput.right = down;
-        if (e.code === 'Space') this.freeCamInput.up = down;
-        if (e.code === 'ControlLeft' || e.code === 'ControlRight') this.freeCamInput.down = down;
-        if (e.code === 'ShiftLeft' || e.code === 'ShiftRight') this.freeCamInput.sprint = down;
+        if (b.is('freeCamForward', e.code)) this.freeCamInput.forward = down;
+        if (b.is('freeCamBack', e.code)) this.freeCamInput.back = down;
+        if (b.is('freeCamLeft', e.code)) this.freeCamInput.left = down;
+        if (b.is('freeCamRight', e.code)) this.freeCamInput.right = down;
+        if (b.is('freeCamUp', e.code)) this.freeCamInput.up = down;
+        if (b.is('freeCamDown', e.code)) this.freeCamInput.down = down;
+        if (b.is('freeCamSprint', e.code)) this.freeCamInput.sprint = down;
+    }
+
+    // Gamepad: drive input goes to the ship; draft lock and pause mirror their key actions in onPauseKey
+    private pollGamepad() {
+        const pad = this.gamepad.poll();
+        if (pad?.pause && this.started && !this.raceResultsOverlay?.isVisible() && !this.replayPlayer) {
+            if (this.photoPanel) this.exitPhotoMode();
+            else this.togglePause();
+        }
+        if (pad?.draftLock && this.started && !this.paused && !this.freeFlying) {
+            this.draftLockRequested = true;
+        }
+        if (pad?.cameraCycle && this.isShipCameraLive()) {
+            this.cycleCameraMode();
+        }
+        this.ship.setGamepadInput(pad);
+    }
+
+    // The ship's chase camera is what's on screen (not paused, free-flying or watching a replay)
+    private isShipCameraLive(): boolean {
+        return this.started && !this.paused && !this.freeFlying && !this.replayPlayer;
+    }
+
+    private cycleCameraMode() {
+        this.cameraSettings.mode = nextCameraMode(this.cameraSettings.mode);
+        this.ship.setCameraMode(this.cameraSettings.mode);
+        saveCameraSettings(this.cameraSettings);
     }
 
     private onFreeCamMouseMove(e: MouseEvent) {
         if (!this.paused && !this.freeFlying) return;
+        // Photo mode looks around only while dragging on the view, so the sliders stay usable
+        if (this.photoPanel && (e.buttons === 0 || e.target !== this.renderer.domElement)) return;
         const dx = e.movementX;
         const dy = e.movementY;
         if (dx === 0 && dy === 0) return;
@@ -741,6 +1060,7 @@ export class Game {
         const qYaw = new THREE.Quaternion().setFromAxisAngle(up, this.freeCamYaw);
         const qPitch = new THREE.Quaternion().setFromAxisAngle(right, this.freeCamPitch);
         const rotation = qYaw.multiply(qPitch);
+        const qRoll = this.freeCamRollQuat.setFromAxisAngle(this.freeCamRollAxis, this.freeCamRoll);
 
         // Apply rotation to direction vectors
         forward.applyQuaternion(rotation);
@@ -754,9 +1074,9 @@ export class Game {
         if (this.freeCamInput.up) this.freeCamPos.addScaledVector(up, speed * dt);
         if (this.freeCamInput.down) this.freeCamPos.addScaledVector(up, -speed * dt);
 
-        // Apply to camera
+        // Apply to camera (roll only tilts the view, movement stays level)
         this.camera.position.copy(this.freeCamPos);
-        this.camera.quaternion.copy(rotation);
+        this.camera.quaternion.copy(rotation).multiply(qRoll);
     }
 
     private loop = () => {
@@ -791,21 +1111,34 @@ export class Game {
         // this.comets.update(dt); // Temporarily disabled
         this.env.update(dt);
 
+        this.pollGamepad();
 
         if (!this.started) {
             if (this.mode === 'MENU') this.updateAttractMode(dt);
-            this.ui.update(this.ship.state, this.ship.getFocusRefillActive(), this.ship.getFocusRefillProgress(), this.ship.getBoostRechargeDelay(), this.ship.isBoostHeld());
+            if (this.mode === 'EDITOR') this.trackEditor?.update();
+            this.ui.update(this.ship.state, this.ship.getFocusRefillActive(), this.ship.getFocusRefillProgress(), this.ship.getBoostRechargeDelay(), this.ship.isBoostHeld(), this.ship.isShieldActive());
             return;
         }
 
         if (this.paused) {
             this.updateFreeCamera(dt);
+            // Photo mode with time unfrozen lets the race carry on behind the free camera
+            if (!this.photoSettings || this.photoSettings.frozen) return;
+        }
+
+        // Replay playback freezes the race where it was
+        if (this.replayPlayer) {
+            this.updateReplay(dt);
             return;
         }
 
+        // Race clock runs on fixed steps only (fixedDelta per step), never the wall clock
+        this.raceManager.tick(dt);
+
         if (this.freeFlying) {
             // Free fly mode: update both free camera and game state
             this.updateFreeCamera(dt);
+            this.stepPlayerInput(dt);
             // Drafting first so Ship can use drafting speed in update
             this.drafting.update(dt, this.track, this.ship, this.npcShips);
             this.ship.update(dt);
@@ -824,7 +1157,7 @@ export class Game {
             // Animate ramp visuals while free flying too
             const currentTime = this.clock.getElapsedTime();
             this.track.updateRampAnimation(currentTime);
-            this.ui.update(this.ship.state, this.ship.getFocusRefillActive(), this.ship.getFocusRefillProgress(), this.ship.getBoostRechargeDelay(), this.ship.isBoostHeld());
+            this.ui.update(this.ship.state, this.ship.getFocusRefillActive(), this.ship.getFocusRefillProgress(), this.ship.getBoostRechargeDelay(), this.ship.isBoostHeld(), this.ship.isShieldActive());
             this.audio.setSpeed(this.ship.state.speedKmh);
             if (this.ship.state.boosting && !this.prevBoost) this.audio.triggerBoost();
             this.prevBoost = this.ship.state.boosting;
@@ -834,7 +1167,7 @@ export class Game {
         }
 
         // Handle camera intro animation
-        if (this.cameraIntroActive) {
+        if (this.cameraIntroActive && !this.photoPanel) {
             this.cameraIntroTime += dt;
             this.updateCameraIntro(dt);
 
@@ -846,7 +1179,7 @@ export class Game {
         }
 
         // Update minimap during countdown and racing
-        if ((this.raceState === 'COUNTDOWN' || this.raceState === 'RACING' || this.raceState === 'FINISHED') && this.npcShips.length > 0) {
+        if ((this.raceState === 'COUNTDOWN' || this.raceState === 'RACING' || this.raceState === 'FINISHED') && (this.npcShips.length > 0 || this.raceMode === 'time-trial')) {
             const npcStatesForMinimap = this.npcShips.map(npc => ({
                 state: npc.state,
                 color: '#' + npc.color.getHexString()
@@ -862,12 +1195,17 @@ export class Game {
             this.track.updateRampAnimation(currentTime);
 
             // Ship updates use normal dt for responsive controls
+            this.stepPlayerInput(dt);
             // Drafting before ship update so target speed can incorporate it
             this.drafting.update(dt, this.track, this.ship, this.npcShips);
             this.ship.update(dt);
             this.ui.showDrafting(this.drafting.isLocked());
             this.ui.showDraftLockHint(this.drafting.isEligible() && !this.drafting.isLocked());
 
+            // Time trial ghost records and replays on the same fixed step as the ship
+            this.updateGhost();
+            this.updateSplits();
+
             // Visual effects use dilated dt for time dilation effect
             const visualDt = this.getEffectiveDt(dt);
             this.shipBoost.update(visualDt);
@@ -879,7 +1217,7 @@ export class Game {
             this.wormholeTunnel.update(visualDt);
             this.shootingStars.update(visualDt); // Ensure shooting stars continue during race
             this.env.update(visualDt);
-            this.ui.update(this.ship.state, this.ship.getFocusRefillActive(), this.ship.getFocusRefillProgress(), this.ship.getBoostRechargeDelay(), this.ship.isBoostHeld());
+            this.ui.update(this.ship.state, this.ship.getFocusRefillActive(), this.ship.getFocusRefillProgress(), this.ship.getBoostRechargeDelay(), this.ship.isBoostHeld(), this.ship.isShieldActive());
 
             // Update debug overlay
             // TODO FIX THIS CAUSES WEIRD INTRO CAMERA JERK 
@@ -888,13 +1226,27 @@ export class Game {
             // this.ui.updateDebugOverlay(gameTime, starStats.ahead, starStats.behind, starStats.distant, starStats.total, this.ship.state.speedKmh);
 
             // Update NPCs FIRST so their state is current when calculating positions
-            // NPCs use normal dt for gameplay consistency
+            // NPCs use normal dt for gameplay consistency; catch-up reads last step's race distances
+            const playerDistance = this.raceManager.getRaceDistance('player');
             this.npcShips.forEach(npc => {
+                npc.setRaceDistance(this.raceManager.getRaceDistance(npc.racerId), playerDistance);
                 npc.update(dt, this.ship.state.t, this.ship.state.lapCurrent, this.ship.state.speedKmh, this.npcShips, this.ship.state.lateralOffset);
             });
+            this.ui.updateRubberBandDebug(this.npcShips.map(npc => ({ racerId: npc.racerId, multiplier: npc.getRubberBandingMultiplier() })));
+
+            // Contacts only while racing; nobody moves on the grid during the countdown
+            if (this.raceState === 'RACING') {
+                this.collisions.update(dt, this.track, [this.ship, ...this.npcShips]);
+                if (this.raceMode === 'race') this.items.update(dt, this.track, [this.ship, ...this.npcShips]);
+                this.style.update(dt, this.track, this.ship.state, this.npcShips, this.drafting.isLocked());
+            }
+            this.track.updateItemBoxes(visualDt);
+            this.ui.setItem(this.ship.heldItem);
+            this.ui.setStyle(this.style.getTotal(), this.style.getCombo());
 
             // Update NPC boost effects (visual, use dilated dt)
             this.npcShipBoosts.forEach(boost => boost.update(visualDt));
+            this.updateExplosions(visualDt);
 
             // Update race position and lap time info (after NPCs have been updated)
             this.raceManager.updatePlayerState(this.ship.state);
@@ -909,12 +1261,19 @@ export class Game {
                 this.raceState = 'FINISHED';
                 // Disable ship input when race is finished
                 this.ship.disableInput();
+                this.raceManager.setStyleScore(this.ship.racerId, this.style.finish());
+                // A re-simulated race is a copy of one already on the board
+                if (!this.inputPlayer) this.recordRaceResult();
                 console.log('Race finished! Final position and time will be shown.');
             }
 
+            if (this.raceState === 'RACING' || this.raceState === 'FINISHED') this.replayRecorder.record(dt);
+
             // Calculate and update race positions
             const raceResults = this.raceManager.getRaceResults();
-            this.ui.updateRaceInfo(raceResults.playerPosition, this.ship.state.lastLapTime ?? 0, this.npcShips.length + 1);
+            this.ui.updateRaceInfo(raceResults.playerPosition, this.ship.state.lastLapTime ?? 0, this.npcShips.length + 1, this.getLapDelta());
+
+            if (this.raceState === 'FINISHED') this.updateResults(dt);
 
             this.audio.setSpeed(this.ship.state.speedKmh);
             if (this.ship.state.boosting && !this.prevBoost) this.audio.triggerBoost();
@@ -1080,6 +1439,9 @@ export class Game {
     }
 
     private updateGravitationalLensing(dt: number) {
+        // Photo mode sliders own the effects until it exits
+        if (this.photoSettings) return;
+
         // Normal values (when NOT inside blackhole)
         const normalChromaOffset = 0.0; // No chromatic aberration normally
         const normalVignetteOffset = 0.5; // Default vignette
@@ -1117,12 +1479,39 @@ export class Game {
     }
 
     private render() {
+        const live = this.isShipCameraLive();
+        const shipVisible = this.ship.root.visible;
+        // Cockpit views would otherwise render the inside of the hull
+        if (live && this.ship.isCameraInsideShip()) this.ship.root.visible = false;
         this.composer.render();
+
+        // Rear-view mirror: a plain render of the scene into a strip at the top centre, ship hidden
+        if (live && this.cameraSettings.mirror) {
+            const { widthFraction, aspect, topMargin } = CAMERA_MODES.mirror;
+            const size = this.renderer.getSize(this.canvasSize);
+            const width = Math.round(size.x * widthFraction);
+            const height = Math.round(width / aspect);
+            // Viewport origin is bottom-left
+            this.mirrorViewport.set(Math.round((size.x - width) / 2), size.y - topMargin - height, width, height);
+            this.ship.root.visible = false;
+            this.renderer.setScissorTest(true);
+            this.renderer.setViewport(this.mirrorViewport);
+            this.renderer.setScissor(this.mirrorViewport);
+            this.renderer.render(this.scene, this.ship.mirrorCamera);
+            this.renderer.setScissorTest(false);
+            this.renderer.setViewport(0, 0, size.x, size.y);
+        }
+        this.ship.root.visible = shipVisible;
     }
 
     // Start the actual race from the new main menu
-    public startFromMenu() {
+    public startFromMenu(mode: RaceMode = 'race') {
         if (this.started) return;
+        this.raceMode = mode;
+        // Items are a race-mode mechanic; time trials stay clean for records
+        this.track.setItemBoxesEnabled(mode === 'race');
+        this.ui.setItemSlotVisible(mode === 'race');
+        this.applyLivery();
 
         // Slide out menu + news feed, then hide
         try {
@@ -1157,7 +1546,16 @@ export class Game {
         if (this.controlsViewer) {
             this.controlsViewer.stop();
         }
-        if (this.shipViewer || this.controlsViewer) {
+        if (this.trackFilePanel) {
+            this.trackFilePanel.stop();
+        }
+        if (this.leaderboardPanel) {
+            this.leaderboardPanel.stop();
+        }
+        if (this.raceSetupPanel) {
+            this.raceSetupPanel.stop();
+        }
+        if (this.shipViewer || this.controlsViewer || this.trackFilePanel || this.leaderboardPanel || this.raceSetupPanel) {
             this.mainMenu.showViewerOverlay(false);
         }
         // Dispose camera director
@@ -1171,9 +1569,11 @@ export class Game {
         // Clean up menu preview NPCs before creating race NPCs
         this.menuNpcShips.forEach(npc => {
             this.scene.remove(npc.root);
+            npc.dispose();
         });
         this.menuNpcBoosts.forEach(boost => {
             this.scene.remove(boost.root);
+            boost.dispose();
         });
         this.menuNpcShips = [];
         this.menuNpcBoosts = [];
@@ -1182,44 +1582,29 @@ export class Game {
         this.ui.setStarted(true);
         this.ui.setHudVisible(true);
 
-        // Create four NPCs
-        const npc1 = new NPCShip(this.track, 'npc1', COLORS.neonRed, 'aggressive', -8);
-        const npc2 = new NPCShip(this.track, 'npc2', COLORS.neonMagenta, 'aggressive', 8);
-        const npc3 = new NPCShip(this.track, 'npc3', COLORS.neonYellow, 'conservative', -4);
-        const npc4 = new NPCShip(this.track, 'npc4', COLORS.neonPurple, 'conservative', 4);
-
-        this.npcShips = [npc1, npc2, npc3, npc4];
-        this.scene.add(npc1.root);
-        this.scene.add(npc2.root);
-        this.scene.add(npc3.root);
-        this.scene.add(npc4.root);
-
-        this.npcShipBoosts = [new ShipBoostParticles(npc1), new ShipBoostParticles(npc2), new ShipBoostParticles(npc3), new ShipBoostParticles(npc4)];
-        this.npcShipBoosts.forEach(b => this.scene.add(b.root));
-
-        // NPC drift trails color-matched per ship
-        this.npcDriftTrails = [
-            new DriftTrail(this.track, npc1.color),
-            new DriftTrail(this.track, npc2.color),
-            new DriftTrail(this.track, npc3.color),
-            new DriftTrail(this.track, npc4.color)
-        ];
-        this.npcDriftTrails.forEach(t => this.scene.add(t.root));
-
-        // Register with race manager
-        this.raceManager.addNPC('npc1');
-        this.raceManager.addNPC('npc2');
-        this.raceManager.addNPC('npc3');
-        this.raceManager.addNPC('npc4');
+        this.bestSplits = new BestSplits(this.track.trackId);
+        this.submittedLaps = 0;
+
+        this.ship.state.lapTotal = this.raceSetup.laps;
+        this.raceManager.setLapTotal(this.raceSetup.laps);
+
+        // Time trial runs solo against the best recorded lap; races get four NPCs
+        if (mode === 'race') {
+            this.items.setSeed(this.track.getOptions().seed);
+            this.spawnRaceNpcs();
+        } else {
+            this.ghost = new ShipGhost(this.track, this.ship);
+            this.ghostLap = 0;
+            this.scene.add(this.ghost.root);
+        }
 
         // Place ships behind start line
         const startT = -12 / this.track.length;
         this.ship.state.t = startT;
         this.ship.state.lateralOffset = 0;
-        this.npcShips[0].state.t = startT;
-        this.npcShips[1].state.t = startT;
-        this.npcShips[2].state.t = startT;
-        this.npcShips[3].state.t = startT;
+        // Grid rows of gridLaterals.length ships, each row further back
+        const rowSize = RACE_SETUP.gridLaterals.length;
+        this.npcShips.forEach((n, i) => n.state.t = startT - Math.floor(i / rowSize) * RACE_SETUP.gridRowSpacingMeters / this.track.length);
         this.ship.updatePositionAndCamera(0);
         this.npcShips.forEach(n => n.updateVisualPosition());
 
@@ -1274,6 +1659,135 @@ export class Game {
         this.mode = 'RACE';
     }
 
+    private spawnRaceNpcs() {
+        // Field size and pace from the race setup; the first slots of each row are the aggressive drivers.
+        // Ship classes rotate through the field so every race has a mix
+        const { opponents, difficulty, laps } = this.raceSetup;
+        const preset = RACE_SETUP.difficulty[difficulty];
+        const skill = { ...preset, rubberBanding: this.raceSetup.rubberBanding ? preset.rubberBanding : [] };
+        const aggressiveCount = Math.round(opponents * skill.aggressiveShare);
+        for (let i = 0; i < opponents; i++) {
+            const racerId = `npc${i + 1}`;
+            const color = new THREE.Color(RACE_SETUP.npcColors[i % RACE_SETUP.npcColors.length]);
+            const lateral = RACE_SETUP.gridLaterals[i % RACE_SETUP.gridLaterals.length];
+            const npc = new NPCShip(this.track, racerId, color, i < aggressiveCount ? 'aggressive' : 'conservative', lateral, skill.speedMultiplier, SHIP_CLASS_IDS[i % SHIP_CLASS_IDS.length], skill);
+            npc.state.lapTotal = laps;
+            this.npcShips.push(npc);
+            this.scene.add(npc.root);
+            npc.onDestroyed(position => this.onRacerDestroyed(racerId, position, npc.color));
+
+            const boost = new ShipBoostParticles(npc);
+            this.npcShipBoosts.push(boost);
+            this.scene.add(boost.root);
+
+            // NPC drift trails color-matched per ship
+            const trail = new DriftTrail(this.track, npc.color);
+            this.npcDriftTrails.push(trail);
+            this.scene.add(trail.root);
+
+            this.raceManager.addNPC(racerId);
+        }
+    }
+
+    // Hull gave out: wreck effect and the respawn time penalty
+    private onRacerDestroyed(racerId: string, position: THREE.Vector3, color: THREE.Color) {
+        this.replayRecorder.addEvent('wreck', racerId, 'WRECKED');
+        const explosion = new ShipExplosion(position, color);
+        this.explosions.push(explosion);
+        this.scene.add(explosion.root);
+        this.raceManager.addPenalty(racerId, HULL.respawnPenaltySec);
+        if (racerId === this.ship.racerId) {
+            this.style.breakCombo();
+            this.audio.triggerImpact(1);
+            this.ship.addCameraShake(1);
+        }
+    }
+
+    private updateExplosions(dt: number) {
+        this.explosions = this.explosions.filter((explosion) => {
+            explosion.update(dt);
+            if (!explosion.isDone()) return true;
+            this.scene.remove(explosion.root);
+            explosion.dispose();
+            return false;
+        });
+    }
+
+    // This step's player controls: read back from the log when re-running a race, logged from GO otherwise
+    private stepPlayerInput(dt: number) {
+        const input = this.playerInput;
+        const racing = this.raceState === 'RACING' || this.raceState === 'FINISHED';
+        if (this.inputPlayer) {
+            if (racing) this.inputPlayer.next(input);
+            else clearPlayerInput(input);
+            this.ship.applyInput(input);
+        } else {
+            this.ship.captureInput(input);
+            input.draftLock = this.draftLockRequested;
+        }
+        this.draftLockRequested = false;
+        if (!racing) return;
+        if (input.draftLock) this.drafting.tryLockOn();
+        this.inputRecorder.record(input, dt);
+    }
+
+    // Record the player's lap and step the best-lap ghost (time trial only)
+    private updateGhost() {
+        if (!this.ghost) return;
+        const lap = this.ship.state.lapCurrent;
+        if (lap > this.ghostLap) {
+            // lapCurrent 1 is the first crossing of the line; later increments close a timed lap
+            if (lap > 1) this.ghost.completeLap(this.ship.state.lastLapTime ?? 0);
+            if (lap < this.ship.state.lapTotal) this.ghost.beginLap();
+            this.ghostLap = lap;
+        }
+        if (this.raceState === 'RACING') this.ghost.record(this.ship.state);
+        this.ghost.update();
+    }
+
+    // Save the player's finished race to the local leaderboard
+    private recordRaceResult() {
+        const results = this.raceManager.getRaceResults();
+        const player = results.positions.find(r => r.racerId === 'player');
+        const lapTimes = (this.ship.state.lapTimes ?? []).map(l => l.time);
+        this.leaderboard.add({
+            trackId: this.track.trackId,
+            trackName: this.getTrackLabel(),
+            laps: this.ship.state.lapTotal,
+            mode: this.raceMode,
+            bestLap: lapTimes.length > 0 ? Math.min(...lapTimes) : 0,
+            raceTime: player?.finishTime ?? results.raceTime,
+            position: results.playerPosition,
+            racers: this.npcShips.length + 1,
+            ship: { color: `#${this.ship.getColor().getHexString()}`, shipClass: this.ship.profile.classId },
+            date: Date.now(),
+            styleScore: this.style.getTotal()
+        });
+    }
+
+    // Display name for the current track (procedural tracks are named by seed)
+    private getTrackLabel(): string {
+        if (this.trackName !== 'Untitled') return this.trackName;
+        return /^\d+$/.test(this.track.trackId) ? `SEED ${this.track.trackId}` : this.trackName;
+    }
+
+    // Offer newly completed laps to the personal-best splits
+    private updateSplits() {
+        const laps = this.ship.state.lapTimes ?? [];
+        if (!this.bestSplits || laps.length <= this.submittedLaps) return;
+        for (let i = this.submittedLaps; i < laps.length; i++) {
+            this.bestSplits.submit(laps[i], this.ship.checkpoints.getCount());
+        }
+        this.submittedLaps = laps.length;
+    }
+
+    // Live delta to the personal best while a timed lap is running
+    private getLapDelta(): number | null {
+        const state = this.ship.state;
+        if (!this.bestSplits || this.raceState !== 'RACING' || state.lapCurrent < 1 || state.lapCurrent >= state.lapTotal) return null;
+        return this.bestSplits.getDelta(state.t, this.ship.getLapTime(), this.ship.checkpoints.getCount());
+    }
+
     // Attract mode with cinematic director
     private updateAttractMode(dt: number) {
         // Ensure setup
@@ -1299,7 +1813,12 @@ export class Game {
         this.menuPacerT += (mps * dt) / this.track.length;
         if (this.menuPacerT > 1) this.menuPacerT -= 1;
 
-        // Update NPCs
+        // Update NPCs; the pacer stands in for the player in the catch-up gap
+        this.menuNpcShips.forEach(npc => {
+            let gap = npc.state.t - this.menuPacerT;
+            gap -= Math.round(gap);
+            npc.setRaceDistance(this.menuPacerT + gap, this.menuPacerT);
+        });
         this.menuNpcShips.forEach(npc => npc.update(dt, this.menuPacerT, 1, this.menuPacerSpeedKmh, this.menuNpcShips, 0));
         this.menuNpcBoosts.forEach(b => b.update(dt));
         // Camera director controls the menu camera
@@ -1313,15 +1832,15 @@ export class Game {
         // 3-2-1-GO countdown sequence
         this.ui.showCountdown(3);
 
-        setTimeout(() => {
+        this.countdownTimers.push(window.setTimeout(() => {
             this.ui.showCountdown(2);
-        }, 1000);
+        }, 1000));
 
-        setTimeout(() => {
+        this.countdownTimers.push(window.setTimeout(() => {
             this.ui.showCountdown(1);
-        }, 2000);
+        }, 2000));
 
-        setTimeout(() => {
+        this.countdownTimers.push(window.setTimeout(() => {
             this.ui.showGo();
             // Start the race
             this.raceState = 'RACING';
@@ -1333,6 +1852,8 @@ export class Game {
             // Start all ships
             this.ship.startRace();
             this.npcShips.forEach(npc => npc.startRace());
+            this.replayRecorder.begin(this.getReplayTargets(), Array.from(this.getRacerLabels(), ([racerId, label]) => ({ racerId, ...label })));
+            this.inputRecorder.begin();
 
             // Show race info display
             this.ui.setRaceInfoVisible(true);
@@ -1341,10 +1862,10 @@ export class Game {
             this.ui.setMinimapVisible(true);
 
             // Hide countdown after GO animation
-            setTimeout(() => {
+            this.countdownTimers.push(window.setTimeout(() => {
                 this.ui.hideCountdown();
-            }, 500);
-        }, 3000);
+            }, 500));
+        }, 3000));
     }
 
     private updateCameraIntro(dt: number) {
@@ -1496,30 +2017,351 @@ export class Game {
         this.renderer.setClearColor(currentClearColor.getHex(), 1);
     }
 
-    private restart() {
-        // Reset ship to starting position
-        this.ship.reset();
+    // Classification overlay after the player finishes; NPCs still running show as DNF until they cross
+    private updateResults(dt: number) {
+        this.finishElapsed += dt;
+        if (this.finishElapsed < RESULTS.showDelaySeconds) return;
+        if (!this.raceResultsOverlay) {
+            this.raceResultsOverlay = new RaceResultsOverlay();
+            this.raceResultsOverlay.onAction((action) => {
+                if (action === 'restart') this.restartRace();
+                if (action === 'new-track') this.startNewTrack();
+                if (action === 'replay') this.startReplay();
+                if (action === 'rerun') this.rerunRace();
+                if (action === 'menu') this.returnToMenu();
+            });
+        }
+        if (!this.raceResultsOverlay.isVisible()) {
+            const title = this.raceMode === 'time-trial'
+                ? 'TIME TRIAL'
+                : `FINISHED ${this.raceManager.getPlayerPosition()}/${this.npcShips.length + 1}`;
+            this.raceResultsOverlay.show(title);
+            document.exitPointerLock();
+            this.renderer.domElement.style.cursor = 'default';
+        }
+        this.raceResultsOverlay.update(this.raceManager.getRaceResults(), this.getRacerLabels(), 'player');
+    }
 
-        // Reset game state
-        this.paused = false;
-        this.ui.setPaused(false);
+    private getReplayTargets(): ReplayTarget[] {
+        return [this.ship, ...this.npcShips];
+    }
 
-        // Clear any free camera state
-        this.freeFlying = false;
+    // Results screen → replay of the race so far (NPCs may still be finishing; that resumes on exit)
+    private startReplay() {
+        if (!this.replayRecorder.hasRecording()) return;
+        const replay = this.replayRecorder.toReplay(this.track.trackId, this.track.getOptions().seed, this.raceSetup.laps);
+        const targets = this.getReplayTargets();
+        this.raceResultsOverlay?.hide();
+        this.ui.setHudVisible(false);
+        this.ship.setCameraControl(false);
+
+        this.replayPlayer = new ReplayPlayer(this.track, replay, targets);
+        this.replayDirector = new CameraDirector(this.track, this.camera);
+        this.replayDirector.setNPCs(targets);
+        this.replayDirector.setShots(REPLAY.shots);
+        this.replayFocus = null;
+        this.replayControls = new ReplayControls(replay.racers, this.replayPlayer.getDuration(), replay.events);
+        this.replayControls.onControl(event => this.onReplayControl(event));
+    }
+
+    private onReplayControl(event: ReplayControlEvent) {
+        const player = this.replayPlayer;
+        if (!player) return;
+        switch (event.type) {
+            case 'toggle':
+                player.togglePlaying();
+                break;
+            case 'seek':
+                player.seek(event.time);
+                this.driftTrail.reset();
+                break;
+            case 'speed':
+                player.setSpeed(event.speed);
+                break;
+            case 'focus':
+                this.replayFocus = event.racerId;
+                this.replayDirector?.setFocus(event.racerId === null ? null : this.getReplayTargets().findIndex(t => t.racerId === event.racerId));
+                break;
+            case 'save':
+                downloadReplay(player.getReplay(), `${this.trackName}-${new Date().toISOString().slice(0, 10)}`);
+                break;
+            case 'exit':
+                this.stopReplay();
+                break;
+        }
+    }
+
+    // Playback runs on real time (scaled by the chosen speed); effects follow the replayed states
+    private updateReplay(dt: number) {
+        const player = this.replayPlayer;
+        if (!player) return;
+        player.update(dt);
+        this.replayDirector?.update(dt);
+        this.ship.jetEngine.update(dt, this.ship.state.speedKmh > 1, this.ship.state.boosting);
+        this.shipBoost.update(dt);
+        this.npcShipBoosts.forEach(boost => boost.update(dt));
+        this.driftTrail.update(dt, this.ship.state);
+        this.updateExplosions(dt);
+        this.replayControls?.update({
+            time: player.getTime(),
+            duration: player.getDuration(),
+            playing: player.isPlaying(),
+            speed: player.getSpeed(),
+            focus: this.replayFocus,
+            event: player.getRecentEvent()
+        });
+    }
+
+    // Back to the live race; the results overlay reappears on the next results update
+    private stopReplay() {
+        if (!this.replayPlayer) return;
+        this.replayPlayer.stop();
+        this.replayPlayer = null;
+        this.replayControls?.dispose();
+        this.replayControls = null;
+        this.replayDirector = null;
+        this.driftTrail.reset();
         this.ship.setCameraControl(true);
+        this.ui.setHudVisible(true);
+    }
 
-        // Exit pointer lock and hide cursor
-        document.exitPointerLock();
-        this.renderer.domElement.style.cursor = 'none';
+    // Pause menu → photo mode: HUD and menu hidden, ship camera and controls handed to the free camera
+    private enterPhotoMode() {
+        if (!this.paused || this.photoPanel) return;
+        this.photoRestore = { fov: this.camera.fov, cameraControl: this.ship.isCameraControlEnabled(), input: this.ship.isInputEnabled() };
+        this.photoSettings = {
+            fov: this.camera.fov,
+            roll: 0,
+            focusDistance: PHOTO.focusDistance.default,
+            bokehScale: 0,
+            bloom: this.bloomEffect.intensity,
+            vignette: this.vignetteEffect.darkness,
+            chromatic: 0,
+            frozen: true
+        };
+        this.ship.setCameraControl(false);
+        this.ship.disableInput();
+        this.ship.clearInput();
+
+        this.mainMenu.hide();
+        const newsEl = document.getElementById('newsFeed');
+        if (newsEl) newsEl.style.display = 'none';
+        this.ui.setPaused(false);
+        this.ui.setHudLayerVisible(false);
+        this.stats.dom.style.display = 'none';
+
+        this.photoPanel = new PhotoModePanel(this.photoSettings);
+        this.photoPanel.onControl(event => this.onPhotoControl(event));
+        this.applyPhotoSettings();
+    }
 
-        // Reset tunnel background
+    private onPhotoControl(event: PhotoModeEvent) {
+        switch (event.type) {
+            case 'change':
+                this.photoSettings = event.settings;
+                this.applyPhotoSettings();
+                break;
+            case 'capture':
+                this.capturePhoto(event.scale);
+                break;
+            case 'exit':
+                this.exitPhotoMode();
+                break;
+        }
+    }
+
+    private applyPhotoSettings() {
+        const s = this.photoSettings;
+        if (!s) return;
+        this.camera.fov = s.fov;
+        this.camera.updateProjectionMatrix();
+        this.freeCamRoll = THREE.MathUtils.degToRad(s.roll);
+        this.bloomEffect.intensity = s.bloom;
+        this.vignetteEffect.darkness = s.vignette;
+        this.chromaticAberrationEffect.offset.set(s.chromatic, s.chromatic);
+        this.depthOfFieldPass.enabled = s.bokehScale > 0;
+        this.depthOfFieldEffect.bokehScale = s.bokehScale;
+        this.depthOfFieldEffect.cocMaterial.worldFocusDistance = s.focusDistance;
+    }
+
+    // Render the composer at scale x the canvas (capped by the GPU's max texture size) and save it as PNG
+    private capturePhoto(scale: number) {
+        const w = window.innerWidth;
+        const h = window.innerHeight;
+        const maxRatio = this.renderer.capabilities.maxTextureSize / (Math.max(w, h) * this.pixelRatio);
+        this.renderer.setPixelRatio(this.pixelRatio * Math.min(scale, maxRatio));
+        this.composer.setSize(w, h);
+        this.composer.render();
+        // Read back before the browser presents (and clears) the drawing buffer
+        const url = this.renderer.domElement.toDataURL('image/png');
+        this.renderer.setPixelRatio(this.pixelRatio);
+        this.composer.setSize(w, h);
+
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = `${PHOTO.filePrefix}-${this.trackName}-${new Date().toISOString().slice(0, 19)}`.replace(/[^a-z0-9-_]+/gi, '_') + '.png';
+        a.click();
+    }
+
+    // Back to the pause menu with the camera, effects and ship controls as they were
+    private exitPhotoMode() {
+        if (!this.photoPanel) return;
+        this.photoPanel.dispose();
+        this.photoPanel = null;
+        this.photoSettings = null;
+
+        this.camera.fov = this.photoRestore.fov;
+        this.camera.updateProjectionMatrix();
+        this.freeCamRoll = 0;
+        this.depthOfFieldPass.enabled = false;
+        this.updateGravitationalLensing(0);
+        this.ship.setCameraControl(this.photoRestore.cameraControl);
+        if (this.photoRestore.input) this.ship.enableInput();
+
+        this.ui.setHudLayerVisible(true);
+        this.stats.dom.style.display = '';
+        this.ui.setPaused(this.paused);
+        if (this.paused) {
+            this.mainMenu.show();
+            const newsEl = document.getElementById('newsFeed');
+            if (newsEl) newsEl.style.display = 'flex';
+        }
+    }
+
+    private getRacerLabels(): Map<string, RacerLabel> {
+        const labels = new Map<string, RacerLabel>();
+        labels.set('player', { name: 'YOU', color: `#${this.ship.getColor().getHexString()}` });
+        this.npcShips.forEach(npc => labels.set(npc.racerId, { name: npc.racerId.toUpperCase(), color: `#${npc.color.getHexString()}` }));
+        return labels;
+    }
+
+    // Player livery onto the ship and its colour-matched effects
+    private applyLivery() {
+        this.ship.applyLivery(this.livery);
+        this.driftTrail.setColor(new THREE.Color(this.livery.trailColor));
+        this.shipBoost.setColor(new THREE.Color(this.livery.flameColor));
+    }
+
+    // Remove everything the race spawned and put the player back behind the line
+    private teardownRace() {
+        this.exitPhotoMode();
+        this.stopReplay();
+        this.replayRecorder.reset();
+        this.inputRecorder.reset();
+        this.inputPlayer = null;
+        this.ship.setInputFromLog(false);
+        this.draftLockRequested = false;
+        this.countdownTimers.forEach(id => clearTimeout(id));
+        this.countdownTimers = [];
+        this.ui.hideCountdown();
+        this.raceResultsOverlay?.hide();
+        this.finishElapsed = 0;
+
+        this.npcShips.forEach(npc => { this.scene.remove(npc.root); npc.dispose(); });
+        this.npcShipBoosts.forEach(b => { this.scene.remove(b.root); b.dispose(); });
+        this.npcDriftTrails.forEach(t => { this.scene.remove(t.root); t.dispose(); });
+        this.npcShips = [];
+        this.npcShipBoosts = [];
+        this.npcDriftTrails = [];
+        this.explosions.forEach(e => { this.scene.remove(e.root); e.dispose(); });
+        this.explosions = [];
+        this.raceManager.clearNPCs();
+        this.raceManager.reset();
+        this.collisions.reset();
+        this.items.reset();
+        this.track.resetItemBoxes();
+        this.style.reset();
+        this.raceState = 'NOT_STARTED';
+
+        // The best lap lives in localStorage; the next time trial reloads it
+        if (this.ghost) {
+            this.scene.remove(this.ghost.root);
+            this.ghost.dispose();
+            this.ghost = null;
+        }
+        this.ghostLap = 0;
+        this.bestSplits = null;
+        this.submittedLaps = 0;
+
+        this.ship.reset();
+        this.driftTrail.reset();
+        this.ship.setCameraControl(true);
+        this.cameraIntroActive = false;
+        this.freeFlying = false;
         this.tunnelDarkenCurrent = 0;
         this.tunnelDarkenTarget = 0;
+
+        // World state the race changed: blackhole growth/consumption, post effects, start gate
+        this.env.resetBlackhole();
+        this.consumptionActive = false;
+        this.consumptionFadeProgress = 0;
+        this.insideBlackhole = false;
+        this.insideBlackholeTarget = false;
+        this.insideBlackholeProgress = 0;
+        this.timeDilationScale = 1.0;
+        this.updateGravitationalLensing(0);
+        this.track.resetGateFade();
+
+        // Close the pause menu if the race was left from there
+        if (this.paused) {
+            this.paused = false;
+            this.ui.setPaused(false);
+            this.camera.position.copy(this.savedCamPos);
+            this.camera.quaternion.copy(this.savedCamQuat);
+            document.getElementById('mainMenu')?.classList.remove('enter');
+            document.getElementById('newsFeed')?.classList.remove('enter');
+            this.mainMenu.hide();
+            this.mainMenu.setMode('main');
+        }
+        this.ui.setRaceInfoVisible(false);
+        this.started = false;
+    }
+
+    // Same track, seed and setup again, with the player ship driven by this race's input log
+    private rerunRace() {
+        if (!this.inputRecorder.hasRecording()) return;
+        const log = this.inputRecorder.toLog(this.track.trackId, this.track.getOptions().seed, this.raceMode, this.raceSetup, this.fixedDelta);
+        this.teardownRace();
+        this.raceSetup = { ...log.setup };
+        this.inputPlayer = new InputPlayer(log);
+        this.ship.setInputFromLog(true);
+        this.startFromMenu(log.mode);
+    }
+
+    // Same track and mode, fresh grid and countdown
+    private restartRace() {
+        this.teardownRace();
+        this.startFromMenu(this.raceMode);
+    }
+
+    // New procedural seed, then straight into the same mode
+    private startNewTrack() {
+        this.teardownRace();
+        this.raceSetup = { ...this.raceSetup, seed: Math.floor(Math.random() * 1e9) };
+        saveRaceSetup(this.raceSetup);
+        this.applyRaceSetupTrack();
+        this.startFromMenu(this.raceMode);
     }
 
-    private quitToMenu() {
-        // Reload the page to reset everything to initial state
-        window.location.reload();
+    private returnToMenu() {
+        this.teardownRace();
+        this.ui.setHudVisible(false);
+        this.ui.setMinimapVisible(false);
+        document.exitPointerLock();
+        this.renderer.domElement.style.cursor = '';
+
+        this.mainMenu.setMode('main');
+        this.mainMenu.show();
+        const menuEl = document.getElementById('mainMenu');
+        const newsEl = document.getElementById('newsFeed');
+        if (newsEl) newsEl.style.display = 'flex';
+        // Next frame so the slide-in transition runs from the hidden position
+        requestAnimationFrame(() => {
+            menuEl?.classList.add('enter');
+            newsEl?.classList.add('enter');
+        });
+        // Attract mode rebuilds its preview ships and camera director on the next update
+        this.mode = 'MENU';
     }
 }
 
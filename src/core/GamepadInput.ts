@@ -0,0 +1,56 @@
+import { GAMEPAD } from './constants';
+import type { GamepadState } from './types';
+
+// Polls the Gamepad API (no events for axes) and reports the first connected pad
+export class GamepadInput {
+    private prevPressed: boolean[] = [];
+
+    // null when no gamepad is connected
+    poll(): GamepadState | null {
+        const pad = this.findPad();
+        if (!pad) {
+            this.prevPressed = [];
+            return null;
+        }
+
+        const pressed = pad.buttons.map(b => b.pressed);
+        const edge = (i: number) => pressed[i] === true && this.prevPressed[i] !== true;
+        const buttons = GAMEPAD.buttons;
+        const state: GamepadState = {
+            steer: shapeAxis(pad.axes[GAMEPAD.steerAxis] ?? 0),
+            throttle: triggerValue(pad.buttons[buttons.throttle]),
+            brake: triggerValue(pad.buttons[buttons.brake]),
+            boost: pressed[buttons.boost] === true,
+            drift: pressed[buttons.drift] === true,
+            focusRefill: edge(buttons.focusRefill),
+            shield: edge(buttons.shield),
+            useItem: edge(buttons.useItem),
+            draftLock: edge(buttons.draftLock),
+            pause: edge(buttons.pause),
+            cameraCycle: edge(buttons.cameraCycle)
+        };
+        this.prevPressed = pressed;
+        return state;
+    }
+
+    private findPad(): Gamepad | null {
+        if (typeof navigator === 'undefined' || !navigator.getGamepads) return null;
+        for (const pad of navigator.getGamepads()) {
+            if (pad && pad.connected) return pad;
+        }
+        return null;
+    }
+}
+
+// Deadzone rescaled back to 0..1, then the response curve
+function shapeAxis(value: number): number {
+    const magnitude = Math.abs(value);
+    if (magnitude < GAMEPAD.stickDeadzone) return 0;
+    const scaled = Math.min(1, (magnitude - GAMEPAD.stickDeadzone) / (1 - GAMEPAD.stickDeadzone));
+    return Math.sign(value) * Math.pow(scaled, GAMEPAD.steerExponent);
+}
+
+function triggerValue(button: GamepadButton | undefined): number {
+    if (!button) return 0;
+    return button.value > GAMEPAD.triggerDeadzone ? button.value : 0;
+}
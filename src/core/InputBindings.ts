@@ -0,0 +1,92 @@
+import { INPUT } from './constants';
+import { loadJSON, saveJSON } from './Storage';
+import type { InputAction, InputBindingMap } from './types';
+
+const KEY_LABELS: Record<string, string> = {
+    ArrowLeft: '←',
+    ArrowRight: '→',
+    ArrowUp: '↑',
+    ArrowDown: '↓',
+    Space: 'Space',
+    Escape: 'Esc',
+    Minus: '-',
+    Equal: '=',
+    ShiftLeft: 'L-Shift',
+    ShiftRight: 'R-Shift',
+    ControlLeft: 'L-Ctrl',
+    ControlRight: 'R-Ctrl',
+    AltLeft: 'L-Alt',
+    AltRight: 'R-Alt'
+};
+
+// Short display name for a KeyboardEvent.code (CONTROLS screen, HUD hints)
+export function formatKeyCode(code: string): string {
+    if (KEY_LABELS[code]) return KEY_LABELS[code];
+    if (code.startsWith('Key')) return code.slice(3);
+    if (code.startsWith('Digit')) return code.slice(5);
+    if (code.startsWith('Numpad')) return `Num ${code.slice(6)}`;
+    return code;
+}
+
+// Central keyboard action map shared by Ship, Game and the CONTROLS screen; persisted in localStorage
+export class InputBindings {
+    private bindings: InputBindingMap;
+
+    constructor() {
+        this.bindings = this.load();
+    }
+
+    public is(action: InputAction, code: string): boolean {
+        return this.bindings[action].includes(code);
+    }
+
+    public getKeys(action: InputAction): string[] {
+        return [...this.bindings[action]];
+    }
+
+    // Put code in the given slot; it is removed from actions that are active at the same time
+    public setKey(action: InputAction, slot: number, code: string) {
+        INPUT.conflictGroups
+            .filter(group => group.includes(action))
+            .forEach(group => group.forEach((other) => {
+                if (other !== action) this.bindings[other] = this.bindings[other].filter(c => c !== code);
+            }));
+        const keys = this.bindings[action].filter(c => c !== code);
+        keys.splice(Math.min(slot, keys.length), 0, code);
+        this.bindings[action] = keys.slice(0, INPUT.maxKeysPerAction);
+        this.save();
+    }
+
+    public clearKey(action: InputAction, slot: number) {
+        this.bindings[action] = this.bindings[action].filter((_, i) => i !== slot);
+        this.save();
+    }
+
+    public resetDefaults() {
+        this.bindings = copyBindings(INPUT.defaultBindings);
+        this.save();
+    }
+
+    // Stored bindings over the defaults, so actions added later get their default keys
+    private load(): InputBindingMap {
+        const bindings = copyBindings(INPUT.defaultBindings);
+        const stored = loadJSON<Partial<Record<InputAction, unknown>> | null>(INPUT.storageKey, null);
+        (Object.keys(bindings) as InputAction[]).forEach((action) => {
+            const keys = stored?.[action];
+            if (Array.isArray(keys) && keys.every(k => typeof k === 'string')) {
+                bindings[action] = keys.slice(0, INPUT.maxKeysPerAction);
+            }
+        });
+        return bindings;
+    }
+
+    private save() {
+        saveJSON(INPUT.storageKey, this.bindings);
+    }
+}
+
+function copyBindings(source: InputBindingMap): InputBindingMap {
+    const copy = {} as InputBindingMap;
+    (Object.keys(source) as InputAction[]).forEach(action => copy[action] = [...source[action]]);
+    return copy;
+}
@@ -0,0 +1,262 @@
+import * as THREE from 'three';
+import { ITEMS } from './constants';
+import type { CollisionBody } from './CollisionSystem';
+import { mulberry32, streamSeed } from './Random';
+import { Track } from './Track';
+import type { ItemEvent, ItemKind } from './types';
+
+// A racer that can pick up and use items: the player ship and NPCs
+export interface ItemRacer extends CollisionBody {
+    heldItem: ItemKind | null;
+    // Nearest other racers along the track in meters (Infinity when none); NPCs decide from these
+    wantsToUseItem(aheadMeters: number, behindMeters: number): boolean;
+    drainBoost(amount: number): void;
+    refillBoost(): void;
+    raiseShield(): void;
+}
+
+type Mine = {
+    ownerId: string;
+    t: number;
+    lateralOffset: number;
+    age: number;
+    mesh: THREE.Mesh;
+};
+
+type EmpPulse = {
+    age: number;
+    mesh: THREE.Mesh;
+};
+
+// Item box pickups and item effects in track space. Boxes live on the Track;
+// mines and EMP pulses live here under root.
+export class ItemSystem {
+    public root = new THREE.Group();
+    private mines: Mine[] = [];
+    private pulses: EmpPulse[] = [];
+    private eventHandlers: Array<(event: ItemEvent) => void> = [];
+    private seed = 0;
+    private streams = new Map<string, () => number>(); // per-racer item draws, seeded from the race
+
+    private mineGeometry = new THREE.OctahedronGeometry(0.9);
+    private mineMaterial = new THREE.MeshBasicMaterial({ color: ITEMS.mine.color, toneMapped: false });
+    private pulseGeometry = new THREE.SphereGeometry(1, 24, 12);
+
+    onItemEvent(handler: (event: ItemEvent) => void) {
+        this.eventHandlers.push(handler);
+    }
+
+    // Race seed for item draws; each racer gets its own stream so pickups replay exactly
+    setSeed(seed: number) {
+        this.seed = seed;
+        this.streams.clear();
+    }
+
+    update(dt: number, track: Track, racers: ItemRacer[]) {
+        for (const racer of racers) {
+            if (racer.isWrecked()) continue;
+            if (racer.heldItem === null && track.collectItemBox(racer.state.t, racer.state.lateralOffset)) {
+                racer.heldItem = rollItem(this.getStream(racer.racerId));
+            }
+            if (racer.heldItem === null) continue;
+
+            const { ahead, behind } = nearestRacers(track, racer, racers);
+            if (racer.wantsToUseItem(ahead, behind)) {
+                const kind = racer.heldItem;
+                racer.heldItem = null;
+                this.useItem(kind, racer, track, racers);
+            }
+        }
+
+        this.updateMines(dt, track, racers);
+        this.updatePulses(dt);
+    }
+
+    reset() {
+        this.mines.forEach(m => this.root.remove(m.mesh));
+        this.mines = [];
+        this.pulses.forEach(p => {
+            this.root.remove(p.mesh);
+            (p.mesh.material as THREE.Material).dispose();
+        });
+        this.pulses = [];
+        this.streams.clear();
+    }
+
+    dispose() {
+        this.reset();
+        this.mineGeometry.dispose();
+        this.mineMaterial.dispose();
+        this.pulseGeometry.dispose();
+        this.eventHandlers = [];
+    }
+
+    private useItem(kind: ItemKind, user: ItemRacer, track: Track, racers: ItemRacer[]) {
+        switch (kind) {
+            case 'boost':
+                user.refillBoost();
+                this.emit({ kind, userId: user.racerId });
+                break;
+            case 'shield':
+                user.raiseShield();
+                this.emit({ kind, userId: user.racerId });
+                break;
+            case 'emp':
+                this.spawnPulse(track, user);
+                this.emit({ kind, userId: user.racerId });
+                for (const target of racers) {
+                    if (target === user || target.isWrecked()) continue;
+                    if (Math.abs(alongDistance(track, target.state.t, user.state.t)) > ITEMS.emp.radiusMeters) continue;
+                    const absorbed = target.absorbHit();
+                    if (!absorbed) target.drainBoost(ITEMS.emp.drain);
+                    this.emit({ kind, userId: user.racerId, targetId: target.racerId, absorbed });
+                }
+                break;
+            case 'mine': {
+                const mesh = new THREE.Mesh(this.mineGeometry, this.mineMaterial);
+                this.root.add(mesh);
+                this.mines.push({
+                    ownerId: user.racerId,
+                    t: user.state.t - ITEMS.mine.dropBehindMeters / track.length,
+                    lateralOffset: user.state.lateralOffset,
+                    age: 0,
+                    mesh
+                });
+                this.emit({ kind, userId: user.racerId });
+                break;
+            }
+        }
+    }
+
+    // Mines sit still until a racer comes within homing range, then drift toward it.
+    // Spent mines are dropped in place (runs every fixed step, so no new arrays)
+    private updateMines(dt: number, track: Track, racers: ItemRacer[]) {
+        let kept = 0;
+        for (const mine of this.mines) {
+            if (this.updateMine(mine, dt, track, racers)) this.mines[kept++] = mine;
+        }
+        this.mines.length = kept;
+    }
+
+    // false once the mine has gone off or expired
+    private updateMine(mine: Mine, dt: number, track: Track, racers: ItemRacer[]): boolean {
+        mine.age += dt;
+        let target: ItemRacer | null = null;
+        let targetDist = ITEMS.mine.homingRangeMeters;
+        for (const racer of racers) {
+            if (racer.racerId === mine.ownerId || racer.isWrecked()) continue;
+            const dist = Math.abs(alongDistance(track, racer.state.t, mine.t));
+            if (dist < targetDist) {
+                target = racer;
+                targetDist = dist;
+            }
+        }
+
+        if (target) {
+            const along = alongDistance(track, target.state.t, mine.t);
+            const lateral = target.state.lateralOffset - mine.lateralOffset;
+            const dist = Math.hypot(along, lateral);
+            if (dist <= ITEMS.mine.triggerRadius) {
+                const absorbed = target.absorbHit();
+                if (!absorbed) {
+                    target.applyContact(0, 0, ITEMS.mine.speedLoss);
+                    target.applyDamage(ITEMS.mine.damage);
+                }
+                this.emit({ kind: 'mine', userId: mine.ownerId, targetId: target.racerId, absorbed });
+                this.root.remove(mine.mesh);
+                return false;
+            }
+            const step = Math.min(dist, ITEMS.mine.seekSpeedMps * dt);
+            mine.t += (along / dist) * step / track.length;
+            mine.lateralOffset += (lateral / dist) * step;
+        }
+
+        if (mine.age >= ITEMS.mine.lifetimeSec) {
+            this.root.remove(mine.mesh);
+            return false;
+        }
+
+        track.getShipWorldPosition(mine.t, mine.lateralOffset, mine.mesh.position);
+        mine.mesh.rotation.y += 3 * dt;
+        return true;
+    }
+
+    private spawnPulse(track: Track, user: ItemRacer) {
+        const material = new THREE.MeshBasicMaterial({
+            color: ITEMS.emp.color,
+            transparent: true,
+            opacity: 0.5,
+            blending: THREE.AdditiveBlending,
+            depthWrite: false,
+            side: THREE.DoubleSide,
+            toneMapped: false
+        });
+        const mesh = new THREE.Mesh(this.pulseGeometry, material);
+        track.getShipWorldPosition(user.state.t, user.state.lateralOffset, mesh.position);
+        this.root.add(mesh);
+        this.pulses.push({ age: 0, mesh });
+    }
+
+    // Expanding, fading sphere out to the EMP radius
+    private updatePulses(dt: number) {
+        let kept = 0;
+        for (const pulse of this.pulses) {
+            pulse.age += dt;
+            const progress = pulse.age / ITEMS.emp.pulseSec;
+            const material = pulse.mesh.material as THREE.MeshBasicMaterial;
+            if (progress >= 1) {
+                this.root.remove(pulse.mesh);
+                material.dispose();
+                continue;
+            }
+            pulse.mesh.scale.setScalar(Math.max(0.01, progress * ITEMS.emp.radiusMeters));
+            material.opacity = 0.5 * (1 - progress);
+            this.pulses[kept++] = pulse;
+        }
+        this.pulses.length = kept;
+    }
+
+    private getStream(racerId: string): () => number {
+        let stream = this.streams.get(racerId);
+        if (!stream) {
+            stream = mulberry32(streamSeed(this.seed, `items:${racerId}`));
+            this.streams.set(racerId, stream);
+        }
+        return stream;
+    }
+
+    private emit(event: ItemEvent) {
+        this.eventHandlers.forEach(h => h(event));
+    }
+}
+
+// Weighted draw from ITEMS.weights
+function rollItem(random: () => number): ItemKind {
+    const entries = Object.entries(ITEMS.weights) as Array<[ItemKind, number]>;
+    const total = entries.reduce((sum, [, w]) => sum + w, 0);
+    let roll = random() * total;
+    for (const [kind, weight] of entries) {
+        roll -= weight;
+        if (roll < 0) return kind;
+    }
+    return entries[entries.length - 1][0];
+}
+
+// Signed meters from b to a along the track, wrapped to the shorter way round
+function alongDistance(track: Track, aT: number, bT: number): number {
+    let dT = aT - bT;
+    dT -= Math.round(dT);
+    return dT * track.length;
+}
+
+function nearestRacers(track: Track, racer: ItemRacer, racers: ItemRacer[]): { ahead: number; behind: number } {
+    let ahead = Infinity;
+    let behind = Infinity;
+    for (const other of racers) {
+        if (other === racer || other.isWrecked()) continue;
+        const along = alongDistance(track, other.state.t, racer.state.t);
+        if (along >= 0) ahead = Math.min(ahead, along);
+        else behind = Math.min(behind, -along);
+    }
+    return { ahead, behind };
+}
@@ -0,0 +1,79 @@
+import { LEADERBOARD } from './constants';
+import { loadJSON, saveJSON } from './Storage';
+import type { LeaderboardEntry, LeaderboardFilter } from './types';
+
+// Local race records persisted in localStorage, grouped by track + laps + mode
+export class Leaderboard {
+    private entries: LeaderboardEntry[];
+
+    constructor() {
+        this.entries = this.load();
+    }
+
+    // Store a finished race; only the fastest maxEntriesPerKey per group are kept.
+    // Returns true when the entry made it onto the board.
+    public add(entry: LeaderboardEntry): boolean {
+        const group = this.query({ trackId: entry.trackId, laps: entry.laps, mode: entry.mode });
+        group.push(entry);
+        group.sort(compareEntries);
+        const kept = group.slice(0, LEADERBOARD.maxEntriesPerKey);
+        if (!kept.includes(entry)) return false;
+
+        const dropped = new Set(group.slice(LEADERBOARD.maxEntriesPerKey));
+        this.entries = this.entries.filter(e => !dropped.has(e));
+        this.entries.push(entry);
+        this.save();
+        return true;
+    }
+
+    // Matching entries, fastest first
+    public query(filter: LeaderboardFilter = {}): LeaderboardEntry[] {
+        return this.entries.filter(e => matches(e, filter)).sort(compareEntries);
+    }
+
+    public getBest(filter: LeaderboardFilter): LeaderboardEntry | null {
+        return this.query(filter)[0] ?? null;
+    }
+
+    // Distinct tracks with records (for the track filter)
+    public getTracks(): Array<{ trackId: string; trackName: string }> {
+        const tracks = new Map<string, string>();
+        this.entries.forEach(e => tracks.set(e.trackId, e.trackName));
+        return Array.from(tracks, ([trackId, trackName]) => ({ trackId, trackName }));
+    }
+
+    public getLapCounts(): number[] {
+        return Array.from(new Set(this.entries.map(e => e.laps))).sort((a, b) => a - b);
+    }
+
+    // Remove matching entries (all of them with an empty filter)
+    public clear(filter: LeaderboardFilter = {}) {
+        this.entries = this.entries.filter(e => !matches(e, filter));
+        this.save();
+    }
+
+    private load(): LeaderboardEntry[] {
+        const entries = loadJSON<unknown>(LEADERBOARD.storageKey, []);
+        return Array.isArray(entries) ? entries as LeaderboardEntry[] : [];
+    }
+
+    private save() {
+        saveJSON(LEADERBOARD.storageKey, this.entries);
+    }
+}
+
+function matches(e: LeaderboardEntry, filter: LeaderboardFilter): boolean {
+    return (filter.trackId === undefined || e.trackId === filter.trackId)
+        && (filter.laps === undefined || e.laps === filter.laps)
+        && (filter.mode === undefined || e.mode === filter.mode);
+}
+
+// Time trials rank by best lap, races by total race time
+function rankTime(e: LeaderboardEntry): number {
+    if (e.mode === 'time-trial') return e.bestLap > 0 ? e.bestLap : Infinity;
+    return e.raceTime;
+}
+
+function compareEntries(a: LeaderboardEntry, b: LeaderboardEntry): number {
+    return rankTime(a) - rankTime(b) || a.date - b.date;
+}
@@ -0,0 +1,26 @@
+import { LIVERY } from './constants';
+import { loadJSON, saveJSON } from './Storage';
+import type { ShipLivery } from './types';
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+export function loadLivery(): ShipLivery {
+    const data = loadJSON<unknown>(LIVERY.storageKey, null);
+    return sanitizeLivery(typeof data === 'object' && data !== null ? data : {});
+}
+
+export function saveLivery(livery: ShipLivery) {
+    saveJSON(LIVERY.storageKey, livery);
+}
+
+// Stored data is untrusted; any bad field falls back to the default
+function sanitizeLivery(raw: Partial<ShipLivery>): ShipLivery {
+    const color = (value: unknown, fallback: string) => typeof value === 'string' && HEX_COLOR.test(value) ? value : fallback;
+    return {
+        hullColor: color(raw.hullColor, LIVERY.defaults.hullColor),
+        accentColor: color(raw.accentColor, LIVERY.defaults.accentColor),
+        trailColor: color(raw.trailColor, LIVERY.defaults.trailColor),
+        flameColor: color(raw.flameColor, LIVERY.defaults.flameColor),
+        decal: raw.decal && LIVERY.decals.includes(raw.decal) ? raw.decal : LIVERY.defaults.decal
+    };
+}
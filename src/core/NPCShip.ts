@@ -1,10 +1,14 @@
 import * as THREE from 'three';
-import { COLORS, PHYSICS, BOOST_PAD, TUNNEL, CAMERA, NPC, DRAFTING, RAMP } from './constants';
+import { COLORS, PHYSICS, BOOST_PAD, TUNNEL, CAMERA, NPC, DRAFTING, RAMP, SHIELD, HULL, ITEMS, TRICKS, RACE_SETUP, RUBBER_BAND } from './constants';
 import { Track } from './Track';
-import type { ShipState, RacePosition } from './types';
+import { CheckpointTracker } from './CheckpointTracker';
+import type { ShipState, RacePosition, ItemKind, ShipClassId, ShipProfile, AISkill, RubberBandCurve } from './types';
+import { resolveShipProfile } from './ShipClass';
+import { mulberry32, streamSeed } from './Random';
 import { Ship } from './ship/Ship';
 import { ShipRocketTail } from './ship/ShipRocketTail';
 import { ShipJetEngine } from './ship/ShipJetEngine';
+import { ShipShield } from './ship/ShipShield';
 import { DraftingParticles } from './ship/drafting/DraftingParticles';
 import { DraftingVectorLines } from './ship/drafting/DraftingVectorLines';
 
@@ -21,19 +25,23 @@ export class NPCShip {
     private lateralTarget = 0;
     private lateralVelocity = 0;
     private speedMultiplier = 1.0;
+    private baseSpeedMultiplier = 1.0; // constructor value (difficulty), restored on reset
     private aiUpdateTimer = 0;
     private aiUpdateInterval = 0.1; // Update AI every 100ms
 
     // AI state
+    private skill: AISkill; // difficulty preset: line accuracy, boost timing, rubber-banding
     private targetLateralOffset = 0;
     private lateralSwayTimer = 0;
     private speedVariation = 0;
-    private preferredLateralOffset = 0;
-    private laneSwayPhase = Math.random() * Math.PI * 2;
+    private preferredLateralOffset = 0; // chosen deviation from the racing line (skill error, evasion, drafting)
+    private disciplinedBoost = false; // next boost waits for a straight or a pad exit (rolled against boostTiming)
+    private random: () => number; // seeded AI stream (track seed + racer id) so races replay exactly
+    private laneSwayPhase: number;
     private laneSwayAmplitude = NPC.laneSwayAmplitude;
     private laneStickiness = NPC.laneStickiness;
     private laneChangeTimer = 0;
-    private laneChangeIntervalSec = THREE.MathUtils.lerp(NPC.laneChangeIntervalMinSec, NPC.laneChangeIntervalMaxSec, Math.random());
+    private laneChangeIntervalSec: number;
     private evasiveCooldown = 0;
     private isDraftingTarget = false;
 
@@ -64,6 +72,8 @@ export class NPCShip {
     private targetRubberBandingMultiplier = 1.0; // target multiplier (smoothly lerped to)
     private playerPosition = 0;
     private playerLap = 0;
+    private raceDistance: number | null = null; // lap-aware track lengths since the start line
+    private playerRaceDistance: number | null = null;
     private latestPlayerSpeedKmh = 0;
     private raceStartTime = 0; // Track elapsed game time since race started (in seconds)
     private raceStarted = false; // Track if race has started
@@ -71,6 +81,20 @@ export class NPCShip {
     // Rocket tail effect (shared with player)
     public rocketTail!: ShipRocketTail;
 
+    // Shield: raised automatically whenever the recharge wait runs out
+    private shield!: ShipShield;
+    private shieldTimer = 0; // seconds left on an active shield
+    private shieldRecharge: number;
+
+    // Item from track item boxes (see ItemSystem) and how long it has been held
+    public heldItem: ItemKind | null = null;
+    private itemHeldTime = 0;
+
+    // Hull: wrecked NPCs sit out respawnDelaySec, then restart from their last gate
+    private respawnTimer = 0;
+    private invulnerableTimer = 0;
+    private destroyedHandlers: Array<(position: THREE.Vector3) => void> = [];
+
     // Jet engine visuals (shared with player)
     public jetEngine!: ShipJetEngine;
 
@@ -117,15 +141,25 @@ export class NPCShip {
     // Add this field to the class properties (after line 55)
     private hasCrossedCheckpointThisFrame = false;
     private prevT = 0;
+    public checkpoints: CheckpointTracker; // lap gate progress (start line + sector gates)
     // Tiny persistent per-NPC speed variation (0.99 - 1.01)
     private individualVariation = 1.0;
-
-    constructor(track: Track, racerId: string, color: THREE.Color, behavior: 'aggressive' | 'conservative' = 'conservative', lateralOffset: number = 0, speedMultiplier: number = 1.0) {
+    public readonly profile: ShipProfile; // class stats read instead of PHYSICS/DRIFT
+
+    constructor(track: Track, racerId: string, color: THREE.Color, behavior: 'aggressive' | 'conservative' = 'conservative', lateralOffset: number = 0, speedMultiplier: number = 1.0, shipClass: ShipClassId = 'balanced', skill: AISkill = RACE_SETUP.difficulty.normal) {
+        this.random = mulberry32(streamSeed(track.getOptions().seed, racerId));
+        this.laneSwayPhase = this.random() * Math.PI * 2;
+        this.laneChangeIntervalSec = THREE.MathUtils.lerp(NPC.laneChangeIntervalMinSec, NPC.laneChangeIntervalMaxSec, this.random());
+        this.shieldRecharge = this.randomShieldRecharge();
+        this.profile = resolveShipProfile(shipClass);
+        this.skill = skill;
+        this.disciplinedBoost = this.random() < skill.boostTiming;
         this.track = track;
         this.racerId = racerId;
         this.color = color;
         this.aiBehavior = behavior;
         this.speedMultiplier = speedMultiplier;
+        this.baseSpeedMultiplier = speedMultiplier;
 
         this.state = {
             t: -12 / track.length, // Start 12 meters behind start line (matches player)
@@ -143,27 +177,27 @@ export class NPCShip {
             onBoostPadEntry: false,
             isDrifting: false,
             driftDuration: 0,
-            driftLength: 0
+            driftLength: 0,
+            hull: 1
         };
 
         // Initialize lap tracking state
         this.prevT = this.state.t;
         this.hasCrossedCheckpointThisFrame = false;
+        this.checkpoints = new CheckpointTracker(track);
 
         // NPCs start immediately when countdown ends (no random delay)
 
         this.createShipModel();
         this.setupAIBehavior();
 
-        // Establish preferred lane from initial lateralOffset
-        const half = this.track.width * 0.5;
-        const lateralLimit = half * 0.95;
-        this.preferredLateralOffset = THREE.MathUtils.clamp(this.state.lateralOffset, -lateralLimit, lateralLimit);
+        // Hold the grid slot until the first lane change: deviation from the line at the start
+        this.preferredLateralOffset = this.state.lateralOffset - this.track.getRacingLineAtT(this.state.t);
 
         // Set initial position immediately so NPCs are visible
         this.updateVisualPosition();
         // Assign a tiny persistent speed variation (±1%)
-        this.individualVariation = 0.99 + Math.random() * 0.02;
+        this.individualVariation = 0.99 + this.random() * 0.02;
     }
 
     private addEdgeLines(mesh: THREE.Mesh): void {
@@ -568,6 +602,10 @@ export class NPCShip {
         this.jetEngine = new ShipJetEngine(new THREE.Vector3(0, 0, -0.72));
         body.add(this.jetEngine.root);
 
+        this.shield = new ShipShield();
+        this.shield.centerOn(body);
+        body.add(this.shield.root);
+
         this.root.add(body);
 
         // Create rocket tail boost effect (initially hidden) - exactly like player
@@ -603,6 +641,10 @@ export class NPCShip {
     private verticalVelocity = 0;
     private wasOnRamp = false;
     private airborneTimer = 0;
+    // Occasional barrel roll off a ramp, always landed clean
+    private trickRoll = 0;
+    private trickRollDir = 0;
+    private trickTimer = 0;
 
 
     private createSpeedStars() {
@@ -654,9 +696,18 @@ export class NPCShip {
             return; // Stay stationary during countdown
         }
 
+        if (this.respawnTimer > 0) {
+            this.respawnTimer = Math.max(0, this.respawnTimer - dt);
+            if (this.respawnTimer === 0) this.respawn();
+            return;
+        }
+        this.invulnerableTimer = Math.max(0, this.invulnerableTimer - dt);
+
         // Track race time (elapsed game time since race started)
         if (this.raceStarted) {
             this.raceStartTime += dt;
+            this.updateShield(dt);
+            this.itemHeldTime = this.heldItem !== null ? this.itemHeldTime + dt : 0;
         }
 
         this.aiUpdateTimer += dt;
@@ -677,6 +728,10 @@ export class NPCShip {
         if (justEnteredRamp) {
             this.verticalVelocity += RAMP.upwardImpulseMps;
             this.airborneTimer = RAMP.airDuration;
+            if (this.raceStarted && this.random() < TRICKS.npcTrickChance) {
+                this.trickRollDir = this.random() < 0.5 ? -1 : 1;
+                this.trickTimer = 0;
+            }
         }
         this.wasOnRamp = rampInfo.onRamp;
 
@@ -697,6 +752,7 @@ export class NPCShip {
         this.updatePhysics(dt);
         // Update vertical arc (after physics so dt sequencing matches player)
         this.updateVertical(dt);
+        this.updateAirTrick(dt);
         this.updatePosition(dt);
 
         // Simple drift detection: turning (lateralVelocity) + boosting
@@ -740,6 +796,17 @@ export class NPCShip {
         }
     }
 
+    private updateAirTrick(dt: number) {
+        if (this.trickRollDir === 0) return;
+        this.trickTimer += dt;
+        const progress = Math.min(1, this.trickTimer / TRICKS.npcRollSec);
+        this.trickRoll = this.trickRollDir * Math.PI * 2 * progress;
+        if (progress < 1) return;
+        this.trickRoll = 0;
+        this.trickRollDir = 0;
+        this.boostEnergy = Math.min(1, this.boostEnergy + TRICKS.boostRewardPerRotation);
+    }
+
     private updateAI(playerPosition: number, playerLap: number, playerSpeed: number, playerLateral: number, allNPCs: NPCShip[] = []) {
         // Store player state for rubber banding
         this.playerPosition = playerPosition;
@@ -822,6 +889,10 @@ export class NPCShip {
             }
         }
 
+        // The racing line just ahead; everything below is a deviation from it
+        const line = this.track.getRacingLineAtT(ourT + NPC.lineLookAheadMeters / trackLen);
+        const sloppiness = 1 - this.skill.lineAccuracy;
+
         // Adjust preferred lane for evasion
         if (pursuerDetected && this.evasiveCooldown <= 0) {
             const dirAway = this.state.lateralOffset >= pursuerLat ? 1 : -1;
@@ -833,13 +904,11 @@ export class NPCShip {
             evasionTriggered = true;
         }
 
-        // Periodic lane change (continuous offset)
+        // Periodic lane change: a fresh line error, smaller for more accurate drivers
         if (this.laneChangeTimer >= this.laneChangeIntervalSec) {
-            // Random continuous target within bounds
-            const newPref = THREE.MathUtils.randFloatSpread(lateralLimit * 2 * 0.9); // keep margin from edges
-            this.preferredLateralOffset = THREE.MathUtils.clamp(newPref, -lateralLimit, lateralLimit);
+            this.preferredLateralOffset = (this.random() * 2 - 1) * NPC.maxLineErrorMeters * sloppiness;
             // Set next interval, modulate by context
-            let next = THREE.MathUtils.lerp(NPC.laneChangeIntervalMinSec, NPC.laneChangeIntervalMaxSec, Math.random());
+            let next = THREE.MathUtils.lerp(NPC.laneChangeIntervalMinSec, NPC.laneChangeIntervalMaxSec, this.random());
             if (draftFound) next *= 1.3; // linger while drafting
             if (evasionTriggered) next *= 0.7; // more jitter after evasion
             this.laneChangeIntervalSec = THREE.MathUtils.clamp(next, NPC.laneChangeIntervalMinSec, NPC.laneChangeIntervalMaxSec * 1.5);
@@ -848,113 +917,37 @@ export class NPCShip {
 
         // Apply drafting influence to preferred lane (bias toward target lateral)
         if (draftFound) {
-            this.preferredLateralOffset = THREE.MathUtils.lerp(this.preferredLateralOffset, draftTargetLateral, 0.7);
+            this.preferredLateralOffset = THREE.MathUtils.lerp(this.preferredLateralOffset, draftTargetLateral - line, 0.7);
         }
         this.isDraftingTarget = draftFound;
 
-        // AI lateral movement - bias around a (possibly updated) preferred lane with gentle sway and jitter
+        // AI lateral movement - follow the line plus the preferred deviation; sway and jitter fade with accuracy.
+        // Inside tunnels good drivers drop their deviation to hold the centre boost.
         this.lateralSwayTimer += this.aiUpdateInterval * NPC.laneSwaySpeed;
-        const sway = Math.sin(this.lateralSwayTimer + this.laneSwayPhase) * this.laneSwayAmplitude;
-        const jitter = (Math.random() - 0.5) * NPC.laneJitterRange * (this.aiBehavior === 'aggressive' ? 1.2 : 1.0);
-        const desired = THREE.MathUtils.clamp(this.preferredLateralOffset + sway + jitter, -lateralLimit, lateralLimit);
+        const sway = Math.sin(this.lateralSwayTimer + this.laneSwayPhase) * this.laneSwayAmplitude * sloppiness;
+        const jitter = (this.random() - 0.5) * NPC.laneJitterRange * (this.aiBehavior === 'aggressive' ? 1.2 : 1.0) * sloppiness;
+        const deviation = this.state.inTunnel ? this.preferredLateralOffset * sloppiness : this.preferredLateralOffset;
+        const desired = THREE.MathUtils.clamp(line + deviation + sway + jitter, -lateralLimit, lateralLimit);
         this.targetLateralOffset = THREE.MathUtils.lerp(this.targetLateralOffset, desired, this.laneStickiness);
     }
 
+    // Catch-up from the lap-aware race distance gap to the player (see setRaceDistance)
     private updateRubberBanding() {
-        // Don't apply rubber banding if player position hasn't been initialized yet
-        // (playerPosition defaults to 0, which could cause issues at race start)
-        if (this.playerLap === 0 && this.state.lapCurrent === 0) {
-            // Both are at pre-race state, no rubber banding needed
+        const curve = this.skill.rubberBanding;
+        if (curve.length === 0 || this.raceDistance === null || this.playerRaceDistance === null) {
             this.targetRubberBandingMultiplier = 1.0;
             return;
         }
 
-        // Calculate player distance from start line (tracks are normalized 0-1, start is at t=0)
-        // If player hasn't moved significantly from start, disable rubber banding
-        // Handle both positive and negative positions (player might start behind start line)
-        let playerDistanceFromStart = this.playerPosition;
-        if (playerDistanceFromStart < 0) {
-            // Player is behind start line (negative t), use absolute value
-            playerDistanceFromStart = Math.abs(playerDistanceFromStart);
-        } else if (playerDistanceFromStart > 0.5) {
-            // Player wrapped around track, calculate distance from start going the other way
-            playerDistanceFromStart = 1 - playerDistanceFromStart;
-        }
-        const playerDistanceMeters = playerDistanceFromStart * 8000;
-
-        // Disable rubber banding until player has moved > 50m from start line
-        // This ensures NPCs can accelerate naturally at race start
-        if (playerDistanceMeters < 50) {
+        // Off until the player has cleared the launch so NPCs accelerate naturally at race start
+        if (this.playerRaceDistance * this.track.length < RUBBER_BAND.startGraceMeters) {
             this.targetRubberBandingMultiplier = 1.0;
             return;
         }
 
-        // Calculate distance from player (accounting for lap differences)
-        const ourPosition = this.getTrackPosition();
-        const lapDiff = this.state.lapCurrent - this.playerLap;
-
-        // Calculate normalized track distance (0-1 range)
-        let trackDistance: number;
-        if (lapDiff === 0) {
-            // Same lap - calculate simple distance
-            trackDistance = ourPosition - this.playerPosition;
-            // Handle track wrapping
-            if (Math.abs(trackDistance) > 0.5) {
-                trackDistance = trackDistance > 0 ? trackDistance - 1 : trackDistance + 1;
-            }
-        } else if (lapDiff > 0) {
-            // NPC is ahead by lapDiff laps
-            trackDistance = (1 - this.playerPosition) + ourPosition + (lapDiff - 1);
-        } else {
-            // NPC is behind by |lapDiff| laps
-            trackDistance = ourPosition - (1 + this.playerPosition) - (Math.abs(lapDiff) - 1);
-        }
-
-        // Convert to meters (track length is 8000m)
-        const distanceMeters = Math.abs(trackDistance) * 8000;
-
-        // Rubber banding thresholds and multipliers
-        const closeDistance = 50; // meters - within this, no rubber banding
-        const maxAheadDistance = 100; // meters - hard cap threshold for slowdown
-        const farBehindDistance = 300; // meters - beyond this, maximum speedup effect
-        const veryFarBehindDistance = 400; // meters - beyond this, extra strong speedup
-        const maxSlowdown = 0.85; // Slow down to 85% when far ahead
-        const maxSpeedup = 1.08; // Mild speedup when very far behind
-        const normalSpeedup = 1.05; // Mild speedup when moderately behind
-
         // Tiny persistent variation so NPCs don't all feel identical
-        const rubberBandingVariation = this.individualVariation;
-
-        // Calculate target rubber banding multiplier
-        if (trackDistance > 0) {
-            // NPC is ahead of player
-            if (distanceMeters >= maxAheadDistance) {
-                // At or beyond hard cap - apply maximum slowdown to prevent getting further ahead
-                this.targetRubberBandingMultiplier = maxSlowdown * rubberBandingVariation;
-            } else if (distanceMeters > closeDistance) {
-                // Between close distance and max ahead - gradual slowdown
-                const t = THREE.MathUtils.clamp((distanceMeters - closeDistance) / (maxAheadDistance - closeDistance), 0, 1);
-                this.targetRubberBandingMultiplier = THREE.MathUtils.lerp(1.0, maxSlowdown, t) * rubberBandingVariation;
-            } else {
-                // Very close to player - no rubber banding, but still add variation
-                this.targetRubberBandingMultiplier = 1.0 * rubberBandingVariation;
-            }
-        } else {
-            // NPC is behind player
-            if (distanceMeters < closeDistance) {
-                // Close to player - no rubber banding, but still add variation
-                this.targetRubberBandingMultiplier = 1.0 * rubberBandingVariation;
-            } else if (distanceMeters >= veryFarBehindDistance) {
-                // Very far behind (>400m) - maximum speedup to catch up quickly
-                this.targetRubberBandingMultiplier = maxSpeedup * rubberBandingVariation;
-            } else {
-                // Moderately behind - gradual speedup
-                const t = THREE.MathUtils.clamp((distanceMeters - closeDistance) / (farBehindDistance - closeDistance), 0, 1);
-                this.targetRubberBandingMultiplier = THREE.MathUtils.lerp(1.0, normalSpeedup, t) * rubberBandingVariation;
-            }
-        }
-
-        // Smoothly transition rubber banding multiplier (update happens in updatePhysics with dt)
+        const gapMeters = (this.raceDistance - this.playerRaceDistance) * this.track.length;
+        this.targetRubberBandingMultiplier = sampleRubberBandCurve(curve, gapMeters) * this.individualVariation;
     }
 
     private updateBoostBehavior(dt: number) {
@@ -968,14 +961,14 @@ export class NPCShip {
         // Boost energy: drain while active, regen when not held (same as player ship)
         if (shouldBeBoosting) {
             // Continuously drain boost energy while boosting (same as player)
-            this.boostEnergy = Math.max(0, this.boostEnergy - dt / PHYSICS.boostDurationSec);
+            this.boostEnergy = Math.max(0, this.boostEnergy - dt / this.profile.physics.boostDurationSec);
             // If boost energy runs out, stop boosting
             if (this.boostEnergy <= 0) {
                 this.boostDuration = 0;
             }
         } else {
             // Regenerate boost energy when not boosting (same as player ship)
-            this.boostEnergy = Math.min(1, this.boostEnergy + PHYSICS.boostRegenPerSec * dt);
+            this.boostEnergy = Math.min(1, this.boostEnergy + this.profile.physics.boostRegenPerSec * dt);
         }
 
         // Decide whether to boost based on AI behavior and conditions
@@ -1010,6 +1003,12 @@ export class NPCShip {
         // 1. They have enough energy (>0.3)
         // 2. They're behind the player (need to catch up)
         // 3. They're aggressive AI (more boost usage)
+        // Disciplined boosts (skill.boostTiming) wait for a straight and chain off boost pads
+
+        if (this.disciplinedBoost) {
+            const timing = this.getBoostTiming();
+            if (timing !== null) return timing;
+        }
 
         // Check if we're behind player (encourage catch-up boosting)
         const ourPosition = this.getTrackPosition();
@@ -1043,12 +1042,33 @@ export class NPCShip {
         }
 
         const boostChance = THREE.MathUtils.clamp(baseChance, 0, 0.6); // Cap at 60% max chance
-        return Math.random() < boostChance;
+        return this.random() < boostChance;
+    }
+
+    // Disciplined boost call: true to fire now, false to hold, null when nothing applies
+    private getBoostTiming(): boolean | null {
+        const t = this.state.t;
+        const metersToT = 1 / this.track.length;
+        const onPad = this.track.getBoostPadAtT(t).onPad;
+        // Fire leaving a pad to chain the speed
+        if (!onPad && this.boostPadTimer > 0) return true;
+        if (onPad) return false;
+
+        // Hold for a corner or a pad coming up (sampled every 10 m)
+        const cornerLimit = this.track.getOptions().maxCurvature * NPC.boostCornerCurvature;
+        for (let d = 0; d <= NPC.boostCornerLookAheadMeters; d += 10) {
+            if (Math.abs(this.track.getCurvatureAtT(t + d * metersToT)) > cornerLimit) return false;
+        }
+        for (let d = 10; d <= NPC.boostPadSaveMeters; d += 10) {
+            if (this.track.getBoostPadAtT(t + d * metersToT).onPad) return false;
+        }
+        return null;
     }
 
     private activateBoost() {
+        this.disciplinedBoost = this.random() < this.skill.boostTiming;
         this.isBoosting = true;
-        this.boostDuration = PHYSICS.boostDurationSec; // Same boost duration as player
+        this.boostDuration = this.profile.physics.boostDurationSec; // Same boost duration as player
         this.boostCooldown = 0.5; // Short cooldown to prevent immediate re-boost (but energy drain limits it naturally)
     }
 
@@ -1080,6 +1100,7 @@ export class NPCShip {
         // Boost pad logic: temporary speed boost when driving over pads (like player ship)
         const boostPadInfo = this.track.getBoostPadAtT(this.state.t);
         if (boostPadInfo.onPad) {
+            this.state.hull = Math.min(1, this.state.hull + HULL.boostPadRegenPerSec * dt);
             // On a boost pad - activate boost and reset timer
             this.boostPadTimer = BOOST_PAD.boostDuration;
             this.boostPadMultiplier = BOOST_PAD.boostMultiplier;
@@ -1148,10 +1169,10 @@ export class NPCShip {
 
     private updatePhysics(dt: number) {
         // Calculate base speed - same as player ship
-        const baseSpeed = PHYSICS.baseSpeed;
+        const baseSpeed = this.profile.physics.baseSpeed;
 
         // Apply boost multiplier if boosting - same as player
-        const boostMultiplier = this.isBoosting ? PHYSICS.boostMultiplier : 1.0;
+        const boostMultiplier = this.isBoosting ? this.profile.physics.boostMultiplier : 1.0;
 
         // Apply tunnel boost multiplier - same as player
         const tunnelMultiplier = this.tunnelBoostAccumulator;
@@ -1160,11 +1181,10 @@ export class NPCShip {
         const boostPadMultiplier = this.boostPadMultiplier;
 
         // Smoothly update rubber banding multiplier (prevent sudden changes)
-        const rubberBandingLerpSpeed = 3.0; // How fast to transition to target multiplier
         this.rubberBandingMultiplier = THREE.MathUtils.lerp(
             this.rubberBandingMultiplier,
             this.targetRubberBandingMultiplier,
-            1 - Math.pow(0.001, dt * rubberBandingLerpSpeed)
+            1 - Math.pow(0.001, dt * RUBBER_BAND.lerpSpeed)
         );
 
         // Apply rubber banding multiplier (slows NPCs when ahead, speeds up when behind)
@@ -1180,35 +1200,27 @@ export class NPCShip {
         if (this.draftingActive) {
             const matchTarget = Math.min(
                 Math.max(this.draftingLeadSpeedKmh + DRAFTING.matchMaxDelta, this.state.speedKmh),
-                PHYSICS.maxSpeed
+                this.profile.physics.maxSpeed
             );
             targetSpeed = Math.max(targetSpeed, matchTarget);
         }
 
         // Allow NPCs to legitimately get ahead; rubber banding below will prevent runaway leads
 
-        // Soft cap when ahead: don't exceed player speed by more than 2%
-        {
-            const ourPosition = this.getTrackPosition();
-            const lapDiff = this.state.lapCurrent - this.playerLap;
-            let isAhead = false;
-            if (lapDiff > 0) {
-                isAhead = true;
-            } else if (lapDiff === 0) {
-                let trackDistance = ourPosition - this.playerPosition;
-                if (Math.abs(trackDistance) > 0.5) trackDistance = trackDistance > 0 ? trackDistance - 1 : trackDistance + 1;
-                isAhead = trackDistance > 0;
-            }
+        // Soft cap when ahead: don't exceed player speed by more than 2% (part of catch-up, so off with it)
+        // "Ahead" uses the same lap-aware race distance as the catch-up curve
+        if (this.skill.rubberBanding.length > 0) {
+            const isAhead = this.raceDistance !== null && this.playerRaceDistance !== null && this.raceDistance > this.playerRaceDistance;
             if (isAhead && this.latestPlayerSpeedKmh > 1) {
-                const cap = this.latestPlayerSpeedKmh * 1.02;
+                const cap = this.latestPlayerSpeedKmh * RUBBER_BAND.aheadSpeedCap;
                 targetSpeed = Math.min(targetSpeed, cap);
             }
         }
 
         // Acceleration-limited speed change so NPCs start from 0 and ramp up naturally
         const prevSpeed = this.state.speedKmh;
-        const accelKmhPerSec = PHYSICS.throttleAccelKmhPerSec;
-        const decelKmhPerSec = PHYSICS.coastDecelKmhPerSec;
+        const accelKmhPerSec = this.profile.physics.throttleAccelKmhPerSec;
+        const decelKmhPerSec = this.profile.physics.coastDecelKmhPerSec;
         let newSpeed = prevSpeed;
         if (targetSpeed > prevSpeed) {
             newSpeed = Math.min(prevSpeed + accelKmhPerSec * dt, targetSpeed);
@@ -1234,8 +1246,8 @@ export class NPCShip {
         }
 
         // Update lateral movement
-        const lateralAccel = PHYSICS.lateralAccel * 0.8; // Slightly slower than player
-        const lateralDamping = PHYSICS.lateralDamping * 0.9;
+        const lateralAccel = this.profile.physics.lateralAccel * 0.8; // Slightly slower than player
+        const lateralDamping = this.profile.physics.lateralDamping * 0.9;
 
         const targetLateralVel = (this.targetLateralOffset - this.state.lateralOffset) * 2;
         this.lateralVelocity = THREE.MathUtils.damp(this.lateralVelocity, targetLateralVel, lateralDamping, dt);
@@ -1248,6 +1260,11 @@ export class NPCShip {
             -lateralLimit,
             lateralLimit
         );
+
+        // Scraping the edge limit wears the hull (same rule as the player)
+        if (Math.abs(this.state.lateralOffset) >= lateralLimit && Math.sign(this.lateralVelocity) === Math.sign(this.state.lateralOffset) && this.state.speedKmh > HULL.wallScrapeMinSpeedKmh) {
+            this.applyDamage(HULL.wallScrapeDamagePerSec * (this.state.speedKmh / this.profile.physics.maxNonBoostKmh) * dt);
+        }
     }
 
     private updatePosition(dt: number) {
@@ -1287,39 +1304,15 @@ export class NPCShip {
 
     private updateLapTracking() {
         // Proper lap detection - only count each crossing once per frame
-        // Uses the same logic as the player ship (check BEFORE wrapping t)
+        // Uses the same gate logic as the player ship (check BEFORE wrapping t)
+        const prevT = this.prevT;
+        const passedGate = this.checkpoints.advance(prevT, this.state.t);
+        this.state.nextCheckpointT = this.checkpoints.getNextT();
         if (this.state.lapCurrent >= 0 && !this.hasCrossedCheckpointThisFrame) {
-            const prevT = this.prevT;
-            let newT = this.state.t;
-
-            // Check if we'll wrap
-            const willWrapForward = newT > 1;
-            const willWrapBackward = newT < 0;
-
-            // Normal case: crossed from negative to positive (without wrapping)
-            const normalCrossing = prevT < 0 && newT >= 0 && !willWrapForward && !willWrapBackward;
-
-            // Wrapping case: detect if we're about to wrap or just wrapped
-            let wrappingCrossing = false;
-            if (willWrapForward) {
-                // We're about to wrap forward: prevT was > 0.5 means we crossed 0
-                wrappingCrossing = prevT > 0.5;
-                // Wrap now for detection
-                newT = newT - 1;
-            } else if (willWrapBackward) {
-                // Wrapping backward shouldn't happen, but handle it
-                wrappingCrossing = false;
-            } else {
-                // Check if we already wrapped (prevT high, newT low after wrap)
-                // This handles the case where wrapping happened in a previous step
-                // But since we wrap after detection, we can check: prevT > 0.9 and newT < 0.1
-                wrappingCrossing = prevT > 0.9 && newT < 0.1;
-            }
-
-            if (normalCrossing || wrappingCrossing) {
+            if (passedGate === 0) {
                 // Increment lap count (0 -> 1, 1 -> 2, 2 -> 3)
                 if (this.state.lapCurrent < this.state.lapTotal) {
-                    console.log(`[${this.racerId}] LAP CROSSING: prevT=${prevT.toFixed(4)}, newT=${this.state.t.toFixed(4)}, normalCrossing=${normalCrossing}, wrappingCrossing=${wrappingCrossing}, lap: ${this.state.lapCurrent} -> ${this.state.lapCurrent + 1}`);
+                    console.log(`[${this.racerId}] LAP CROSSING: prevT=${prevT.toFixed(4)}, newT=${this.state.t.toFixed(4)}, lap: ${this.state.lapCurrent} -> ${this.state.lapCurrent + 1}`);
                     this.state.lapCurrent++;
                     this.hasCrossedCheckpointThisFrame = true;
                 }
@@ -1364,7 +1357,7 @@ export class NPCShip {
             const dtVis = this.lastVisualUpdateSec > 0 ? Math.min(0.05, nowSec - this.lastVisualUpdateSec) : 1 / 60;
             this.lastVisualUpdateSec = nowSec;
 
-            const yawRatio = THREE.MathUtils.clamp(this.lateralVelocity / PHYSICS.lateralAccel, -1, 1);
+            const yawRatio = THREE.MathUtils.clamp(this.lateralVelocity / this.profile.physics.lateralAccel, -1, 1);
             const turnDir = yawRatio > 0.25 ? 1 : (yawRatio < -0.25 ? -1 : 0);
 
             // Update hold timers and direction state
@@ -1420,7 +1413,7 @@ export class NPCShip {
             }
 
             const shipYaw = -yawRatio * CAMERA.shipYawFromInput * 0.4;
-            const inputEuler = new THREE.Euler(this.state.pitch || 0, shipYaw, this.visualRoll, 'YXZ');
+            const inputEuler = new THREE.Euler(this.state.pitch || 0, shipYaw, this.visualRoll + this.trickRoll, 'YXZ');
             const inputQ = new THREE.Quaternion().setFromEuler(inputEuler);
 
             baseQ.multiply(inputQ);
@@ -1446,6 +1439,16 @@ export class NPCShip {
         return this.state.t;
     }
 
+    // Lap-aware race distance for this NPC and the player, in track lengths (RaceManager.getRaceDistance)
+    public setRaceDistance(own: number | null, player: number | null) {
+        this.raceDistance = own;
+        this.playerRaceDistance = player;
+    }
+
+    public getRubberBandingMultiplier(): number {
+        return this.rubberBandingMultiplier;
+    }
+
     public getBoostPadTimer(): number {
         return this.boostPadTimer;
     }
@@ -1463,10 +1466,110 @@ export class NPCShip {
             lapCurrent: this.state.lapCurrent,
             lapTotal: this.state.lapTotal,
             finished: this.finished,
-            finishTime: this.finishTime
+            finishTime: this.finishTime,
+            nextCheckpointT: this.state.nextCheckpointT
         };
     }
 
+    // Collisions and hazards call this first; true when an active shield took the hit
+    public absorbHit(): boolean {
+        if (this.shieldTimer <= 0) return false;
+        this.shieldTimer = 0;
+        this.shield.setActive(false);
+        return true;
+    }
+
+    public isShieldActive(): boolean {
+        return this.shieldTimer > 0;
+    }
+
+    // Shield items skip the recharge wait
+    public raiseShield() {
+        this.shieldTimer = SHIELD.duration;
+        this.shield.setActive(true);
+    }
+
+    // Simple item use: each item waits for a situation it helps in, or is used after maxHoldSec
+    public wantsToUseItem(aheadMeters: number, behindMeters: number): boolean {
+        if (this.heldItem === null || this.finished || this.itemHeldTime < ITEMS.npc.useDelaySec) return false;
+        if (this.itemHeldTime >= ITEMS.npc.maxHoldSec) return true;
+        switch (this.heldItem) {
+            case 'boost':
+                return this.boostEnergy < ITEMS.npc.lowBoostEnergy;
+            case 'shield':
+                return this.shieldTimer <= 0 && Math.min(aheadMeters, behindMeters) < ITEMS.npc.shieldThreatMeters;
+            case 'emp':
+                return aheadMeters < ITEMS.emp.radiusMeters;
+            case 'mine':
+                return behindMeters < ITEMS.npc.mineTargetMeters;
+        }
+    }
+
+    // EMP hit
+    public drainBoost(amount: number) {
+        this.boostEnergy = Math.max(0, this.boostEnergy - amount);
+    }
+
+    // Boost item
+    public refillBoost() {
+        this.boostEnergy = 1;
+    }
+
+    // Hull damage from impacts and hazards; the ship explodes at zero
+    public applyDamage(amount: number) {
+        if (this.respawnTimer > 0 || this.invulnerableTimer > 0 || !this.raceStarted || this.finished) return;
+        this.state.hull = Math.max(0, this.state.hull - amount);
+        if (this.state.hull > 0) return;
+
+        this.respawnTimer = HULL.respawnDelaySec;
+        this.root.visible = false;
+        this.state.speedKmh = 0;
+        this.lateralVelocity = 0;
+        this.isBoosting = false;
+        this.state.boosting = false;
+        this.absorbHit();
+        const position = this.root.getWorldPosition(new THREE.Vector3());
+        this.destroyedHandlers.forEach(h => h(position));
+    }
+
+    public isWrecked(): boolean {
+        return this.respawnTimer > 0;
+    }
+
+    // Fired when the hull gives out, with the wreck's world position
+    public onDestroyed(handler: (position: THREE.Vector3) => void) {
+        this.destroyedHandlers.push(handler);
+    }
+
+    // Back on the racing line at the last gate passed, from standstill
+    private respawn() {
+        const gateT = this.checkpoints.getLastT();
+        if (gateT !== null) this.state.t = gateT;
+        this.prevT = this.state.t;
+        this.lastPositionT = this.state.t;
+        this.stuckDetectionTimer = 0;
+        this.state.lateralOffset = 0;
+        this.targetLateralOffset = 0;
+        this.state.verticalOffset = 0;
+        this.verticalVelocity = 0;
+        this.trickRoll = 0;
+        this.trickRollDir = 0;
+        this.state.hull = 1;
+        this.invulnerableTimer = HULL.invulnerableSec;
+        this.root.visible = true;
+        this.updateVisualPosition();
+    }
+
+    // Ship-to-ship contact from CollisionSystem: push (m), lateral bump (m/s), fractional speed loss
+    public applyContact(push: number, bumpSpeed: number, speedLoss: number) {
+        const lateralLimit = this.track.width * 0.5 * 0.95;
+        this.state.lateralOffset = THREE.MathUtils.clamp(this.state.lateralOffset + push, -lateralLimit, lateralLimit);
+        // Shift the lane too so the NPC does not steer straight back into the other ship
+        this.targetLateralOffset = THREE.MathUtils.clamp(this.targetLateralOffset + push, -lateralLimit, lateralLimit);
+        this.lateralVelocity += bumpSpeed;
+        this.state.speedKmh *= 1 - speedLoss;
+    }
+
     public finish(finishTime: number) {
         this.finished = true;
         this.finishTime = finishTime;
@@ -1490,6 +1593,7 @@ export class NPCShip {
         this.raceStartTime = 0; // Reset race start timer (will accumulate dt each frame)
         // Make sure checkpoint flag is reset for clean detection
         this.hasCrossedCheckpointThisFrame = false;
+        this.checkpoints.reset();
         this.prevT = this.state.t;
     }
 
@@ -1501,13 +1605,15 @@ export class NPCShip {
         this.finished = false;
         this.finishTime = undefined;
         this.lateralVelocity = 0;
-        this.speedMultiplier = 1.0;
+        this.speedMultiplier = this.baseSpeedMultiplier;
         this.stuckDetectionTimer = 0;
         this.lastPositionT = this.state.t;
 
         // Reset lap tracking state
         this.prevT = this.state.t;
         this.hasCrossedCheckpointThisFrame = false;
+        this.checkpoints.reset();
+        this.state.nextCheckpointT = 0;
 
         // Reset boost system
         this.boostEnergy = 1.0;
@@ -1532,12 +1638,64 @@ export class NPCShip {
         this.targetRubberBandingMultiplier = 1.0;
         this.playerPosition = 0;
         this.playerLap = 0;
+        this.raceDistance = null;
+        this.playerRaceDistance = null;
         this.raceStartTime = 0;
         this.raceStarted = false;
 
         // Hide all boost effects
         this.rocketTail.root.visible = false;
         this.speedStars.visible = false;
+
+        this.shieldTimer = 0;
+        this.shieldRecharge = this.randomShieldRecharge();
+        this.shield.setActive(false);
+        this.heldItem = null;
+        this.trickRoll = 0;
+        this.trickRollDir = 0;
+        this.itemHeldTime = 0;
+
+        this.state.hull = 1;
+        this.respawnTimer = 0;
+        this.invulnerableTimer = 0;
+        this.root.visible = true;
+    }
+
+    // Free GPU resources; the caller removes root from the scene
+    public dispose() {
+        this.jetEngine.dispose();
+        this.shield.dispose();
+        this.rocketTail.dispose();
+        this.root.traverse((object) => {
+            if (object instanceof THREE.Mesh || object instanceof THREE.Line || object instanceof THREE.Points) {
+                object.geometry.dispose();
+                if (Array.isArray(object.material)) {
+                    object.material.forEach(mat => mat.dispose());
+                } else {
+                    object.material.dispose();
+                }
+            }
+        });
+    }
+
+    // Active shields time out; otherwise count down to raising the next one
+    private updateShield(dt: number) {
+        if (this.shieldTimer > 0) {
+            this.shieldTimer = Math.max(0, this.shieldTimer - dt);
+            if (this.shieldTimer === 0) this.shield.setActive(false);
+        } else if (!this.finished) {
+            this.shieldRecharge -= dt;
+            if (this.shieldRecharge <= 0) {
+                this.shieldTimer = SHIELD.duration;
+                this.shieldRecharge = this.randomShieldRecharge();
+                this.shield.setActive(true);
+            }
+        }
+        this.shield.update(dt);
+    }
+
+    private randomShieldRecharge(): number {
+        return THREE.MathUtils.lerp(SHIELD.npcRechargeMinSec, SHIELD.npcRechargeMaxSec, this.random());
     }
 
     private updateCollisionAvoidance(allNPCs: NPCShip[]) {
@@ -1595,9 +1753,9 @@ export class NPCShip {
         console.warn(`NPC ${this.racerId} was stuck at t=${this.state.t.toFixed(4)} for ${this.stuckThreshold}s, attempting recovery`, {
             position: this.state.t,
             speed: this.state.speedKmh,
-            targetSpeed: PHYSICS.baseSpeed * this.rubberBandingMultiplier,
+            targetSpeed: this.profile.physics.baseSpeed * this.rubberBandingMultiplier,
             rubberBanding: this.rubberBandingMultiplier,
-            boostMultiplier: this.isBoosting ? PHYSICS.boostMultiplier : 1.0,
+            boostMultiplier: this.isBoosting ? this.profile.physics.boostMultiplier : 1.0,
             tunnelMultiplier: this.tunnelBoostAccumulator,
             boostPadMultiplier: this.boostPadMultiplier
         });
@@ -1607,7 +1765,7 @@ export class NPCShip {
         if (this.state.t > 1) this.state.t -= 1;
 
         // Force speed to base speed (100% instead of 50%) to ensure strong movement
-        this.state.speedKmh = PHYSICS.baseSpeed;
+        this.state.speedKmh = this.profile.physics.baseSpeed;
 
         // Reset velocity to prevent immediate re-sticking
         this.lateralVelocity = 0;
@@ -1628,3 +1786,16 @@ export class NPCShip {
         console.log(`NPC ${this.racerId} recovery complete: t=${this.state.t.toFixed(4)}, speed=${this.state.speedKmh.toFixed(1)} km/h`);
     }
 }
+
+// Piecewise-linear lookup, held flat past the first and last points
+function sampleRubberBandCurve(curve: RubberBandCurve, gapMeters: number): number {
+    if (gapMeters <= curve[0][0]) return curve[0][1];
+    for (let i = 1; i < curve.length; i++) {
+        const [x1, y1] = curve[i];
+        if (gapMeters <= x1) {
+            const [x0, y0] = curve[i - 1];
+            return THREE.MathUtils.lerp(y0, y1, (gapMeters - x0) / (x1 - x0));
+        }
+    }
+    return curve[curve.length - 1][1];
+}
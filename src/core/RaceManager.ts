@@ -1,20 +1,23 @@
 import type { RacePosition, RaceResults, RaceState } from './types';
 import type { ShipState } from './types';
+import { LAPS_TOTAL } from './constants';
 
 export class RaceManager {
     private raceState: RaceState = 'NOT_STARTED';
-    private raceStartTime = 0;
+    private raceTime = 0; // seconds of fixed simulation steps since GO (see tick)
     private racers: Map<string, RacePosition> = new Map();
     private finishedRacers: RacePosition[] = [];
     private playerId = 'player';
     private npcIds: string[] = [];
+    private lapStartTimes: Map<string, number> = new Map(); // race time each racer's current lap began
+    private lapTotal = LAPS_TOTAL;
 
     constructor() {
         this.racers.set(this.playerId, {
             racerId: this.playerId,
             position: 1,
             lapCurrent: 0,
-            lapTotal: 3,
+            lapTotal: this.lapTotal,
             finished: false
         });
     }
@@ -25,19 +28,32 @@ export class RaceManager {
             racerId,
             position: 1,
             lapCurrent: 0,
-            lapTotal: 3,
+            lapTotal: this.lapTotal,
             finished: false
         });
     }
 
+    // Race length for every racer, current and added later
+    public setLapTotal(laps: number) {
+        this.lapTotal = laps;
+        this.racers.forEach(racer => racer.lapTotal = laps);
+    }
+
     public startRace() {
         this.raceState = 'COUNTDOWN';
-        this.raceStartTime = 0; // Will be set when countdown ends
+        this.raceTime = 0; // Starts counting when the countdown ends
     }
 
     public startRacing() {
         this.raceState = 'RACING';
-        this.raceStartTime = performance.now() / 1000;
+        this.raceTime = 0;
+    }
+
+    // Advance the race clock by one fixed simulation step; keeps running after the player
+    // finishes so the rest of the field still gets finish times. Never reads the wall clock,
+    // so a pause or a slow frame can't change a lap time.
+    public tick(dt: number) {
+        if (this.raceState === 'RACING' || this.raceState === 'FINISHED') this.raceTime += dt;
     }
 
     public finishRace() {
@@ -49,27 +65,56 @@ export class RaceManager {
     }
 
     public updatePlayerState(playerState: ShipState) {
-        const currentRacer = this.racers.get(this.playerId);
-        if (currentRacer) {
-            currentRacer.lapCurrent = playerState.lapCurrent;
-            currentRacer.t = playerState.t;
-            currentRacer.finished = playerState.lapCurrent >= playerState.lapTotal;
-
-            if (currentRacer.finished && !currentRacer.finishTime) {
-                currentRacer.finishTime = this.getRaceTime();
-            }
-        }
+        this.updateRacer(this.playerId, playerState);
     }
 
     public updateNPCState(racerId: string, npcState: ShipState) {
+        this.updateRacer(racerId, npcState);
+    }
+
+    // Time penalty (e.g. a hull respawn); counted into the racer's finish time
+    public addPenalty(racerId: string, seconds: number) {
+        const racer = this.racers.get(racerId);
+        if (!racer || racer.finished) return;
+        racer.penalty = (racer.penalty ?? 0) + seconds;
+    }
+
+    // Banked style points shown in the results
+    public setStyleScore(racerId: string, points: number) {
+        const racer = this.racers.get(racerId);
+        if (racer) racer.styleScore = points;
+    }
+
+    // Drop all NPC racers (before spawning a new field)
+    public clearNPCs() {
+        this.npcIds.forEach(id => {
+            this.racers.delete(id);
+            this.lapStartTimes.delete(id);
+        });
+        this.npcIds = [];
+    }
+
+    private updateRacer(racerId: string, state: ShipState) {
         const currentRacer = this.racers.get(racerId);
         if (currentRacer) {
-            currentRacer.lapCurrent = npcState.lapCurrent;
-            currentRacer.t = npcState.t;
-            currentRacer.finished = npcState.lapCurrent >= npcState.lapTotal;
+            // Time each lap on the race clock; lap 1 starts at the first line crossing
+            if (state.lapCurrent > currentRacer.lapCurrent && !currentRacer.finished) {
+                const now = this.getRaceTime();
+                const lapStart = this.lapStartTimes.get(racerId);
+                if (state.lapCurrent > 1 && lapStart !== undefined) {
+                    const lapTime = now - lapStart;
+                    currentRacer.bestLap = Math.min(currentRacer.bestLap ?? Infinity, lapTime);
+                }
+                this.lapStartTimes.set(racerId, now);
+            }
+
+            currentRacer.lapCurrent = state.lapCurrent;
+            currentRacer.t = state.t;
+            currentRacer.nextCheckpointT = state.nextCheckpointT;
+            currentRacer.finished = state.lapCurrent >= state.lapTotal;
 
             if (currentRacer.finished && !currentRacer.finishTime) {
-                currentRacer.finishTime = this.getRaceTime();
+                currentRacer.finishTime = this.getRaceTime() + (currentRacer.penalty ?? 0);
             }
         }
     }
@@ -101,6 +146,12 @@ export class RaceManager {
             t += 1;
         }
 
+        // Checkpoint progress: racers who skipped a gate (or reversed over the line)
+        // are only as far along as the next gate they still owe
+        if (racer.nextCheckpointT !== undefined) {
+            t = Math.min(t, racer.nextCheckpointT);
+        }
+
         // Total progress = lap number + progress within lap
         // This creates a continuous value that never wraps
         // Example: lap 2, t=0.5 = totalProgress 2.5
@@ -133,6 +184,10 @@ export class RaceManager {
             if (a.finished !== b.finished) {
                 return a.finished ? -1 : 1; // Finished racers first
             }
+            // Finished racers are classified by finish time
+            if (a.finished && b.finished) {
+                return (a.finishTime ?? 0) - (b.finishTime ?? 0);
+            }
 
             // Compare total progress (higher = ahead)
             const diff = progressB - progressA;
@@ -174,11 +229,20 @@ export class RaceManager {
         return playerRacer?.position || 1;
     }
 
+    // Lap-aware distance covered since the start line, in track lengths (negative on the grid).
+    // Lap 0 (grid) and lap 1 both measure from the line so the count doesn't jump on the first crossing.
+    public getRaceDistance(racerId: string): number | null {
+        const racer = this.racers.get(racerId);
+        if (!racer) return null;
+        const progress = this.calculateTotalProgress(racer);
+        return racer.lapCurrent > 0 ? progress - 1 : progress;
+    }
+
     public getRaceTime(): number {
         if (this.raceState === 'NOT_STARTED' || this.raceState === 'COUNTDOWN') {
             return 0;
         }
-        return (performance.now() / 1000) - this.raceStartTime;
+        return this.raceTime;
     }
 
     public isRaceComplete(): boolean {
@@ -204,8 +268,9 @@ export class RaceManager {
 
     public reset() {
         this.raceState = 'NOT_STARTED';
-        this.raceStartTime = 0;
+        this.raceTime = 0;
         this.finishedRacers = [];
+        this.lapStartTimes.clear();
 
         // Reset all racers
         this.racers.forEach(racer => {
@@ -213,6 +278,11 @@ export class RaceManager {
             racer.position = 1;
             racer.finished = false;
             racer.finishTime = undefined;
+            racer.nextCheckpointT = undefined;
+            racer.bestLap = undefined;
+            racer.penalty = undefined;
+            racer.styleScore = undefined;
+            racer.t = undefined;
         });
     }
 }
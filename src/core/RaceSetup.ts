@@ -0,0 +1,38 @@
+import { LAPS_TOTAL, RACE_SETUP, TRACK_SEED } from './constants';
+import { loadJSON, saveJSON } from './Storage';
+import type { AIDifficulty, RaceSetup } from './types';
+
+const DIFFICULTIES: AIDifficulty[] = ['easy', 'normal', 'hard', 'expert'];
+
+export function defaultRaceSetup(): RaceSetup {
+    return {
+        laps: LAPS_TOTAL,
+        opponents: RACE_SETUP.defaultOpponents,
+        difficulty: 'normal',
+        rubberBanding: true,
+        seed: TRACK_SEED
+    };
+}
+
+// Clamp untrusted values (stored setup, form input) into the supported ranges
+export function sanitizeRaceSetup(data: Partial<RaceSetup>): RaceSetup {
+    const defaults = defaultRaceSetup();
+    const clampInt = (v: unknown, min: number, max: number, fallback: number) =>
+        typeof v === 'number' && Number.isFinite(v) ? Math.min(max, Math.max(min, Math.round(v))) : fallback;
+    return {
+        laps: clampInt(data.laps, RACE_SETUP.lapsMin, RACE_SETUP.lapsMax, defaults.laps),
+        opponents: clampInt(data.opponents, RACE_SETUP.opponentsMin, RACE_SETUP.opponentsMax, defaults.opponents),
+        difficulty: DIFFICULTIES.includes(data.difficulty as AIDifficulty) ? data.difficulty as AIDifficulty : defaults.difficulty,
+        rubberBanding: typeof data.rubberBanding === 'boolean' ? data.rubberBanding : defaults.rubberBanding,
+        seed: data.seed === null ? null : clampInt(data.seed, 0, 0xffffffff, TRACK_SEED)
+    };
+}
+
+export function loadRaceSetup(): RaceSetup {
+    const data = loadJSON<unknown>(RACE_SETUP.storageKey, null);
+    return sanitizeRaceSetup(typeof data === 'object' && data !== null ? data : {});
+}
+
+export function saveRaceSetup(setup: RaceSetup) {
+    saveJSON(RACE_SETUP.storageKey, setup);
+}
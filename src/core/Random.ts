@@ -0,0 +1,21 @@
+// Small seeded PRNG: the same seed always yields the same sequence in [0, 1)
+export function mulberry32(seed: number) {
+    let t = seed >>> 0;
+    return function () {
+        t += 0x6D2B79F5;
+        let r = Math.imul(t ^ (t >>> 15), 1 | t);
+        r ^= r + Math.imul(r ^ (r >>> 7), 61 | r);
+        return ((r ^ (r >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+// Seed for one named stream (e.g. a racer id) under a race seed, so each entity draws
+// its own sequence no matter how many numbers the others consume (FNV-1a over the name)
+export function streamSeed(seed: number, stream: string): number {
+    let h = (0x811C9DC5 ^ seed) >>> 0;
+    for (let i = 0; i < stream.length; i++) {
+        h ^= stream.charCodeAt(i);
+        h = Math.imul(h, 0x01000193);
+    }
+    return h >>> 0;
+}
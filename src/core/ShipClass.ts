@@ -0,0 +1,61 @@
+import { DRIFT, PHYSICS, SHIP_CLASS, SHIP_CLASSES } from './constants';
+import { loadJSON, saveJSON } from './Storage';
+import type { ShipClassId, ShipProfile } from './types';
+
+export const SHIP_CLASS_IDS = Object.keys(SHIP_CLASSES) as ShipClassId[];
+
+// Shared PHYSICS/DRIFT values with the class overrides on top
+export function resolveShipProfile(classId: ShipClassId): ShipProfile {
+    const def = SHIP_CLASSES[classId];
+    return {
+        classId,
+        physics: {
+            baseSpeed: PHYSICS.baseSpeed,
+            maxSpeed: PHYSICS.maxSpeed,
+            maxNonBoostKmh: PHYSICS.maxNonBoostKmh,
+            throttleAccelKmhPerSec: PHYSICS.throttleAccelKmhPerSec,
+            brakeDecelKmhPerSec: PHYSICS.brakeDecelKmhPerSec,
+            coastDecelKmhPerSec: PHYSICS.coastDecelKmhPerSec,
+            boostMultiplier: PHYSICS.boostMultiplier,
+            boostDurationSec: PHYSICS.boostDurationSec,
+            boostRegenPerSec: PHYSICS.boostRegenPerSec,
+            lateralAccel: PHYSICS.lateralAccel,
+            lateralDamping: PHYSICS.lateralDamping,
+            ...def.physics
+        },
+        drift: {
+            driftGripFactor: DRIFT.driftGripFactor,
+            driftDampingFactor: DRIFT.driftDampingFactor,
+            driftSpeedMinMultiplier: DRIFT.driftSpeedMinMultiplier,
+            driftSpeedMaxMultiplier: DRIFT.driftSpeedMaxMultiplier,
+            flowRefillRate: DRIFT.flowRefillRate,
+            ...def.drift
+        }
+    };
+}
+
+// Headline numbers for the stat bars, each normalised against the best class (0..1)
+export function getShipStatBars(classId: ShipClassId): Array<{ label: string; value: number }> {
+    const stats = (p: ShipProfile) => [
+        { label: 'TOP SPEED', value: p.physics.maxSpeed },
+        { label: 'ACCELERATION', value: p.physics.throttleAccelKmhPerSec },
+        { label: 'HANDLING', value: p.physics.lateralAccel },
+        { label: 'BOOST', value: p.physics.boostDurationSec },
+        { label: 'RECHARGE', value: p.physics.boostRegenPerSec },
+        { label: 'DRIFT', value: p.drift.flowRefillRate }
+    ];
+    const all = SHIP_CLASS_IDS.map(id => stats(resolveShipProfile(id)));
+    return stats(resolveShipProfile(classId)).map((stat, i) => ({
+        label: stat.label,
+        value: stat.value / Math.max(...all.map(s => s[i].value))
+    }));
+}
+
+export function loadShipClass(): ShipClassId {
+    const stored = loadJSON<unknown>(SHIP_CLASS.storageKey, null);
+    return SHIP_CLASS_IDS.includes(stored as ShipClassId) ? stored as ShipClassId : SHIP_CLASS.defaultClass;
+}
+
+export function saveShipClass(classId: ShipClassId) {
+    saveJSON(SHIP_CLASS.storageKey, classId);
+}
@@ -0,0 +1,19 @@
+// Parsed localStorage value, or the fallback when the key is missing or unreadable.
+// Stored data is untrusted: callers still validate the shape they get back.
+export function loadJSON<T>(key: string, fallback: T): T {
+    try {
+        const raw = localStorage.getItem(key);
+        return raw ? JSON.parse(raw) as T : fallback;
+    } catch (err) {
+        console.warn(`Failed to load ${key}:`, err);
+        return fallback;
+    }
+}
+
+export function saveJSON(key: string, value: unknown) {
+    try {
+        localStorage.setItem(key, JSON.stringify(value));
+    } catch (err) {
+        console.warn(`Failed to save ${key}:`, err);
+    }
+}
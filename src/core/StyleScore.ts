@@ -0,0 +1,140 @@
+import { STYLE } from './constants';
+import { Track } from './Track';
+import type { ShipState, StyleCombo, StyleTrick } from './types';
+
+type ContinuousTrick = 'drift' | 'air' | 'tunnel';
+
+const RATES: Record<ContinuousTrick, number> = {
+    drift: STYLE.driftPointsPerSec,
+    air: STYLE.airPointsPerSec,
+    tunnel: STYLE.tunnelPointsPerSec
+};
+
+// Player style points. Drifts, ramp airtime and tunnel-centre runs score while they last;
+// draft lock-ons, near-miss overtakes and landed air tricks score once. Every trick keeps the
+// combo alive and chained tricks raise the multiplier; the combo banks into the total when the
+// window runs out.
+// Contacts break the combo and its unbanked points are lost.
+export class StyleScore {
+    private total = 0;
+    private comboPoints = 0;
+    private multiplier = 1;
+    private comboTimer = 0;
+    private lastTrick: StyleTrick | null = null;
+    private trickTime: Record<ContinuousTrick, number> = { drift: 0, air: 0, tunnel: 0 };
+    private wasDraftLocked = false;
+    private prevAlong = new Map<string, number>(); // signed meters from the player to each racer
+
+    update(dt: number, track: Track, player: ShipState, others: Array<{ racerId: string; state: ShipState }>, draftLocked: boolean) {
+        const continuous: Record<ContinuousTrick, boolean> = {
+            drift: player.isDrifting,
+            air: player.verticalOffset > STYLE.airMinHeight,
+            tunnel: player.inTunnel && player.tunnelCenterBoost >= STYLE.tunnelMinBoost
+        };
+
+        let anyActive = false;
+        (Object.keys(continuous) as ContinuousTrick[]).forEach((trick) => {
+            if (continuous[trick]) {
+                anyActive = true;
+                this.trickTime[trick] += dt;
+                this.comboPoints += RATES[trick] * this.multiplier * dt;
+                this.comboTimer = STYLE.comboWindowSec;
+                this.lastTrick = trick;
+            } else if (this.trickTime[trick] > 0) {
+                // A long enough trick chains on the way out
+                if (this.trickTime[trick] >= STYLE.minTrickSec) this.chain(trick);
+                this.trickTime[trick] = 0;
+            }
+        });
+
+        if (draftLocked && !this.wasDraftLocked) this.award('draft', STYLE.draftLockPoints);
+        this.wasDraftLocked = draftLocked;
+
+        this.detectNearMisses(track, player, others);
+
+        if (anyActive || this.comboTimer <= 0) return;
+        this.multiplier = Math.max(1, this.multiplier - STYLE.multiplierDecayPerSec * dt);
+        this.comboTimer = Math.max(0, this.comboTimer - dt);
+        if (this.comboTimer === 0) this.bank();
+    }
+
+    // Airborne trick landed; a botched landing breaks the combo like a contact
+    landTrick(rotations: number, clean: boolean) {
+        if (!clean) {
+            this.breakCombo();
+            return;
+        }
+        if (rotations > 0) this.award('trick', STYLE.trickPointsPerRotation * rotations);
+    }
+
+    // Ship contact or wreck: the running combo is lost
+    breakCombo() {
+        this.comboPoints = 0;
+        this.multiplier = 1;
+        this.comboTimer = 0;
+        this.lastTrick = null;
+        this.trickTime = { drift: 0, air: 0, tunnel: 0 };
+    }
+
+    // Race over: bank whatever is running and return the final score
+    finish(): number {
+        this.bank();
+        return this.total;
+    }
+
+    getTotal(): number {
+        return this.total;
+    }
+
+    getCombo(): StyleCombo {
+        return {
+            points: Math.round(this.comboPoints),
+            multiplier: this.multiplier,
+            trick: this.comboTimer > 0 ? this.lastTrick : null
+        };
+    }
+
+    reset() {
+        this.total = 0;
+        this.breakCombo();
+        this.wasDraftLocked = false;
+        this.prevAlong.clear();
+    }
+
+    private award(trick: StyleTrick, points: number) {
+        this.comboPoints += points * this.multiplier;
+        this.chain(trick);
+    }
+
+    private chain(trick: StyleTrick) {
+        this.multiplier = Math.min(STYLE.maxMultiplier, this.multiplier + STYLE.multiplierStep);
+        this.comboTimer = STYLE.comboWindowSec;
+        this.lastTrick = trick;
+    }
+
+    private bank() {
+        this.total += Math.round(this.comboPoints);
+        this.comboPoints = 0;
+        this.multiplier = 1;
+        this.comboTimer = 0;
+        this.lastTrick = null;
+    }
+
+    // Overtaking a racer close alongside without touching it
+    private detectNearMisses(track: Track, player: ShipState, others: Array<{ racerId: string; state: ShipState }>) {
+        for (const other of others) {
+            let dT = other.state.t - player.t;
+            dT -= Math.round(dT);
+            const along = dT * track.length;
+            const prev = this.prevAlong.get(other.racerId);
+            this.prevAlong.set(other.racerId, along);
+            if (prev === undefined || prev <= 0 || along > 0 || prev - along > STYLE.nearMissPassWindow) continue;
+            if (other.state.hull <= 0) continue;
+
+            const lateral = Math.abs(other.state.lateralOffset - player.lateralOffset);
+            if (lateral >= STYLE.nearMissMinLateral && lateral <= STYLE.nearMissMaxLateral) {
+                this.award('nearMiss', STYLE.nearMissPoints);
+            }
+        }
+    }
+}
@@ -1,15 +1,47 @@
 import * as THREE from 'three';
-import { COLORS, TRACK_OPTS, TRACK_SOURCE, CUSTOM_TRACK_POINTS, TUNNEL, BOOST_PAD, RAMP, BANK_PROFILE, FRAME_PROFILES } from './constants';
-import type { TrackOptions, TrackSample, TunnelSegment, TunnelInfo, BoostPadSegment, BoostPadInfo, RampSegment, RampInfo } from './types';
-
-function mulberry32(seed: number) {
-    let t = seed >>> 0;
-    return function () {
-        t += 0x6D2B79F5;
-        let r = Math.imul(t ^ (t >>> 15), 1 | t);
-        r ^= r + Math.imul(r ^ (r >>> 7), 61 | r);
-        return ((r ^ (r >>> 14)) >>> 0) / 4294967296;
-    };
+import { COLORS, TRACK_OPTS, TRACK_SOURCE, CUSTOM_TRACK_POINTS, TUNNEL, BOOST_PAD, RAMP, ITEMS, BANK_PROFILE, FRAME_PROFILES, CHECKPOINTS, RACING_LINE } from './constants';
+import { mulberry32 } from './Random';
+import type { TrackOptions, TrackSample, TunnelSegment, TunnelInfo, BoostPadSegment, BoostPadInfo, RampSegment, RampInfo, TrackLayout, FrameProfileSection, TrackWarning } from './types';
+
+// Group flagged sample indices into contiguous [start, end] runs
+function flaggedRuns(flags: Uint8Array): Array<[number, number]> {
+    const runs: Array<[number, number]> = [];
+    let start = -1;
+    for (let i = 0; i <= flags.length; i++) {
+        const on = i < flags.length && flags[i] === 1;
+        if (on && start < 0) start = i;
+        if (!on && start >= 0) {
+            runs.push([start, i - 1]);
+            start = -1;
+        }
+    }
+    return runs;
+}
+
+// Free the GPU buffers of every mesh, line and point cloud under obj (shared ones once)
+function disposeObject(obj: THREE.Object3D) {
+    const resources = new Set<THREE.BufferGeometry | THREE.Material>();
+    obj.traverse((child) => {
+        if (!(child instanceof THREE.Mesh || child instanceof THREE.Line || child instanceof THREE.Points)) return;
+        resources.add(child.geometry);
+        (Array.isArray(child.material) ? child.material : [child.material]).forEach(m => resources.add(m));
+    });
+    resources.forEach(r => r.dispose());
+}
+
+// Box filter over a closed loop of samples
+function smoothLoop(values: number[], radius: number): number[] {
+    const n = values.length;
+    if (radius <= 0 || n === 0) return values.slice();
+    const wrap = (i: number) => ((i % n) + n) % n;
+    const out = new Array<number>(n);
+    let acc = 0;
+    for (let j = -radius; j <= radius; j++) acc += values[wrap(j)];
+    for (let i = 0; i < n; i++) {
+        out[i] = acc / (radius * 2 + 1);
+        acc += values[wrap(i + radius + 1)] - values[wrap(i - radius)];
+    }
+    return out;
 }
 
 export class Track {
@@ -26,6 +58,18 @@ export class Track {
     private ramps: RampSegment[] = [];
     private rampGroup = new THREE.Group();
     private rampChevronMaterials: THREE.MeshBasicMaterial[] = [];
+    private itemBoxes: Array<{ t: number; lateralOffset: number; cooldown: number; mesh: THREE.Mesh }> = [];
+    private itemBoxGroup = new THREE.Group();
+    // Shared by every box and kept across generate() calls
+    private itemBoxGeometry = new THREE.BoxGeometry(ITEMS.boxSize, ITEMS.boxSize, ITEMS.boxSize);
+    private itemBoxMaterial = new THREE.MeshBasicMaterial({
+        color: ITEMS.boxColor,
+        transparent: true,
+        opacity: 0.8,
+        blending: THREE.AdditiveBlending,
+        depthWrite: false,
+        toneMapped: false
+    });
 
     // Start line gate fade-out state
     private gateMaterials: THREE.MeshBasicMaterial[] = [];
@@ -34,6 +78,11 @@ export class Track {
     private gateFadeDuration = 3.0; // 3 seconds fade (duration of countdown)
 
     private opts: TrackOptions = TRACK_OPTS;
+    private controlPoints: THREE.Vector3[] = []; // input controls before relax passes (what track files store)
+    private frameProfiles: FrameProfileSection[] = FRAME_PROFILES;
+    public trackId = String(TRACK_OPTS.seed); // identifies the layout for ghosts and records
+    private warnings: TrackWarning[] = []; // layout problems found by the relax passes during generate()
+    private checkpointCount: number = CHECKPOINTS.minCount;
 
     // sampled frames cache (exposed for wormhole tunnel generation)
     public samples = this.opts.samples;
@@ -42,19 +91,30 @@ export class Track {
     public cachedNormals: THREE.Vector3[] = [];
     public cachedBinormals: THREE.Vector3[] = [];
     private cachedBank: number[] = [];
+    private racingLine: number[] = []; // NPC target lateral offset per sample
+    private lineCurvature: number[] = []; // signed turn rate (rad/m) per sample
 
     constructor() {
         this.generate(TRACK_OPTS, TRACK_SOURCE);
     }
 
-    public generate(opts: TrackOptions, source: 'procedural' | 'custom') {
+    // layout: explicit control points/placements (e.g. from a track file); omitted parts are generated
+    public generate(opts: TrackOptions, source: 'procedural' | 'custom', layout: TrackLayout = {}, trackId = String(opts.seed)) {
         this.opts = opts;
         this.width = opts.width;
         this.samples = opts.samples;
-        const controls =
-            (source === 'custom' && CUSTOM_TRACK_POINTS.length > 3)
-                ? CUSTOM_TRACK_POINTS
-                : this.makeControlPoints(opts);
+        this.trackId = trackId;
+        this.warnings = [];
+        this.frameProfiles = layout.frameProfiles ?? FRAME_PROFILES;
+        let controls: THREE.Vector3[];
+        if (layout.controlPoints && layout.controlPoints.length > 3) {
+            controls = layout.controlPoints;
+        } else if (source === 'custom' && CUSTOM_TRACK_POINTS.length > 3) {
+            controls = CUSTOM_TRACK_POINTS;
+        } else {
+            controls = this.makeControlPoints(opts);
+        }
+        this.controlPoints = controls.map(p => p.clone());
 
         // Debug: Check if controls array is valid
         if (!controls || controls.length < 4) {
@@ -114,13 +174,18 @@ export class Track {
 
         this.precomputeFramesAndBank();
         this.boundingRadius = this.computeBoundingRadius();
+        this.checkpointCount = THREE.MathUtils.clamp(
+            Math.round(this.length / CHECKPOINTS.spacingMeters), CHECKPOINTS.minCount, CHECKPOINTS.maxCount
+        );
 
         this.buildGeometry();
         this.buildRails();
         this.buildMarkers();
-        this.buildTunnels();
-        this.buildBoostPads();
-        this.buildRamps();
+        this.buildTunnels(layout.tunnels);
+        this.buildBoostPads(layout.boostPads);
+        this.buildRamps(layout.ramps);
+        this.buildItemBoxes();
+        this.buildRacingLine();
         this.buildStartLine(); // Build after tunnels so we can position relative to first tunnel
         this.updateTrackAlphaForTunnels();
 
@@ -293,7 +358,7 @@ export class Track {
         }
 
         // Optional per-section frame customization
-        if (TRACK_OPTS.enableFrameProfiles && FRAME_PROFILES.length > 0) {
+        if (this.opts.enableFrameProfiles && this.frameProfiles.length > 0) {
             this.applyFrameProfiles();
         }
     }
@@ -309,7 +374,10 @@ export class Track {
     }
 
     private buildGeometry() {
-        // clear old
+        // clear old, releasing the previous generate()'s geometries and materials
+        // (item boxes reuse theirs, so they are detached first)
+        this.root.remove(this.itemBoxGroup);
+        disposeObject(this.root);
         this.root.clear();
 
         const segments = this.samples;
@@ -440,6 +508,11 @@ export class Track {
         // Position at the ship's starting location
         const startT = 0.0; // 0% along the track - where the ship starts
 
+        // Drop materials from a previous generate() (root was cleared by buildGeometry)
+        this.gateMaterials = [];
+        this.gateBaseOpacities = [];
+        this.gateFadeStartTime = null;
+
         const idx = Math.floor(startT * this.samples) % this.samples;
         const center = this.cachedPositions[idx];
         const up = this.cachedNormals[idx];
@@ -724,6 +797,14 @@ export class Track {
         }
     }
 
+    // Bring the start gate back for the next countdown
+    public resetGateFade() {
+        this.gateFadeStartTime = null;
+        this.gateMaterials.forEach((mat, index) => {
+            mat.opacity = this.gateBaseOpacities[index];
+        });
+    }
+
     public updateGateFade(currentTime: number) {
         if (this.gateFadeStartTime === null) return;
 
@@ -745,12 +826,19 @@ export class Track {
         }
     }
 
-    private buildTunnels() {
+    private buildTunnels(segments?: TunnelSegment[]) {
         // Clear old tunnels
         if (this.tunnels.parent) this.root.remove(this.tunnels);
         this.tunnels = new THREE.Group();
         this.tunnelSegments = [];
 
+        // Explicit placements (track files) skip the seeded layout
+        if (segments) {
+            segments.forEach(seg => this.addTunnel(seg));
+            this.root.add(this.tunnels);
+            return;
+        }
+
         const rnd = mulberry32(this.opts.seed + 1000); // different seed for tunnel placement
         const count = Math.floor(rnd() * (TUNNEL.countMax - TUNNEL.countMin + 1)) + TUNNEL.countMin;
 
@@ -804,29 +892,33 @@ export class Track {
 
             if (tunnelType === 'wormhole') wormholeCount++;
 
+            this.addTunnel({ startT, endT, lengthMeters, tunnelType });
+        }
 
-            this.tunnelSegments.push({ startT, endT, lengthMeters, tunnelType });
-
-            // Only create ring geometry for 'rings' type tunnels
-            if (tunnelType === 'rings') {
-                // Create tunnel tube geometry
-                const tunnelPoints: THREE.Vector3[] = [];
-                const segmentCount = Math.floor((lengthMeters / this.length) * this.samples);
+        this.root.add(this.tunnels);
+    }
 
-                for (let i = 0; i <= segmentCount; i++) {
-                    const t = startT + (i / segmentCount) * (lengthMeters / this.length);
-                    const idx = Math.floor(THREE.MathUtils.euclideanModulo(t, 1) * this.samples) % this.samples;
-                    tunnelPoints.push(this.cachedPositions[idx].clone());
-                }
+    private addTunnel(segment: TunnelSegment) {
+        const { startT, lengthMeters, tunnelType } = segment;
+        this.tunnelSegments.push({ ...segment });
 
-                const tunnelCurve = new THREE.CatmullRomCurve3(tunnelPoints, false, 'centripetal');
+        // Only create ring geometry for 'rings' type tunnels
+        if (tunnelType === 'rings') {
+            // Create tunnel tube geometry
+            const tunnelPoints: THREE.Vector3[] = [];
+            const segmentCount = Math.max(1, Math.floor((lengthMeters / this.length) * this.samples));
 
-                // Add decorative neon rings along the tunnel (no tube walls)
-                this.addTunnelRings(tunnelCurve, lengthMeters, startT);
+            for (let i = 0; i <= segmentCount; i++) {
+                const t = startT + (i / segmentCount) * (lengthMeters / this.length);
+                const idx = Math.floor(THREE.MathUtils.euclideanModulo(t, 1) * this.samples) % this.samples;
+                tunnelPoints.push(this.cachedPositions[idx].clone());
             }
-        }
 
-        this.root.add(this.tunnels);
+            const tunnelCurve = new THREE.CatmullRomCurve3(tunnelPoints, false, 'centripetal');
+
+            // Add decorative neon rings along the tunnel (no tube walls)
+            this.addTunnelRings(tunnelCurve, lengthMeters, startT);
+        }
     }
 
     private addTunnelRings(tunnelCurve: THREE.CatmullRomCurve3, lengthMeters: number, startT: number) {
@@ -1074,6 +1166,8 @@ export class Track {
             return angle / ds; // ≈ curvature
         };
 
+        this.collectShapeWarnings(pts, getKappa, limit);
+
         for (let it = 0; it < iters; it++) {
             for (let i = 0; i < n; i++) {
                 const kappa = getKappa(i);
@@ -1160,6 +1254,46 @@ export class Track {
         this.curve = new THREE.CatmullRomCurve3(pts, true, 'centripetal');
     }
 
+    // Record corners tighter than the limits and grades steeper than opts.maxGrade (before relaxing)
+    private collectShapeWarnings(pts: THREE.Vector3[], getKappa: (i: number) => number, limit: number) {
+        const n = pts.length;
+        const kappaMax = (this.opts.minTurnRadiusMeters && this.opts.minTurnRadiusMeters > 0)
+            ? 1 / this.opts.minTurnRadiusMeters : Infinity;
+        const limitEff = Math.min(limit, kappaMax);
+        const tight = new Uint8Array(n);
+        const steep = new Uint8Array(n);
+        const kappas = new Float32Array(n);
+        const grades = new Float32Array(n);
+        for (let i = 0; i < n; i++) {
+            kappas[i] = getKappa(i);
+            if (kappas[i] > limitEff) tight[i] = 1;
+            const next = pts[(i + 1) % n];
+            const run = Math.hypot(next.x - pts[i].x, next.z - pts[i].z);
+            grades[i] = Math.abs(next.y - pts[i].y) / Math.max(1e-4, run);
+            if (grades[i] > this.opts.maxGrade) steep[i] = 1;
+        }
+
+        for (const [a, b] of flaggedRuns(tight)) {
+            let worst = a;
+            for (let i = a; i <= b; i++) if (kappas[i] > kappas[worst]) worst = i;
+            const radius = 1 / Math.max(kappas[worst], 1e-6);
+            this.warnings.push({
+                kind: 'curvature',
+                t: worst / n,
+                message: `Corner too tight: radius ${radius.toFixed(0)} m (min ${(1 / limitEff).toFixed(0)} m), smoothed automatically`
+            });
+        }
+        for (const [a, b] of flaggedRuns(steep)) {
+            let worst = a;
+            for (let i = a; i <= b; i++) if (grades[i] > grades[worst]) worst = i;
+            this.warnings.push({
+                kind: 'grade',
+                t: worst / n,
+                message: `Grade too steep: ${(grades[worst] * 100).toFixed(0)}% (max ${(this.opts.maxGrade * 100).toFixed(0)}%)`
+            });
+        }
+    }
+
     // --- Self-repel pass to avoid pinched corners / near self-intersections ----
     private separateCloseSegments() {
         const clearance = this.opts.minClearanceMeters ?? 0;
@@ -1177,6 +1311,9 @@ export class Track {
         const clearance2 = clearance * clearance;
 
         const dir = new THREE.Vector3();
+        const pinched = new Uint8Array(n);
+        const pinchPartner = new Int32Array(n);
+        const pinchDistance = new Float32Array(n).fill(Infinity);
         for (let it = 0; it < iters; it++) {
             for (let i = 0; i < n; i++) {
                 // Local radius around i to limit pair checks
@@ -1187,6 +1324,12 @@ export class Track {
                     const d2 = pts[i].distanceToSquared(pts[j]);
                     if (d2 < clearance2) {
                         const d = Math.sqrt(Math.max(d2, 1e-8));
+                        // Remember the designer's original pinches (first pass only)
+                        if (it === 0 && d < pinchDistance[i]) {
+                            pinched[i] = 1;
+                            pinchPartner[i] = j;
+                            pinchDistance[i] = d;
+                        }
                         dir.subVectors(pts[j], pts[i]).multiplyScalar(1 / d);
                         const push = (clearance - d) / clearance;
                         const amt = 0.25 * push; // conservative
@@ -1214,12 +1357,22 @@ export class Track {
             }
         }
 
+        for (const [a, b] of flaggedRuns(pinched)) {
+            let worst = a;
+            for (let i = a; i <= b; i++) if (pinchDistance[i] < pinchDistance[worst]) worst = i;
+            this.warnings.push({
+                kind: 'pinch',
+                t: worst / n,
+                message: `Pinched: passes within ${pinchDistance[worst].toFixed(0)} m of t=${(pinchPartner[worst] / n).toFixed(3)} (min ${clearance} m), pushed apart`
+            });
+        }
+
         this.curve = new THREE.CatmullRomCurve3(pts, true, 'centripetal');
     }
 
     // --- Frame profiles --------------------------------------------------------
     private applyFrameProfiles() {
-        const sections = FRAME_PROFILES;
+        const sections = this.frameProfiles;
         if (!sections || sections.length === 0) return;
 
         const n = this.samples;
@@ -1427,14 +1580,96 @@ export class Track {
         return { inTunnel: false, progress: 0, centerAlignment: 0 };
     }
 
+    // NPC target lateral offset at t (see buildRacingLine)
+    public getRacingLineAtT(t: number): number {
+        if (this.racingLine.length === 0) return 0;
+        return this.racingLine[Math.floor(THREE.MathUtils.euclideanModulo(t, 1) * this.samples) % this.samples];
+    }
+
+    // Signed turn rate in rad/m at t; positive turns toward +lateralOffset
+    public getCurvatureAtT(t: number): number {
+        if (this.lineCurvature.length === 0) return 0;
+        return this.lineCurvature[Math.floor(THREE.MathUtils.euclideanModulo(t, 1) * this.samples) % this.samples];
+    }
+
+    // Racing line from the cached frames: hug the inside of corners (deeper where the track
+    // banks), move over leadMeters before the corner, and run tunnel centres for the boost
+    private buildRacingLine() {
+        const n = this.samples;
+        const ds = this.length / n;
+        const smoothRadius = Math.round(RACING_LINE.smoothMeters / ds);
+
+        const turn = new Array<number>(n);
+        for (let i = 0; i < n; i++) {
+            turn[i] = this.cachedTangents[(i + 1) % n].dot(this.cachedBinormals[i]) / ds;
+        }
+        this.lineCurvature = smoothLoop(turn, smoothRadius);
+
+        const half = this.width * 0.5;
+        const lead = Math.round(RACING_LINE.leadMeters / ds);
+        const apex = new Array<number>(n);
+        for (let i = 0; i < n; i++) {
+            const j = (i + lead) % n;
+            const k = this.lineCurvature[j];
+            const depth = Math.min(1, Math.abs(k) / this.opts.maxCurvature) * (1 + RACING_LINE.bankApexGain * Math.abs(this.cachedBank[j]));
+            apex[i] = Math.sign(k) * Math.min(RACING_LINE.maxFraction, RACING_LINE.apexFraction * depth) * half;
+        }
+        const line = smoothLoop(apex, smoothRadius);
+
+        // Tunnels pull the line to the centre, eased over tunnelBlendMeters either side
+        const blendT = RACING_LINE.tunnelBlendMeters / this.length;
+        for (let i = 0; i < n; i++) {
+            const t = i / n;
+            let weight = 0;
+            for (const tunnel of this.tunnelSegments) {
+                const span = THREE.MathUtils.euclideanModulo(tunnel.endT - tunnel.startT, 1);
+                const into = THREE.MathUtils.euclideanModulo(t - tunnel.startT, 1);
+                if (into <= span) {
+                    weight = 1;
+                    break;
+                }
+                // Distance to the nearer end outside the tunnel
+                const gap = Math.min(THREE.MathUtils.euclideanModulo(tunnel.startT - t, 1), into - span);
+                weight = Math.max(weight, THREE.MathUtils.smoothstep(1 - gap / blendT, 0, 1));
+            }
+            line[i] *= 1 - weight;
+        }
+        this.racingLine = line;
+    }
+
+    // Gate i sits at t = i / count (t is arc-length parameterized, so gates are evenly spaced)
     public getCheckpointCount(): number {
-        return 16;
+        return this.checkpointCount;
     }
 
     public getTunnelSegments(): TunnelSegment[] {
         return this.tunnelSegments;
     }
 
+    public getBoostPads(): BoostPadSegment[] {
+        return this.boostPads;
+    }
+
+    public getRamps(): RampSegment[] {
+        return this.ramps;
+    }
+
+    public getControlPoints(): THREE.Vector3[] {
+        return this.controlPoints;
+    }
+
+    public getOptions(): TrackOptions {
+        return this.opts;
+    }
+
+    public getFrameProfiles(): FrameProfileSection[] {
+        return this.frameProfiles;
+    }
+
+    public getWarnings(): TrackWarning[] {
+        return this.warnings;
+    }
+
     // Check if any track segments are inside the event horizon
     public isTrackInsideEventHorizon(eventHorizonRadius: number, sampleCount: number = 100): boolean {
         // Sample track positions to check if any are inside
@@ -1486,12 +1721,21 @@ export class Track {
         return target;
     }
 
-    private buildBoostPads() {
+    private buildBoostPads(placements?: BoostPadSegment[]) {
         // Clear old boost pads
         if (this.boostPadGroup.parent) this.root.remove(this.boostPadGroup);
         this.boostPadGroup = new THREE.Group();
         this.boostPads = [];
 
+        if (placements) {
+            placements.forEach(pad => {
+                this.boostPads.push({ t: pad.t, lengthT: pad.lengthT });
+                this.createBoostPadVisual(pad.t, pad.lengthT);
+            });
+            this.root.add(this.boostPadGroup);
+            return;
+        }
+
         // Minimum distance from start before boost pads appear
         const minStartOffset = BOOST_PAD.minStartOffset; // meters
         const minStartT = minStartOffset / this.length;
@@ -1518,13 +1762,22 @@ export class Track {
         this.root.add(this.boostPadGroup);
     }
 
-    private buildRamps() {
+    private buildRamps(placements?: RampSegment[]) {
         // Clear old ramps
         if (this.rampGroup.parent) this.root.remove(this.rampGroup);
         this.rampGroup = new THREE.Group();
         this.ramps = [];
         this.rampChevronMaterials = [];
 
+        if (placements) {
+            placements.forEach(ramp => {
+                this.ramps.push({ t: ramp.t, lengthT: ramp.lengthT });
+                this.createRampVisual(ramp.t, ramp.lengthT);
+            });
+            this.root.add(this.rampGroup);
+            return;
+        }
+
         const minStartT = RAMP.minStartOffset / this.length;
         const count = Math.max(1, RAMP.count | 0);
         const segLengthT = RAMP.lengthMeters / this.length;
@@ -1548,6 +1801,81 @@ export class Track {
         this.root.add(this.rampGroup);
     }
 
+    // Item boxes are procedural (not saved in track files): rows spread around the lap, clear of tunnels
+    private buildItemBoxes() {
+        if (this.itemBoxGroup.parent) this.root.remove(this.itemBoxGroup);
+        this.itemBoxGroup.clear();
+        this.itemBoxes = [];
+
+        const minStartT = ITEMS.minStartOffset / this.length;
+        const count = Math.max(1, ITEMS.rowCount | 0);
+        const perRow = Math.max(1, ITEMS.boxesPerRow | 0);
+        const tStep = 5 / this.length; // 5m forward step when nudging out of tunnels
+        const spread = this.width * 0.35;
+
+        for (let i = 0; i < count; i++) {
+            let t = THREE.MathUtils.euclideanModulo(minStartT + i * (1 / count), 1);
+
+            let tries = 0;
+            const maxTries = Math.ceil(1 / tStep) + 2;
+            while (this.isTInAnyTunnel(t) && tries < maxTries) {
+                t = THREE.MathUtils.euclideanModulo(t + tStep, 1);
+                tries++;
+            }
+
+            const idx = Math.floor(t * this.samples) % this.samples;
+            const normal = this.cachedNormals[idx];
+            for (let j = 0; j < perRow; j++) {
+                const lateralOffset = perRow === 1 ? 0 : THREE.MathUtils.lerp(-spread, spread, j / (perRow - 1));
+                const mesh = new THREE.Mesh(this.itemBoxGeometry, this.itemBoxMaterial);
+                this.getShipWorldPosition(t, lateralOffset, mesh.position).addScaledVector(normal, ITEMS.hoverHeight);
+                mesh.rotation.set(Math.PI / 4, 0, Math.PI / 4);
+                this.itemBoxGroup.add(mesh);
+                this.itemBoxes.push({ t, lateralOffset, cooldown: 0, mesh });
+            }
+        }
+
+        this.root.add(this.itemBoxGroup);
+    }
+
+    // Claims an available box within pickup reach; it hides until it respawns
+    public collectItemBox(t: number, lateralOffset: number): boolean {
+        for (const box of this.itemBoxes) {
+            if (box.cooldown > 0) continue;
+            let dT = THREE.MathUtils.euclideanModulo(t - box.t, 1);
+            if (dT > 0.5) dT -= 1;
+            if (Math.abs(dT * this.length) > ITEMS.pickupRadius) continue;
+            if (Math.abs(lateralOffset - box.lateralOffset) > ITEMS.pickupRadius) continue;
+            box.cooldown = ITEMS.respawnSec;
+            box.mesh.visible = false;
+            return true;
+        }
+        return false;
+    }
+
+    // Spin the boxes and count down collected ones
+    public updateItemBoxes(dt: number) {
+        for (const box of this.itemBoxes) {
+            box.mesh.rotation.y += ITEMS.spinSpeed * dt;
+            if (box.cooldown > 0) {
+                box.cooldown = Math.max(0, box.cooldown - dt);
+                if (box.cooldown === 0) box.mesh.visible = true;
+            }
+        }
+    }
+
+    // Hidden in modes without items (time trial)
+    public setItemBoxesEnabled(enabled: boolean) {
+        this.itemBoxGroup.visible = enabled;
+    }
+
+    public resetItemBoxes() {
+        for (const box of this.itemBoxes) {
+            box.cooldown = 0;
+            box.mesh.visible = true;
+        }
+    }
+
     private isTInAnyTunnel(t: number): boolean {
         const normalizedT = THREE.MathUtils.euclideanModulo(t, 1);
         for (const tunnel of this.tunnelSegments) {
@@ -0,0 +1,208 @@
+import * as THREE from 'three';
+import { TRACK_FILE, TRACK_OPTS } from './constants';
+import type { Track } from './Track';
+import type { BoostPadSegment, FrameProfileSection, RampSegment, TrackFile, TrackFileFrameProfile, TrackLayout, TrackOptions, TunnelSegment } from './types';
+
+// Snapshot the currently generated track into a portable file
+export function serializeTrack(track: Track, name: string): TrackFile {
+    return {
+        format: TRACK_FILE.format,
+        version: TRACK_FILE.version,
+        name,
+        options: { ...track.getOptions() },
+        controlPoints: track.getControlPoints().map(p => [p.x, p.y, p.z] as [number, number, number]),
+        frameProfiles: track.getFrameProfiles()
+            .map(serializeFrameProfile)
+            .filter((p): p is TrackFileFrameProfile => p !== null),
+        tunnels: track.getTunnelSegments().map(s => ({ ...s })),
+        boostPads: track.getBoostPads().map(p => ({ ...p })),
+        ramps: track.getRamps().map(r => ({ ...r }))
+    };
+}
+
+// Validate untrusted JSON and upgrade it to the current schema. Throws with a readable message.
+export function parseTrackFile(data: unknown): TrackFile {
+    if (!isObject(data)) throw new Error('Track file is not a JSON object');
+    if (data.format !== TRACK_FILE.format) throw new Error(`Not a track file (format "${String(data.format)}")`);
+    const version = data.version;
+    if (typeof version !== 'number' || version < 1) throw new Error('Track file has no valid version');
+    if (version > TRACK_FILE.version) throw new Error(`Track file version ${version} is newer than supported (${TRACK_FILE.version})`);
+
+    const controlPoints = asArray(data.controlPoints, 'controlPoints').map((p, i) => {
+        if (!Array.isArray(p) || p.length !== 3 || !p.every(isFiniteNumber)) {
+            throw new Error(`controlPoints[${i}] must be [x, y, z]`);
+        }
+        return [p[0], p[1], p[2]] as [number, number, number];
+    });
+    if (controlPoints.length < 4) throw new Error('Track file needs at least 4 control points');
+
+    const options = parseOptions(data.options ?? {});
+
+    return {
+        format: TRACK_FILE.format,
+        version: TRACK_FILE.version,
+        name: typeof data.name === 'string' ? data.name : 'Untitled',
+        options,
+        controlPoints,
+        frameProfiles: asArray(data.frameProfiles ?? [], 'frameProfiles').map((p, i) => parseFrameProfile(p, i)),
+        tunnels: asArray(data.tunnels ?? [], 'tunnels').map((s, i) => parseTunnel(s, i)),
+        boostPads: asArray(data.boostPads ?? [], 'boostPads').map((s, i) => parseSegment(s, `boostPads[${i}]`)),
+        ramps: asArray(data.ramps ?? [], 'ramps').map((s, i) => parseSegment(s, `ramps[${i}]`))
+    };
+}
+
+export function trackFileToLayout(file: TrackFile): TrackLayout {
+    return {
+        controlPoints: file.controlPoints.map(([x, y, z]) => new THREE.Vector3(x, y, z)),
+        frameProfiles: file.frameProfiles.map(p => ({
+            startT: p.startT,
+            endT: p.endT,
+            rollDeg: p.rollDeg,
+            twistDeg: p.twistDeg,
+            upBias: p.upBias ? new THREE.Vector3(p.upBias[0], p.upBias[1], p.upBias[2]) : undefined,
+            feather: p.feather
+        })),
+        tunnels: file.tunnels,
+        boostPads: file.boostPads,
+        ramps: file.ramps
+    };
+}
+
+// Stable id for ghosts/records: same geometry and placements → same id
+export function trackFileId(file: TrackFile): string {
+    const json = JSON.stringify([file.options, file.controlPoints, file.frameProfiles, file.tunnels, file.boostPads, file.ramps]);
+    let hash = 5381;
+    for (let i = 0; i < json.length; i++) {
+        hash = (Math.imul(hash, 33) ^ json.charCodeAt(i)) >>> 0;
+    }
+    return `file-${hash.toString(16)}`;
+}
+
+export async function fetchTrackFile(url: string): Promise<TrackFile> {
+    const res = await fetch(url);
+    if (!res.ok) throw new Error(`Failed to fetch track file (${res.status})`);
+    return parseTrackFile(await res.json());
+}
+
+export async function readTrackFile(file: File): Promise<TrackFile> {
+    const text = await file.text();
+    let json: unknown;
+    try {
+        json = JSON.parse(text);
+    } catch {
+        throw new Error(`${file.name} is not valid JSON`);
+    }
+    return parseTrackFile(json);
+}
+
+export function downloadTrackFile(file: TrackFile) {
+    const blob = new Blob([JSON.stringify(file, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = (file.name.replace(/[^a-z0-9-_]+/gi, '_') || 'track') + TRACK_FILE.extension;
+    a.click();
+    URL.revokeObjectURL(url);
+}
+
+// --- Helpers -----------------------------------------------------------------
+
+function serializeFrameProfile(p: FrameProfileSection): TrackFileFrameProfile | null {
+    if (typeof p.rollDeg === 'function' || typeof p.twistDeg === 'function' || typeof p.upBias === 'function') {
+        console.warn('Skipping frame profile with function values; only numeric profiles can be exported', p);
+        return null;
+    }
+    return {
+        startT: p.startT,
+        endT: p.endT,
+        rollDeg: p.rollDeg,
+        twistDeg: p.twistDeg,
+        upBias: p.upBias ? [p.upBias.x, p.upBias.y, p.upBias.z] : undefined,
+        feather: p.feather
+    };
+}
+
+function parseFrameProfile(p: unknown, i: number): TrackFileFrameProfile {
+    const where = `frameProfiles[${i}]`;
+    if (!isObject(p)) throw new Error(`${where} must be an object`);
+    const upBias = p.upBias;
+    if (upBias !== undefined && (!Array.isArray(upBias) || upBias.length !== 3 || !upBias.every(isFiniteNumber))) {
+        throw new Error(`${where}.upBias must be [x, y, z]`);
+    }
+    return {
+        startT: requireT(p.startT, `${where}.startT`),
+        endT: requireT(p.endT, `${where}.endT`),
+        rollDeg: optionalNumber(p.rollDeg, `${where}.rollDeg`),
+        twistDeg: optionalNumber(p.twistDeg, `${where}.twistDeg`),
+        upBias: upBias as [number, number, number] | undefined,
+        feather: optionalNumber(p.feather, `${where}.feather`)
+    };
+}
+
+// Missing options fall back to defaults so older files keep loading when options are added;
+// unknown keys are dropped and numbers clamped to TRACK_FILE.optionRanges
+function parseOptions(o: unknown): TrackOptions {
+    if (!isObject(o)) throw new Error('options must be an object');
+    const options: Record<string, unknown> = { ...TRACK_OPTS };
+    for (const key of Object.keys(TRACK_OPTS)) {
+        const v = o[key];
+        if (v === undefined) continue;
+        const range = TRACK_FILE.optionRanges[key];
+        if (range) {
+            if (!isFiniteNumber(v)) throw new Error(`options.${key} must be a number`);
+            const clamped = Math.min(Math.max(v, range.min), range.max);
+            options[key] = range.integer ? Math.round(clamped) : clamped;
+        } else if (typeof v === typeof TRACK_OPTS[key as keyof TrackOptions]) {
+            options[key] = v;
+        } else {
+            throw new Error(`options.${key} must be a ${typeof TRACK_OPTS[key as keyof TrackOptions]}`);
+        }
+    }
+    if ((options.radiusMax as number) < (options.radiusMin as number)) options.radiusMax = options.radiusMin;
+    return options as TrackOptions;
+}
+
+function parseTunnel(s: unknown, i: number): TunnelSegment {
+    const where = `tunnels[${i}]`;
+    if (!isObject(s)) throw new Error(`${where} must be an object`);
+    if (s.tunnelType !== 'rings' && s.tunnelType !== 'wormhole') throw new Error(`${where}.tunnelType must be "rings" or "wormhole"`);
+    const lengthMeters = s.lengthMeters;
+    if (!isFiniteNumber(lengthMeters) || lengthMeters <= 0) throw new Error(`${where}.lengthMeters must be positive`);
+    return {
+        startT: requireT(s.startT, `${where}.startT`),
+        endT: requireT(s.endT, `${where}.endT`),
+        lengthMeters,
+        tunnelType: s.tunnelType
+    };
+}
+
+function parseSegment(s: unknown, where: string): BoostPadSegment & RampSegment {
+    if (!isObject(s)) throw new Error(`${where} must be an object`);
+    const lengthT = s.lengthT;
+    if (!isFiniteNumber(lengthT) || lengthT <= 0 || lengthT >= 1) throw new Error(`${where}.lengthT must be in (0, 1)`);
+    return { t: requireT(s.t, `${where}.t`), lengthT };
+}
+
+function requireT(v: unknown, where: string): number {
+    if (!isFiniteNumber(v) || v < 0 || v > 1) throw new Error(`${where} must be a number in [0, 1]`);
+    return v;
+}
+
+function optionalNumber(v: unknown, where: string): number | undefined {
+    if (v === undefined) return undefined;
+    if (!isFiniteNumber(v)) throw new Error(`${where} must be a number`);
+    return v;
+}
+
+function asArray(v: unknown, where: string): unknown[] {
+    if (!Array.isArray(v)) throw new Error(`${where} must be an array`);
+    return v;
+}
+
+function isObject(v: unknown): v is Record<string, unknown> {
+    return typeof v === 'object' && v !== null && !Array.isArray(v);
+}
+
+function isFiniteNumber(v: unknown): v is number {
+    return typeof v === 'number' && Number.isFinite(v);
+}
@@ -1,10 +1,29 @@
-import { ShipState } from './types';
+import { InputAction, ItemKind, ShipState, StyleCombo, StyleTrick } from './types';
 import { SpeedometerGauge } from './ui/SpeedometerGauge';
 import { MinimapGauge } from './ui/MinimapGauge';
 import { Track } from './Track';
+import { SPLITS } from './constants';
+import { formatKeyCode, type InputBindings } from './InputBindings';
+
+const ITEM_LABELS: Record<ItemKind, string> = {
+    emp: 'EMP',
+    mine: 'MINE',
+    shield: 'SHIELD',
+    boost: 'BOOST'
+};
+
+const TRICK_LABELS: Record<StyleTrick, string> = {
+    drift: 'DRIFT',
+    air: 'AIR',
+    tunnel: 'TUNNEL',
+    draft: 'DRAFT',
+    nearMiss: 'NEAR MISS',
+    trick: 'TRICK'
+};
 
 export class UI {
     private speedometerGauge: SpeedometerGauge;
+    private bindings: InputBindings; // key names for the HUD hints
     private minimapGauge: MinimapGauge | null = null;
     private startEl = document.getElementById('start')!;
     private pauseMenuEl = document.getElementById('pauseMenu')!;
@@ -35,29 +54,40 @@ export class UI {
     private debugDistantStarsEl = document.getElementById('debugDistantStars')!;
     private debugTotalStarsEl = document.getElementById('debugTotalStars')!;
     private debugShipSpeedEl = document.getElementById('debugShipSpeed')!;
+    private debugOverlayEl = document.getElementById('debugOverlay');
+    private debugRubberBandEl = document.getElementById('debugRubberBand');
     private boostLabel: HTMLDivElement;
     private flowLabel: HTMLDivElement;
+    private shieldLabel: HTMLDivElement;
     private instructionLabel: HTMLDivElement;
     private raceInfoEl: HTMLElement | null = null;
     private racePositionEl: HTMLElement | null = null;
     private lastLapTimeEl: HTMLElement | null = null;
+    private lapDeltaEl: HTMLElement | null = null;
     private pausedLabelEl: HTMLElement | null = null;
     private draftingLabelEl: HTMLDivElement | null = null;
     private draftLockHintEl: HTMLDivElement | null = null;
+    private itemSlotEl = document.getElementById('itemSlot');
+    private itemSlotNameEl = document.getElementById('itemSlotName');
+    private styleTotalEl = document.getElementById('styleTotal');
+    private styleComboEl = document.getElementById('styleCombo');
 
-    constructor() {
+    constructor(bindings: InputBindings) {
+        this.bindings = bindings;
         // Initialize speedometer gauge
         this.speedometerGauge = new SpeedometerGauge('speedometerCanvas');
 
         // Get label elements
         this.boostLabel = document.querySelector('.speedometer-container .boost-label')! as HTMLDivElement;
         this.flowLabel = document.querySelector('.speedometer-container .flow-label')! as HTMLDivElement;
+        this.shieldLabel = document.querySelector('.speedometer-container .shield-label')! as HTMLDivElement;
         this.instructionLabel = document.querySelector('.speedometer-container .instruction-label')! as HTMLDivElement;
 
         // Get race info elements
         this.raceInfoEl = document.getElementById('raceInfo');
         this.racePositionEl = document.getElementById('racePosition');
         this.lastLapTimeEl = document.getElementById('lastLapTime');
+        this.lapDeltaEl = document.getElementById('lapDelta');
         this.pausedLabelEl = document.getElementById('pausedLabel');
 
         // Log if elements are not found (for debugging)
@@ -156,6 +186,18 @@ export class UI {
 
     }
 
+    // Whole HUD layer (photo mode); setHudVisible only covers the speedometer
+    setHudLayerVisible(visible: boolean) {
+        const hud = document.getElementById('hud');
+        if (hud) hud.style.display = visible ? '' : 'none';
+    }
+
+    // First key bound to action as a quoted hint, e.g. 'F'; null when unbound
+    private keyHint(action: InputAction): string | null {
+        const key = this.bindings.getKeys(action)[0];
+        return key ? `'${formatKeyCode(key)}'` : null;
+    }
+
     // Show/hide DRAFTING label
     showDrafting(active: boolean) {
         if (!this.draftingLabelEl) return;
@@ -182,9 +224,31 @@ export class UI {
         }
     }
 
-    update(state: ShipState, focusRefillActive: boolean, focusRefillProgress: number, boostRechargeDelay: number = 0, holdingBoost: boolean = false) {
+    // Held combat item; the slot itself is only shown in modes with item boxes
+    setItemSlotVisible(visible: boolean) {
+        this.itemSlotEl?.classList.toggle('hidden', !visible);
+    }
+
+    setItem(kind: ItemKind | null) {
+        if (!this.itemSlotEl || !this.itemSlotNameEl) return;
+        this.itemSlotEl.classList.toggle('has-item', kind !== null);
+        this.itemSlotNameEl.textContent = kind ? ITEM_LABELS[kind] : '-';
+    }
+
+    // Banked style points plus the running combo while one is active
+    setStyle(total: number, combo: StyleCombo) {
+        if (this.styleTotalEl) this.styleTotalEl.textContent = `STYLE ${total.toLocaleString()}`;
+        if (!this.styleComboEl) return;
+        this.styleComboEl.classList.toggle('hidden', combo.trick === null);
+        if (combo.trick !== null) {
+            this.styleComboEl.textContent = `${TRICK_LABELS[combo.trick]} +${combo.points.toLocaleString()} x${combo.multiplier.toFixed(1)}`;
+        }
+    }
+
+    update(state: ShipState, focusRefillActive: boolean, focusRefillProgress: number, boostRechargeDelay: number = 0, holdingBoost: boolean = false, shieldActive: boolean = false) {
         // Update speedometer gauge with all values including lap info
         this.speedometerGauge.setValues(state.speedKmh, state.boostLevel, state.flow, state.lapCurrent, state.lapTotal);
+        this.speedometerGauge.setHull(state.hull);
 
         // Update focus refill state
         this.speedometerGauge.setFocusRefill(focusRefillActive, focusRefillProgress);
@@ -207,9 +271,11 @@ export class UI {
             this.boostLabel.classList.remove('higher');
         }
 
+        this.shieldLabel.classList.toggle('hidden', !shieldActive);
+
         // Determine instruction messaging priority:
         // 1) If boost is empty and player is still holding boost, prompt to disengage to recharge
-        // 2) Else if flow is nearly full, prompt to press F to recharge boost
+        // 2) Else if flow is nearly full, prompt to spend it on a boost refill or a shield
         const boostEmptyAndHeld = state.boostLevel <= 0.01 && holdingBoost && !state.boosting;
         if (boostEmptyAndHeld) {
             // Hide MAX FLOW label to avoid clutter when showing disengage hint
@@ -218,7 +284,12 @@ export class UI {
             this.instructionLabel.classList.remove('hidden');
         } else if (state.flow >= 0.95) {
             this.flowLabel.classList.remove('hidden');
-            this.instructionLabel.textContent = "PRESS 'F' TO RECHARGE BOOST";
+            // Key names follow the player's bindings (an unbound action shows without one)
+            const refill = this.keyHint('focusRefill');
+            const shield = this.keyHint('shield');
+            this.instructionLabel.textContent = shieldActive
+                ? (refill ? `PRESS ${refill} TO RECHARGE BOOST` : 'RECHARGE BOOST READY')
+                : `${refill ? `${refill} ` : ''}RECHARGE BOOST · ${shield ? `${shield} ` : ''}SHIELD`;
             this.instructionLabel.classList.remove('hidden');
         } else {
             this.flowLabel.classList.add('hidden');
@@ -466,7 +537,16 @@ export class UI {
         }
     }
 
-    updateRaceInfo(position: number, lastLapTime: number, totalRacers: number) {
+    // Applied NPC catch-up multipliers; skipped while the F9 overlay is hidden
+    updateRubberBandDebug(entries: Array<{ racerId: string; multiplier: number }>) {
+        if (!this.debugRubberBandEl || this.debugOverlayEl?.style.display === 'none') return;
+        this.debugRubberBandEl.textContent = entries.length > 0
+            ? entries.map(e => `${e.racerId} ×${e.multiplier.toFixed(3)}`).join('  ')
+            : '-';
+    }
+
+    // delta: seconds against the personal best at the same point of the lap (null = no best yet)
+    updateRaceInfo(position: number, lastLapTime: number, totalRacers: number, delta: number | null = null) {
         // Ensure elements are found (retry if needed)
         if (!this.racePositionEl) {
             this.racePositionEl = document.getElementById('racePosition');
@@ -505,6 +585,16 @@ export class UI {
                 this.lastLapTimeEl.textContent = '-';
             }
         }
+
+        if (this.lapDeltaEl) {
+            if (delta === null) {
+                this.lapDeltaEl.textContent = '-';
+                this.lapDeltaEl.style.color = '';
+            } else {
+                this.lapDeltaEl.textContent = `${delta < 0 ? '-' : '+'}${Math.abs(delta).toFixed(2)}`;
+                this.lapDeltaEl.style.color = delta < 0 ? SPLITS.aheadColor : SPLITS.behindColor;
+            }
+        }
     }
 
     setRaceInfoVisible(visible: boolean) {
@@ -558,6 +648,10 @@ export class UI {
         }
     }
 
+    refreshMinimap() {
+        this.minimapGauge?.refresh();
+    }
+
     updateMinimap(playerState: ShipState, npcStates: Array<{ state: ShipState; color: string }>) {
         if (this.minimapGauge) {
             this.minimapGauge.updateShips(playerState, npcStates);
@@ -1,6 +1,7 @@
 import * as THREE from 'three';
 import { Track } from './Track';
 import { WORMHOLE } from './constants';
+import { mulberry32 } from './Random';
 
 export class WormholeTunnel {
     public root = new THREE.Group();
@@ -14,16 +15,6 @@ export class WormholeTunnel {
         this.buildWormholeTunnels();
     }
 
-    private mulberry32(seed: number) {
-        let t = seed >>> 0;
-        return () => {
-            t += 0x6D2B79F5;
-            let r = Math.imul(t ^ (t >>> 15), 1 | t);
-            r ^= r + Math.imul(r ^ (r >>> 7), 61 | r);
-            return ((r ^ (r >>> 14)) >>> 0) / 4294967296;
-        };
-    }
-
     private buildWormholeTunnels() {
         // Get tunnel segments from track
         const tunnelSegments = this.track.getTunnelSegments();
@@ -63,7 +54,7 @@ export class WormholeTunnel {
             let dotIndex = 0;
 
             // Seeded random for consistent but varied dot placement
-            const dotRnd = this.mulberry32(segment.startT * 10000);
+            const dotRnd = mulberry32(segment.startT * 10000);
 
             // Generate dot positions along tunnel
             for (let i = 0; i < dotsAlongLength; i++) {
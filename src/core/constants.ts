@@ -1,5 +1,5 @@
 import { Color, Vector3 } from 'three';
-import type { TrackOptions, FrameProfileSection } from './types';
+import type { AIDifficulty, AISkill, CameraMode, CameraModeSettings, CameraSettings, RubberBandCurve, TrackOptions, FrameProfileSection, InputAction, InputBindingMap, ItemKind, LiveryDecal, ShipClassDef, ShipClassId, ShipLivery } from './types';
 
 export const COLORS = {
     bgDeep: new Color(0x0a0324),
@@ -28,6 +28,30 @@ export const CAMERA = {
     shipYawFromInput: 0.65  // How much ship rotates based on turning (radians)
 };
 
+// In-race camera modes (camera-cycle key), remembered between races. Each mode is scaled from
+// the CAMERA chase values so retuning those moves every view with them.
+export const CAMERA_MODES = {
+    storageKey: 'cosmicdrift.camera',
+    order: ['chase-near', 'chase-far', 'bumper', 'tactical'] as CameraMode[],
+    labels: { 'chase-near': 'NEAR CHASE', 'chase-far': 'FAR CHASE', bumper: 'BUMPER', tactical: 'TACTICAL' } as Record<CameraMode, string>,
+    defaults: { mode: 'chase-near', mirror: false } as CameraSettings,
+    modes: {
+        'chase-near': { distance: CAMERA.chaseDistance, height: CAMERA.chaseHeight, lookAhead: CAMERA.lookAheadDistance, rigid: false, hideShip: false, topDown: false },
+        'chase-far': { distance: CAMERA.chaseDistance * 2.2, height: CAMERA.chaseHeight * 1.6, lookAhead: CAMERA.lookAheadDistance * 2.5, rigid: false, hideShip: false, topDown: false },
+        bumper: { distance: -CAMERA.chaseDistance * 0.4, height: CAMERA.chaseHeight * 0.25, lookAhead: CAMERA.lookAheadDistance * 5, rigid: true, hideShip: true, topDown: false },
+        tactical: { distance: 0, height: CAMERA.chaseHeight * 25, lookAhead: CAMERA.lookAheadDistance * 4, rigid: false, hideShip: false, topDown: true }
+    } as Record<CameraMode, CameraModeSettings>,
+    // Rear-view mirror, rendered without post effects into a strip at the top of the screen
+    mirror: {
+        widthFraction: 0.3, // of the canvas width
+        aspect: 3.5, // width / height
+        topMargin: 16, // px
+        fov: 50,
+        height: CAMERA.chaseHeight * 0.4, // eye above the ship
+        lookBehind: CAMERA.lookAheadDistance * 4 // meters back down the track
+    }
+};
+
 export const PHYSICS = {
     baseSpeed: 236, // km/h visualized in HUD (convert to m/s inside) - reduced 25% from 315
     maxSpeed: 405, // reduced 25% from 540 to maintain proportional relationship
@@ -83,6 +107,71 @@ export const PHYSICS = {
     yawFromBankGain: 0.9 // radians of yaw per radian of bank (subtle)
 };
 
+// Ship classes: overrides of PHYSICS and DRIFT per ship (balanced uses the tables as they are)
+export const SHIP_CLASSES: Record<ShipClassId, ShipClassDef> = {
+    light: {
+        name: 'LIGHT',
+        description: 'Quick off the line and sharp in the turns, lower top speed',
+        physics: {
+            maxSpeed: 380,
+            maxNonBoostKmh: 235,
+            throttleAccelKmhPerSec: 230,
+            boostRegenPerSec: 0.32,
+            lateralAccel: 20.0
+        },
+        drift: {
+            driftGripFactor: 0.5,
+            flowRefillRate: 0.22
+        }
+    },
+    balanced: {
+        name: 'BALANCED',
+        description: 'The reference tune',
+        physics: {},
+        drift: {}
+    },
+    heavy: {
+        name: 'HEAVY',
+        description: 'Slow to build speed but the fastest flat out, with long boosts',
+        physics: {
+            maxSpeed: 430,
+            maxNonBoostKmh: 265,
+            throttleAccelKmhPerSec: 140,
+            boostDurationSec: 3.6,
+            boostRegenPerSec: 0.2,
+            lateralAccel: 13.0
+        },
+        drift: {
+            driftGripFactor: 0.32,
+            flowRefillRate: 0.15
+        }
+    }
+};
+
+export const SHIP_CLASS = {
+    storageKey: 'cosmicdrift.shipClass', // the player's chosen class
+    defaultClass: 'balanced' as ShipClassId
+};
+
+// Player ship paint job (see ShipLivery)
+export const LIVERY = {
+    storageKey: 'cosmicdrift.livery', // last saved livery
+    palette: ['#53d7ff', '#ff2bd6', '#ffd23f', '#7cff6b', '#9b5cff', '#ff5a36', '#33a6ff', '#ffffff'],
+    decals: ['none', 'stripe', 'chevron', 'checker'] as LiveryDecal[],
+    defaults: {
+        hullColor: '#53d7ff', // neon cyan
+        accentColor: '#53d7ff',
+        trailColor: '#ff2bd6', // matches DRIFT.trailColor
+        flameColor: '#33a6ff', // stock blue jet flame
+        decal: 'none'
+    } as ShipLivery,
+    accentIntensity: 0.8, // hull emissive = accent * this
+    edgeIntensity: 0.35, // edge lines take a dark shade of the accent
+    boosterShade: 0.4, // booster body = hull * this
+    decalSize: 128, // decal canvas px
+    decalInk: '#1a1a24' // decal paint; multiplies the hull colour
+};
+
 export const RENDER = {
     targetFPS: 60,
     maxPixelRatio: 1.75
@@ -223,6 +312,16 @@ export const WORMHOLE = {
     glowIntensity: 1.3 // brightness multiplier (reduced to avoid white glow)
 };
 
+// NPC racing line, precomputed per track from the cached frames (Track.getRacingLineAtT)
+export const RACING_LINE = {
+    apexFraction: 0.7, // share of the half-width used at the apex of the tightest corners
+    maxFraction: 0.85, // never closer to the edge than this
+    bankApexGain: 0.5, // banked corners let the line sit deeper (per radian of bank)
+    leadMeters: 40, // the line moves to the inside this far before the corner
+    smoothMeters: 60, // box filter half-window so the line flows
+    tunnelBlendMeters: 40 // ease onto the tunnel centre before entry and off after exit
+};
+
 // Ramp launch configuration
 export const RAMP = {
     count: 4, // four evenly spaced ramps
@@ -240,6 +339,19 @@ export const RAMP = {
     glowIntensity: 1.3
 };
 
+// Airborne tricks after a ramp launch: steer barrel-rolls, drift flips
+export const TRICKS = {
+    rollRate: 10, // rad/s barrel roll while steering in the air
+    flipRate: 8, // rad/s flip while holding drift in the air
+    minAirHeight: 1, // meters above hover before trick inputs respond
+    landingHeight: 0.3, // back down to this height ends the jump
+    landingTolerance: 0.5, // rad off a full turn that still lands clean
+    boostRewardPerRotation: 0.25, // boost energy per completed rotation on a clean landing
+    badLandingSpeedLoss: 0.35, // fraction of speed lost landing mid-rotation
+    npcTrickChance: 0.35, // per NPC ramp launch
+    npcRollSec: 0.7 // one NPC barrel roll
+};
+
 // Planet visual effects configuration
 export const PLANET_EFFECTS = {
     // Effect enable/disable flags
@@ -455,6 +567,13 @@ export const NPC = {
     // Lane change cadence
     laneChangeIntervalMinSec: 4.5,
     laneChangeIntervalMaxSec: 9.0,
+    // Racing line error at zero accuracy (sway and jitter scale the same way)
+    maxLineErrorMeters: 5,
+    lineLookAheadMeters: 12, // aim at the racing line this far ahead
+    // Boost timing (disciplined boosts only)
+    boostCornerLookAheadMeters: 120, // hold boost if a corner starts within this distance
+    boostCornerCurvature: 0.4, // share of TrackOptions.maxCurvature that counts as a corner
+    boostPadSaveMeters: 80, // save boost when a pad is this close, fire it on the pad exit
     // Drafting (align to target ahead)
     draftEngageDistanceMeters: 60,
     draftAlignTolerance: 2.2, // meters lateral
@@ -498,7 +617,96 @@ export const SHIELD = {
     // Sized to fully enclose the ship including wings and tail while remaining tight.
     radiusX: 0.9, // width
     radiusY: 0.6, // height
-    radiusZ: 1.2  // length
+    radiusZ: 1.2,  // length
+    // Gameplay: a full flow meter can be spent on a shield instead of a focus refill
+    minFlowRequired: 0.95, // same threshold as FOCUS_REFILL
+    duration: 10, // seconds the shield stays up if nothing hits it
+    npcRechargeMinSec: 15, // NPCs raise a shield again after a random wait in this range
+    npcRechargeMaxSec: 30
+};
+
+// Ship-to-ship contact, tested in track space against the SHIELD ellipsoids
+export const COLLISION = {
+    shipScale: 3, // ship roots are scaled 3x, SHIELD radii are pre-scale
+    hullFraction: 0.7, // share of the shield ellipsoid that is solid (the bubble is padded around the hull)
+    bumpSpeed: 9, // m/s lateral velocity each ship is pushed apart with at full strength
+    rearSpeedLoss: 0.15, // fraction of speed the rear ship loses at full strength
+    fullStrengthKmh: 60, // closing speed that counts as a full-strength hit
+    minStrength: 0.2, // floor so glancing contacts still register
+    pairCooldown: 0.4, // seconds before the same pair can report a new contact
+    shakeMax: 0.35, // camera shake at full strength
+    shakeDecay: 5 // per second
+};
+
+// Hull integrity (ShipState.hull, 0..1); at zero the ship explodes and respawns at its last gate
+export const HULL = {
+    collisionDamage: 0.2, // per ship-to-ship contact at full strength
+    wallScrapeDamagePerSec: 0.15, // while pressed against the edge limit at full speed
+    wallScrapeMinSpeedKmh: 60, // slower scrapes do no damage
+    boostPadRegenPerSec: 0.25, // regenerated while over a boost pad
+    respawnDelaySec: 1.5, // wreck time before reappearing
+    respawnPenaltySec: 3, // added to the racer's race time
+    invulnerableSec: 2, // grace period after a respawn
+    explosionParticles: 60,
+    explosionSpeed: 30, // m/s initial debris speed
+    explosionLifetime: 1.2 // seconds
+};
+
+// Style points: tricks chain into combos that bank once the combo window runs out
+export const STYLE = {
+    comboWindowSec: 2.5, // combo banks when no trick keeps it alive for this long
+    multiplierStep: 0.5, // added per chained trick
+    maxMultiplier: 5,
+    multiplierDecayPerSec: 0.4, // multiplier bleeds back toward 1 between tricks
+    minTrickSec: 0.5, // continuous tricks shorter than this score but don't chain
+    driftPointsPerSec: 100,
+    airPointsPerSec: 150,
+    airMinHeight: 2, // meters of verticalOffset counted as airborne
+    tunnelPointsPerSec: 80,
+    tunnelMinBoost: 1.1, // tunnelCenterBoost above this counts as a centre run
+    draftLockPoints: 250,
+    nearMissPoints: 200,
+    nearMissMinLateral: 4, // just outside ship-to-ship contact reach
+    nearMissMaxLateral: 7, // meters apart when overtaking a racer
+    nearMissPassWindow: 10, // meters; ignores along-track sign flips from wrapping
+    trickPointsPerRotation: 300 // clean airborne trick landing
+};
+
+// Combat item boxes and the items they hand out
+export const ITEMS = {
+    rowCount: 3, // rows of boxes spread evenly around the lap
+    boxesPerRow: 4, // spread across the track width
+    minStartOffset: 120, // meters from start before the first row
+    boxSize: 1.6, // meters
+    hoverHeight: 1.8, // meters above the surface
+    spinSpeed: 1.5, // rad/s
+    boxColor: new Color(0xffd23f),
+    pickupRadius: 2.5, // meters, along and across the track
+    respawnSec: 4, // box reappears after being collected
+    weights: { emp: 3, mine: 3, shield: 2, boost: 2 } as Record<ItemKind, number>,
+    emp: {
+        radiusMeters: 45, // racers within this track distance are hit
+        drain: 0.6, // boost energy removed (0..1)
+        pulseSec: 0.6, // expanding ring visual
+        color: new Color(0x53d7ff)
+    },
+    mine: {
+        dropBehindMeters: 6, // released this far behind the user
+        lifetimeSec: 20,
+        homingRangeMeters: 40, // starts seeking a racer this close along the track
+        seekSpeedMps: 14, // drift toward the target, along and across the track
+        triggerRadius: 2.2, // meters
+        damage: 0.35, // hull
+        speedLoss: 0.4, // fraction of speed lost on a hit
+        color: new Color(0xff2bd6)
+    },
+    npc: {
+        useDelaySec: 0.8, // minimum hold before an NPC uses an item
+        maxHoldSec: 8, // NPCs use whatever they hold after this long
+        lowBoostEnergy: 0.3, // refill below this
+        shieldThreatMeters: 12, // raise a shield with a racer this close
+        mineTargetMeters: 60 // drop a mine with a racer this close behind
+    }
 };
 
 // Drafting (slipstream) configuration
@@ -520,3 +728,207 @@ export const DRAFTING = {
 
 
 
+
+// Lap checkpoints: evenly spaced gates every racer must pass in order for a lap to count
+export const CHECKPOINTS = {
+    spacingMeters: 500, // target distance between gates (gate 0 is the start/finish line)
+    minCount: 8,
+    maxCount: 32
+};
+
+// Sector splits and the live delta-to-best readout
+export const SPLITS = {
+    storageKeyPrefix: 'cosmicdrift.splits.', // localStorage key prefix, suffixed by track id
+    aheadColor: '#00ff99', // delta < 0: faster than the personal best
+    behindColor: '#ff4444' // delta > 0: slower than the personal best
+};
+
+// Post-race results screen
+export const RESULTS = {
+    showDelaySeconds: 2.5 // let the finish play out before the classification appears
+};
+
+// Local leaderboards (menu LEADERBOARDS screen)
+export const LEADERBOARD = {
+    storageKey: 'cosmicdrift.leaderboard',
+    maxEntriesPerKey: 10 // fastest race times kept per track + laps + mode
+};
+
+// Keyboard bindings (CONTROLS screen rebinds them)
+export const INPUT = {
+    storageKey: 'cosmicdrift.bindings',
+    maxKeysPerAction: 2,
+    defaultBindings: {
+        steerLeft: ['KeyA', 'ArrowLeft'],
+        steerRight: ['KeyD', 'ArrowRight'],
+        throttle: ['KeyW', 'ArrowUp'],
+        brake: ['KeyS', 'ArrowDown'],
+        boost: ['Space'],
+        drift: ['ShiftLeft', 'ShiftRight'],
+        focusRefill: ['KeyF'],
+        draftLock: ['KeyE'],
+        shield: ['KeyQ'],
+        useItem: ['KeyR'],
+        pause: ['Escape'],
+        toggleMinimap: ['KeyM'],
+        freeFly: ['Minus'],
+        cameraCycle: ['KeyC'],
+        rearMirror: ['KeyB'],
+        freeCamForward: ['KeyW'],
+        freeCamBack: ['KeyS'],
+        freeCamLeft: ['KeyA'],
+        freeCamRight: ['KeyD'],
+        freeCamUp: ['Space'],
+        freeCamDown: ['ControlLeft', 'ControlRight'],
+        freeCamSprint: ['ShiftLeft', 'ShiftRight']
+    } as InputBindingMap,
+    // Actions live at the same time; a key can only belong to one action per group
+    conflictGroups: [
+        ['steerLeft', 'steerRight', 'throttle', 'brake', 'boost', 'drift', 'focusRefill', 'draftLock', 'shield', 'useItem', 'pause', 'toggleMinimap', 'freeFly', 'cameraCycle', 'rearMirror'],
+        ['freeCamForward', 'freeCamBack', 'freeCamLeft', 'freeCamRight', 'freeCamUp', 'freeCamDown', 'freeCamSprint', 'pause', 'freeFly']
+    ] as InputAction[][]
+};
+
+// Gamepad (standard mapping: left stick steers, triggers drive)
+export const GAMEPAD = {
+    stickDeadzone: 0.15, // stick deflection ignored around center
+    triggerDeadzone: 0.05,
+    steerExponent: 1.5, // >1 softens small deflections for finer lane control
+    steerAxis: 0, // left stick X
+    buttons: {
+        throttle: 7, // RT (analog)
+        brake: 6, // LT (analog)
+        boost: 0, // A
+        drift: 5, // RB
+        draftLock: 2, // X
+        focusRefill: 3, // Y
+        shield: 1, // B
+        useItem: 4, // LB
+        pause: 9, // Start
+        cameraCycle: 8 // Back / View
+    }
+};
+
+// NPC catch-up (NPCShip.updateRubberBanding). Gaps are lap-aware race distance to the player
+// in meters; easier fields wait for the player harder and chase less
+export const RUBBER_BAND = {
+    startGraceMeters: 50, // off until the player is this far into the race (clean launch)
+    aheadSpeedCap: 1.02, // NPCs ahead never run faster than the player by more than this
+    lerpSpeed: 3.0, // how fast the applied multiplier follows the curve
+    curves: {
+        easy: [[-400, 1.1], [-50, 1], [50, 1], [100, 0.8]],
+        normal: [[-400, 1.08], [-300, 1.05], [-50, 1], [50, 1], [100, 0.85]],
+        hard: [[-400, 1.05], [-50, 1], [50, 1], [150, 0.92]],
+        expert: [[-400, 1.03], [-80, 1], [80, 1], [250, 0.97]]
+    } as Record<AIDifficulty, RubberBandCurve>
+};
+
+// Pre-race setup panel (laps, field size, AI difficulty, track)
+export const RACE_SETUP = {
+    storageKey: 'cosmicdrift.raceSetup', // last used setup
+    lapsMin: 1,
+    lapsMax: 10,
+    opponentsMin: 0,
+    opponentsMax: 11,
+    defaultOpponents: 4,
+    // NPC speed multiplier and share of aggressive drivers per difficulty
+    difficulty: {
+        easy: { speedMultiplier: 0.92, aggressiveShare: 0.25, lineAccuracy: 0.35, boostTiming: 0.2, rubberBanding: RUBBER_BAND.curves.easy },
+        normal: { speedMultiplier: 1.0, aggressiveShare: 0.5, lineAccuracy: 0.6, boostTiming: 0.5, rubberBanding: RUBBER_BAND.curves.normal },
+        hard: { speedMultiplier: 1.06, aggressiveShare: 0.75, lineAccuracy: 0.8, boostTiming: 0.75, rubberBanding: RUBBER_BAND.curves.hard },
+        expert: { speedMultiplier: 1.1, aggressiveShare: 0.9, lineAccuracy: 0.95, boostTiming: 0.95, rubberBanding: RUBBER_BAND.curves.expert }
+    } as Record<AIDifficulty, AISkill>,
+    // Starting grid: one lateral slot per NPC in a row, rows staggered back from the line
+    gridLaterals: [-8, 8, -4, 4], // meters from centerline (player sits at 0)
+    gridRowSpacingMeters: 10,
+    npcColors: [0xff4444, 0xff2bd6, 0xffff00, 0xc33dff, 0x53d7ff, 0x00ff99, 0xff8c1a, 0x4d6bff, 0xff6f91, 0x9dff3d, 0xffffff]
+};
+
+// Race replays: recorded every race, watched from the results screen, saved as JSON
+export const REPLAY = {
+    format: 'cosmicdrift-replay', // identifies our replay files
+    version: 1,
+    extension: '.replay.json',
+    sampleEveryTicks: 2, // keep every Nth fixed step; playback interpolates between samples
+    maxSeconds: 900, // stop recording after this long (guards memory and file size)
+    speeds: [0.25, 0.5, 1, 2, 4], // playback speed choices
+    shots: ['heli', 'trackside', 'close', 'first'] as const, // CameraDirector shots used for auto-direction
+    eventTickerSec: 2.5 // how long a race event stays in the replay ticker
+};
+
+// Photo mode slider ranges and capture options
+export const PHOTO = {
+    fov: { min: 15, max: 120, step: 1 }, // degrees
+    roll: { min: -45, max: 45, step: 1 }, // degrees
+    focusDistance: { min: 1, max: 300, step: 1, default: 30 }, // meters
+    focusRange: 12, // meters either side of the focus distance kept sharp
+    bokehScale: { min: 0, max: 8, step: 0.1 }, // 0 disables depth of field
+    bloom: { min: 0, max: 4, step: 0.05 },
+    vignette: { min: 0, max: 1, step: 0.01 },
+    chromatic: { min: 0, max: 0.01, step: 0.0005 },
+    captureScales: [2, 4] as const, // PNG capture size relative to the canvas
+    filePrefix: 'cosmicdrift'
+};
+
+// Time trial ghost configuration
+export const GHOST = {
+    color: new Color(0x9fe8ff), // pale cyan hologram tint
+    opacity: 0.28, // hull opacity while cruising
+    boostOpacity: 0.45, // hull opacity while the recorded lap was boosting
+    edgeOpacity: 0.55, // outline opacity
+    maxLapSeconds: 600, // stop recording a lap after this long (guards storage size)
+    storageKeyPrefix: 'cosmicdrift.ghost.' // localStorage key prefix, suffixed by track id
+};
+
+// Portable track file format
+export const TRACK_FILE = {
+    format: 'cosmicdrift-track', // identifies our JSON files
+    version: 1, // bump when the schema changes; older versions must stay loadable
+    extension: '.track.json',
+    urlParam: 'track', // ?track=<url> loads a track file on startup
+    // Loaded numeric options are clamped to [min, max] (rounded when integer) so a hand-edited file can't hang generate()
+    optionRanges: {
+        seed: { min: 0, max: 2 ** 32 - 1, integer: true },
+        controlPointCount: { min: 8, max: 400, integer: true },
+        samples: { min: 200, max: 20000, integer: true },
+        width: { min: 6, max: 80 },
+        lengthMeters: { min: 500, max: 50000 },
+        radiusMin: { min: 50, max: 20000 },
+        radiusMax: { min: 50, max: 20000 },
+        elevationAmplitude: { min: 0, max: 5000 },
+        maxCurvature: { min: 0.0001, max: 0.05 },
+        maxGrade: { min: 0, max: 1 },
+        bankMaxDeg: { min: 0, max: 90 },
+        markerSpacing: { min: 5, max: 1000 },
+        controlPointSmoothPasses: { min: 0, max: 20, integer: true },
+        minChord: { min: 1, max: 1000 },
+        railMaxAngle: { min: 0.005, max: 1 },
+        curvatureLimit: { min: 0.0001, max: 0.05 },
+        curvatureRelaxIters: { min: 0, max: 20, integer: true },
+        minTurnRadiusMeters: { min: 0, max: 2000 },
+        curvatureJerkLimit: { min: 0.000001, max: 0.01 },
+        jerkRelaxIters: { min: 0, max: 20, integer: true },
+        minClearanceMeters: { min: 0, max: 1000 },
+        selfRepelIters: { min: 0, max: 20, integer: true },
+        repelNeighborSkipMeters: { min: 0, max: 500 }
+    } as Record<string, { min: number; max: number; integer?: boolean }>
+};
+
+// Track editor (EDITOR mode)
+export const EDITOR = {
+    maxHandles: 80, // dense control point lists are resampled down to this many draggable handles
+    minHandles: 4, // CatmullRom needs at least four controls
+    handleRadius: 7, // meters
+    handleColor: new Color(0x53d7ff),
+    selectedColor: new Color(0xff2bd6),
+    warningColor: new Color(0xff4444),
+    previewColor: new Color(0xffffff), // curve preview while dragging a handle
+    pickRadius: 40, // max ray distance (m) to the centerline when painting/erasing along t
+    paintColors: {
+        'tunnel-rings': new Color(0x53d7ff),
+        'tunnel-wormhole': new Color(0x9b5cff),
+        'boost-pad': new Color(0x00ff99),
+        ramp: new Color(0xffaa00)
+    },
+    cameraDistance: 1.3 // initial orbit distance as a multiple of the track bounding radius
+};
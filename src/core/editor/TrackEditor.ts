@@ -0,0 +1,443 @@
+import * as THREE from 'three';
+import { OrbitControls } from 'three-stdlib';
+import { EDITOR } from '../constants';
+import type { Track } from '../Track';
+import { downloadTrackFile, serializeTrack, trackFileId } from '../TrackFile';
+import { TrackEditorPanel } from '../ui/TrackEditorPanel';
+import type { BoostPadSegment, EditorTool, RampSegment, TunnelSegment } from '../types';
+
+type DragState =
+    | { kind: 'handle'; index: number; plane: THREE.Plane; offset: THREE.Vector3; vertical: boolean; moved: boolean }
+    | { kind: 'paint'; startT: number; endT: number };
+
+// EDITOR mode: drag control point handles, paint tunnels/boost pads/ramps along t and regenerate the track
+export class TrackEditor {
+    public root = new THREE.Group();
+
+    private track: Track;
+    private camera: THREE.PerspectiveCamera;
+    private dom: HTMLElement;
+    private controls: OrbitControls;
+    private panel: TrackEditorPanel;
+    private exitHandlers: Array<() => void> = [];
+    private regenerateHandlers: Array<() => void> = [];
+
+    // Editable layout (handed to Track.generate on every regenerate)
+    private points: THREE.Vector3[] = [];
+    private tunnels: TunnelSegment[] = [];
+    private boostPads: BoostPadSegment[] = [];
+    private ramps: RampSegment[] = [];
+
+    private tool: EditorTool = 'select';
+    private selected = -1;
+    private drag: DragState | null = null;
+    private regenerating = false;
+    private disposed = false;
+
+    // Scene helpers
+    private handleGeometry = new THREE.SphereGeometry(EDITOR.handleRadius, 16, 12);
+    private handleMaterial = new THREE.MeshBasicMaterial({ color: EDITOR.handleColor, toneMapped: false });
+    private selectedMaterial = new THREE.MeshBasicMaterial({ color: EDITOR.selectedColor, toneMapped: false });
+    private handles: THREE.Mesh[] = [];
+    private handleGroup = new THREE.Group();
+    private preview: THREE.Line;
+    private paintLine: THREE.Line;
+    private warningGroup = new THREE.Group();
+    private warningGeometry = new THREE.TorusGeometry(EDITOR.handleRadius * 3, 1.5, 8, 32);
+    private warningMaterial = new THREE.MeshBasicMaterial({ color: EDITOR.warningColor, toneMapped: false });
+
+    private raycaster = new THREE.Raycaster();
+    private pointer = new THREE.Vector2();
+    private tmp = {
+        hit: new THREE.Vector3(),
+        normal: new THREE.Vector3(),
+        binormal: new THREE.Vector3(),
+        tangent: new THREE.Vector3()
+    };
+
+    private onPointerDown = (e: PointerEvent) => this.handlePointerDown(e);
+    private onPointerMove = (e: PointerEvent) => this.handlePointerMove(e);
+    private onPointerUp = () => this.handlePointerUp();
+    private onKeyDown = (e: KeyboardEvent) => {
+        if (e.code === 'Delete' || e.code === 'Backspace') this.removeSelectedPoint();
+        if (e.code === 'Escape') this.exitHandlers.forEach(h => h());
+    };
+
+    constructor(track: Track, camera: THREE.PerspectiveCamera, dom: HTMLElement, trackName: string) {
+        this.track = track;
+        this.camera = camera;
+        this.dom = dom;
+
+        this.preview = new THREE.Line(
+            new THREE.BufferGeometry(),
+            new THREE.LineBasicMaterial({ color: EDITOR.previewColor, transparent: true, opacity: 0.8, depthTest: false, toneMapped: false })
+        );
+        this.preview.visible = false;
+        this.preview.frustumCulled = false;
+        this.paintLine = new THREE.Line(
+            new THREE.BufferGeometry(),
+            new THREE.LineBasicMaterial({ color: 0xffffff, depthTest: false, toneMapped: false })
+        );
+        this.paintLine.visible = false;
+        this.paintLine.frustumCulled = false;
+        this.root.add(this.handleGroup, this.preview, this.paintLine, this.warningGroup);
+
+        this.loadFromTrack();
+
+        // Orbit around the whole track from above
+        this.controls = new OrbitControls(camera, dom);
+        this.controls.enableDamping = true;
+        this.controls.dampingFactor = 0.08;
+        this.controls.maxDistance = track.boundingRadius * 4;
+        this.controls.target.set(0, 0, 0);
+        camera.position.set(0, track.boundingRadius * EDITOR.cameraDistance, track.boundingRadius * 0.6);
+        camera.lookAt(this.controls.target);
+        this.controls.update();
+
+        this.panel = new TrackEditorPanel();
+        this.panel.setTrackName(trackName);
+        this.panel.setTool(this.tool);
+        this.panel.onToolChange((tool) => {
+            this.tool = tool;
+            // Painting uses left-drag, so orbit only rotates with the move tool
+            this.controls.enableRotate = tool === 'select';
+        });
+        this.panel.onAction((action) => {
+            if (action === 'add-point') this.addPointAfterSelected();
+            if (action === 'remove-point') this.removeSelectedPoint();
+            if (action === 'export') this.exportTrack();
+            if (action === 'exit') this.exitHandlers.forEach(h => h());
+        });
+        this.panel.onWarningClick((w) => this.focusT(w.t));
+        this.panel.show();
+        this.refreshPanel();
+
+        dom.addEventListener('pointerdown', this.onPointerDown);
+        window.addEventListener('pointermove', this.onPointerMove);
+        window.addEventListener('pointerup', this.onPointerUp);
+        window.addEventListener('keydown', this.onKeyDown);
+    }
+
+    onExit(handler: () => void) {
+        this.exitHandlers.push(handler);
+    }
+
+    // Fired after Track.generate so the game can rebuild systems derived from the track
+    onRegenerate(handler: () => void) {
+        this.regenerateHandlers.push(handler);
+    }
+
+    getTrackName(): string {
+        return this.panel.getTrackName();
+    }
+
+    update() {
+        this.controls.update();
+    }
+
+    dispose() {
+        this.disposed = true;
+        this.dom.removeEventListener('pointerdown', this.onPointerDown);
+        window.removeEventListener('pointermove', this.onPointerMove);
+        window.removeEventListener('pointerup', this.onPointerUp);
+        window.removeEventListener('keydown', this.onKeyDown);
+        this.controls.dispose();
+        this.panel.dispose();
+        this.handleGeometry.dispose();
+        this.handleMaterial.dispose();
+        this.selectedMaterial.dispose();
+        this.warningGeometry.dispose();
+        this.warningMaterial.dispose();
+        this.preview.geometry.dispose();
+        (this.preview.material as THREE.Material).dispose();
+        this.paintLine.geometry.dispose();
+        (this.paintLine.material as THREE.Material).dispose();
+        this.root.removeFromParent();
+        this.root.clear();
+        this.exitHandlers = [];
+        this.regenerateHandlers = [];
+    }
+
+    // --- Layout ------------------------------------------------------------------
+
+    // Copy the current track layout; dense (smoothed) control lists are thinned to a handle-friendly count
+    private loadFromTrack() {
+        const controls = this.track.getControlPoints();
+        const count = Math.min(controls.length, EDITOR.maxHandles);
+        this.points = [];
+        for (let i = 0; i < count; i++) {
+            this.points.push(controls[Math.floor(i * controls.length / count)].clone());
+        }
+        this.tunnels = this.track.getTunnelSegments().map(s => ({ ...s }));
+        this.boostPads = this.track.getBoostPads().map(p => ({ ...p }));
+        this.ramps = this.track.getRamps().map(r => ({ ...r }));
+        this.rebuildHandles();
+        this.rebuildWarningMarkers();
+    }
+
+    private regenerate() {
+        if (this.regenerating) return;
+        this.regenerating = true;
+        this.panel.setStatus('Regenerating…');
+        // Let the status paint before the (blocking) rebuild
+        setTimeout(() => {
+            if (this.disposed) return;
+            try {
+                this.track.generate(this.track.getOptions(), 'custom', {
+                    controlPoints: this.points.map(p => p.clone()),
+                    frameProfiles: this.track.getFrameProfiles(),
+                    tunnels: this.tunnels,
+                    boostPads: this.boostPads,
+                    ramps: this.ramps
+                });
+                this.track.trackId = trackFileId(serializeTrack(this.track, this.panel.getTrackName()));
+                this.regenerateHandlers.forEach(h => h());
+                this.panel.setStatus('');
+            } catch (err) {
+                console.error('Track regenerate failed:', err);
+                this.panel.setStatus('Regenerate failed, see console', true);
+            }
+            this.regenerating = false;
+            this.preview.visible = false;
+            this.rebuildHandles();
+            this.rebuildWarningMarkers();
+            this.refreshPanel();
+        }, 0);
+    }
+
+    private addPointAfterSelected() {
+        const i = this.selected >= 0 ? this.selected : this.points.length - 1;
+        const a = this.points[i];
+        const b = this.points[(i + 1) % this.points.length];
+        this.points.splice(i + 1, 0, a.clone().add(b).multiplyScalar(0.5));
+        this.selected = i + 1;
+        this.regenerate();
+    }
+
+    private removeSelectedPoint() {
+        if (this.selected < 0) return;
+        if (this.points.length <= EDITOR.minHandles) {
+            this.panel.setStatus(`A track needs at least ${EDITOR.minHandles} points`, true);
+            return;
+        }
+        this.points.splice(this.selected, 1);
+        this.selected = -1;
+        this.regenerate();
+    }
+
+    private exportTrack() {
+        const name = this.panel.getTrackName();
+        downloadTrackFile(serializeTrack(this.track, name));
+        this.panel.setStatus(`Exported "${name}"`);
+    }
+
+    // Add a painted [startT, endT] span with the active tool, or erase whatever covers it
+    private applyPaint(startT: number, endT: number) {
+        const a = Math.min(startT, endT);
+        const b = Math.max(startT, endT);
+        if (this.tool === 'erase') {
+            const covers = (s: number, e: number) => s <= b && e >= a;
+            this.tunnels = this.tunnels.filter(s => !covers(s.startT, s.endT));
+            this.boostPads = this.boostPads.filter(p => !covers(p.t, p.t + p.lengthT));
+            this.ramps = this.ramps.filter(r => !covers(r.t, r.t + r.lengthT));
+            this.regenerate();
+            return;
+        }
+        // Ignore clicks without a drag; a painted span needs some length
+        if (b - a < 1e-3) return;
+        if (this.tool === 'tunnel-rings' || this.tool === 'tunnel-wormhole') {
+            this.tunnels.push({
+                startT: a,
+                endT: b,
+                lengthMeters: (b - a) * this.track.length,
+                tunnelType: this.tool === 'tunnel-rings' ? 'rings' : 'wormhole'
+            });
+        } else if (this.tool === 'boost-pad') {
+            this.boostPads.push({ t: a, lengthT: b - a });
+        } else if (this.tool === 'ramp') {
+            this.ramps.push({ t: a, lengthT: b - a });
+        }
+        this.regenerate();
+    }
+
+    // --- Pointer handling --------------------------------------------------------
+
+    private handlePointerDown(e: PointerEvent) {
+        if (e.button !== 0 || this.regenerating) return;
+        this.updateRay(e);
+
+        if (this.tool === 'select') {
+            const hit = this.raycaster.intersectObjects(this.handles, false)[0];
+            if (!hit) return;
+            const index = this.handles.indexOf(hit.object as THREE.Mesh);
+            this.select(index);
+            const point = this.points[index];
+            // Shift drags height on a camera-facing vertical plane; otherwise slide on the ground plane
+            const vertical = e.shiftKey;
+            const normal = vertical
+                ? this.camera.getWorldDirection(new THREE.Vector3()).setY(0).normalize()
+                : new THREE.Vector3(0, 1, 0);
+            const plane = new THREE.Plane().setFromNormalAndCoplanarPoint(normal, point);
+            const offset = new THREE.Vector3();
+            if (this.raycaster.ray.intersectPlane(plane, this.tmp.hit)) offset.copy(point).sub(this.tmp.hit);
+            this.drag = { kind: 'handle', index, plane, offset, vertical, moved: false };
+            this.controls.enabled = false;
+            return;
+        }
+
+        const t = this.pickTrackT();
+        if (t === null) return;
+        this.drag = { kind: 'paint', startT: t, endT: t };
+        this.controls.enabled = false;
+        this.updatePaintLine(t, t);
+    }
+
+    private handlePointerMove(e: PointerEvent) {
+        if (!this.drag) return;
+        this.updateRay(e);
+
+        if (this.drag.kind === 'handle') {
+            if (!this.raycaster.ray.intersectPlane(this.drag.plane, this.tmp.hit)) return;
+            const point = this.points[this.drag.index];
+            this.tmp.hit.add(this.drag.offset);
+            if (this.drag.vertical) {
+                point.y = this.tmp.hit.y;
+            } else {
+                point.x = this.tmp.hit.x;
+                point.z = this.tmp.hit.z;
+            }
+            this.handles[this.drag.index].position.copy(point);
+            this.drag.moved = true;
+            this.updatePreview();
+            return;
+        }
+
+        const t = this.pickTrackT();
+        if (t === null) return;
+        this.drag.endT = t;
+        this.updatePaintLine(this.drag.startT, t);
+    }
+
+    private handlePointerUp() {
+        const drag = this.drag;
+        if (!drag) return;
+        this.drag = null;
+        this.controls.enabled = true;
+        this.paintLine.visible = false;
+
+        if (drag.kind === 'handle') {
+            // Full rebuild only once the handle is released; the preview line covers the drag
+            if (drag.moved) this.regenerate();
+            return;
+        }
+        this.applyPaint(drag.startT, drag.endT);
+    }
+
+    private updateRay(e: PointerEvent) {
+        const rect = this.dom.getBoundingClientRect();
+        this.pointer.set(
+            ((e.clientX - rect.left) / rect.width) * 2 - 1,
+            -((e.clientY - rect.top) / rect.height) * 2 + 1
+        );
+        this.raycaster.setFromCamera(this.pointer, this.camera);
+    }
+
+    // Closest centerline sample to the pointer ray (cheaper than raycasting the track mesh)
+    private pickTrackT(): number | null {
+        const positions = this.track.cachedPositions;
+        const ray = this.raycaster.ray;
+        const maxD2 = EDITOR.pickRadius * EDITOR.pickRadius;
+        let best = -1;
+        let bestD2 = maxD2;
+        for (let i = 0; i < positions.length; i++) {
+            const d2 = ray.distanceSqToPoint(positions[i]);
+            if (d2 < bestD2) {
+                bestD2 = d2;
+                best = i;
+            }
+        }
+        return best < 0 ? null : best / positions.length;
+    }
+
+    private select(index: number) {
+        this.selected = index;
+        this.handles.forEach((h, i) => h.material = i === index ? this.selectedMaterial : this.handleMaterial);
+    }
+
+    // --- Scene helpers -----------------------------------------------------------
+
+    private rebuildHandles() {
+        this.handleGroup.clear();
+        this.handles = this.points.map((p) => {
+            const mesh = new THREE.Mesh(this.handleGeometry, this.handleMaterial);
+            mesh.position.copy(p);
+            this.handleGroup.add(mesh);
+            return mesh;
+        });
+        if (this.selected >= this.points.length) this.selected = -1;
+        this.select(this.selected);
+    }
+
+    // Cheap stand-in for the track while a handle is dragged (no relax passes)
+    private updatePreview() {
+        const curve = new THREE.CatmullRomCurve3(this.points, true, 'centripetal');
+        this.preview.geometry.setFromPoints(curve.getPoints(this.points.length * 12));
+        this.preview.visible = true;
+    }
+
+    private updatePaintLine(startT: number, endT: number) {
+        const a = Math.min(startT, endT);
+        const b = Math.max(startT, endT);
+        const steps = Math.max(2, Math.ceil((b - a) * 400));
+        const pts: THREE.Vector3[] = [];
+        for (let i = 0; i <= steps; i++) {
+            const t = a + (b - a) * (i / steps);
+            pts.push(this.lift(t, new THREE.Vector3()));
+        }
+        this.paintLine.geometry.setFromPoints(pts);
+        const material = this.paintLine.material as THREE.LineBasicMaterial;
+        material.color.copy(this.tool === 'erase' ? EDITOR.warningColor : EDITOR.paintColors[this.tool as keyof typeof EDITOR.paintColors]);
+        this.paintLine.visible = true;
+    }
+
+    private rebuildWarningMarkers() {
+        this.warningGroup.clear();
+        const { normal, binormal, tangent } = this.tmp;
+        for (const w of this.track.getWarnings()) {
+            const ring = new THREE.Mesh(this.warningGeometry, this.warningMaterial);
+            this.lift(w.t, ring.position);
+            // Ring stands across the track so it reads like a gate at the problem spot
+            this.track.getFrenetFrame(w.t, normal, binormal, tangent);
+            ring.lookAt(ring.position.clone().add(tangent));
+            this.warningGroup.add(ring);
+        }
+    }
+
+    // Track point at t, raised a little so overlays sit above the surface
+    private lift(t: number, target: THREE.Vector3): THREE.Vector3 {
+        const { normal, binormal, tangent } = this.tmp;
+        this.track.getPointAtT(t, target);
+        this.track.getFrenetFrame(t, normal, binormal, tangent);
+        return target.addScaledVector(normal, 2);
+    }
+
+    private focusT(t: number) {
+        const target = this.lift(t, new THREE.Vector3());
+        const offset = this.camera.position.clone().sub(this.controls.target);
+        offset.setLength(Math.min(offset.length(), this.track.width * 20));
+        this.controls.target.copy(target);
+        this.camera.position.copy(target).add(offset);
+        this.controls.update();
+    }
+
+    private refreshPanel() {
+        this.panel.setStats({
+            handles: this.points.length,
+            tunnels: this.tunnels.length,
+            boostPads: this.boostPads.length,
+            ramps: this.ramps.length,
+            lengthMeters: this.track.length
+        });
+        this.panel.setWarnings(this.track.getWarnings());
+    }
+}
@@ -0,0 +1,100 @@
+import { REPLAY } from '../constants';
+import type { InputLog, PlayerInput, RaceMode, RaceSetup } from '../types';
+
+type InputFlag = Exclude<keyof PlayerInput, 'steer' | 'throttle' | 'brake'>;
+
+// Boolean controls share one bitmask per step, in this bit order
+const FLAGS: InputFlag[] = [
+    'left', 'right', 'up', 'down', 'boost', 'yawLeft', 'yawRight', 'drift',
+    'padBoost', 'padDrift', 'focusRefill', 'shield', 'useItem', 'draftLock'
+];
+// Packed step layout: flags, steer, throttle, brake (axes unrounded so the re-simulation matches exactly)
+const STRIDE = 4;
+
+export function createPlayerInput(): PlayerInput {
+    return {
+        left: false, right: false, up: false, down: false, boost: false, yawLeft: false, yawRight: false, drift: false,
+        steer: 0, throttle: 0, brake: 0, padBoost: false, padDrift: false,
+        focusRefill: false, shield: false, useItem: false, draftLock: false
+    };
+}
+
+// Neutral controls: nothing held, nothing fired
+export function clearPlayerInput(out: PlayerInput): PlayerInput {
+    for (let i = 0; i < FLAGS.length; i++) out[FLAGS[i]] = false;
+    out.steer = 0;
+    out.throttle = 0;
+    out.brake = 0;
+    return out;
+}
+
+function packInput(out: number[], input: PlayerInput) {
+    let flags = 0;
+    for (let i = 0; i < FLAGS.length; i++) {
+        if (input[FLAGS[i]]) flags |= 1 << i;
+    }
+    out.push(flags, input.steer, input.throttle, input.brake);
+}
+
+function unpackInput(frames: number[], index: number, out: PlayerInput): PlayerInput {
+    const i = index * STRIDE;
+    const flags = frames[i];
+    for (let bit = 0; bit < FLAGS.length; bit++) out[FLAGS[bit]] = (flags & (1 << bit)) !== 0;
+    out.steer = frames[i + 1];
+    out.throttle = frames[i + 2];
+    out.brake = frames[i + 3];
+    return out;
+}
+
+// Records the player's controls every fixed step from GO until the race is torn down
+export class InputRecorder {
+    private frames: number[] = [];
+    private recording = false;
+    private elapsed = 0; // race seconds recorded so far
+
+    // Start a fresh log at the green light
+    begin() {
+        this.reset();
+        this.recording = true;
+    }
+
+    record(input: PlayerInput, dt: number) {
+        if (!this.recording) return;
+        if (this.elapsed >= REPLAY.maxSeconds) {
+            this.recording = false;
+            return;
+        }
+        packInput(this.frames, input);
+        this.elapsed += dt;
+    }
+
+    hasRecording(): boolean {
+        return this.frames.length > 0;
+    }
+
+    // Snapshot of everything recorded so far; recording carries on
+    toLog(trackId: string, seed: number, mode: RaceMode, setup: RaceSetup, fixedDelta: number): InputLog {
+        return { trackId, seed, mode, setup: { ...setup }, fixedDelta, frames: this.frames.slice() };
+    }
+
+    reset() {
+        this.frames = [];
+        this.recording = false;
+        this.elapsed = 0;
+    }
+}
+
+// Feeds a log back one fixed step at a time from GO; neutral controls once it runs out
+export class InputPlayer {
+    private log: InputLog;
+    private step = 0;
+
+    constructor(log: InputLog) {
+        this.log = log;
+    }
+
+    next(out: PlayerInput): PlayerInput {
+        const index = this.step++;
+        return index * STRIDE < this.log.frames.length ? unpackInput(this.log.frames, index, out) : clearPlayerInput(out);
+    }
+}
@@ -0,0 +1,100 @@
+import * as THREE from 'three';
+import { PHYSICS, REPLAY } from '../constants';
+import type { Track } from '../Track';
+import type { Replay, ReplayFrame } from '../types';
+
+// Packed sample layout: t, lateral, vertical, pitch, yaw, roll, speed, flags, lap, hull
+const STRIDE = 10;
+const FLAG_BOOSTING = 1;
+const FLAG_DRIFTING = 2;
+const FLAG_VISIBLE = 4;
+
+const tmp = {
+    tangent: new THREE.Vector3(),
+    normal: new THREE.Vector3(),
+    binormal: new THREE.Vector3(),
+    x: new THREE.Vector3(),
+    y: new THREE.Vector3(),
+    basis: new THREE.Matrix4()
+};
+
+export function createReplayFrame(): ReplayFrame {
+    return {
+        t: 0, lateralOffset: 0, verticalOffset: 0, pitch: 0, yaw: 0, roll: 0, speedKmh: 0,
+        boosting: false, isDrifting: false, visible: true, lapCurrent: 0, hull: 1
+    };
+}
+
+// Append one sample; values are rounded so saved replays stay small
+export function packFrame(out: number[], frame: ReplayFrame) {
+    out.push(
+        round(frame.t, 6),
+        round(frame.lateralOffset, 2),
+        round(frame.verticalOffset, 2),
+        round(frame.pitch, 3),
+        round(frame.yaw, 3),
+        round(frame.roll, 3),
+        round(frame.speedKmh, 1),
+        (frame.boosting ? FLAG_BOOSTING : 0) | (frame.isDrifting ? FLAG_DRIFTING : 0) | (frame.visible ? FLAG_VISIBLE : 0),
+        frame.lapCurrent,
+        round(frame.hull, 2)
+    );
+}
+
+export function unpackFrame(frames: number[], index: number, out: ReplayFrame): ReplayFrame {
+    const i = index * STRIDE;
+    const flags = frames[i + 7];
+    out.t = frames[i];
+    out.lateralOffset = frames[i + 1];
+    out.verticalOffset = frames[i + 2];
+    out.pitch = frames[i + 3];
+    out.yaw = frames[i + 4];
+    out.roll = frames[i + 5];
+    out.speedKmh = frames[i + 6];
+    out.boosting = (flags & FLAG_BOOSTING) !== 0;
+    out.isDrifting = (flags & FLAG_DRIFTING) !== 0;
+    out.visible = (flags & FLAG_VISIBLE) !== 0;
+    out.lapCurrent = frames[i + 8];
+    out.hull = frames[i + 9];
+    return out;
+}
+
+export function getFrameCount(frames: number[]): number {
+    return Math.floor(frames.length / STRIDE);
+}
+
+export function getReplayDuration(replay: Replay): number {
+    const samples = Math.max(0, ...replay.frames.map(getFrameCount));
+    return Math.max(0, samples - 1) * replay.sampleSeconds;
+}
+
+// Track-aligned basis the ship models are built on (same as Ship.updateShipPosition), placed at
+// the racer's lateral and vertical offset
+export function getTrackPose(track: Track, t: number, lateralOffset: number, verticalOffset: number, outPos: THREE.Vector3, outQuat: THREE.Quaternion) {
+    const { tangent, normal, binormal, x, y, basis } = tmp;
+    track.getPointAtT(t, outPos);
+    track.getFrenetFrame(t, normal, binormal, tangent);
+    outPos.addScaledVector(binormal, lateralOffset);
+    outPos.addScaledVector(normal, PHYSICS.hoverHeight + verticalOffset);
+
+    tangent.normalize();
+    x.crossVectors(normal, tangent).normalize();
+    y.crossVectors(tangent, x).normalize();
+    basis.makeBasis(x, y, tangent);
+    outQuat.setFromRotationMatrix(basis);
+}
+
+export function downloadReplay(replay: Replay, name: string) {
+    const blob = new Blob([JSON.stringify(replay)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = (name.replace(/[^a-z0-9-_]+/gi, '_') || 'replay') + REPLAY.extension;
+    a.click();
+    URL.revokeObjectURL(url);
+}
+
+function round(value: number, decimals: number): number {
+    const scale = 10 ** decimals;
+    return Math.round(value * scale) / scale;
+}
@@ -0,0 +1,165 @@
+import * as THREE from 'three';
+import { REPLAY } from '../constants';
+import type { Track } from '../Track';
+import type { Replay, ReplayEvent, ReplayFrame, ShipState } from '../types';
+import { createReplayFrame, getFrameCount, getReplayDuration, getTrackPose, unpackFrame } from './ReplayFormat';
+import type { ReplayTarget } from './ReplayRecorder';
+
+type Saved = {
+    target: ReplayTarget;
+    state: ShipState;
+    position: THREE.Vector3;
+    quaternion: THREE.Quaternion;
+    visible: boolean;
+};
+
+// Plays a replay back on the live racer models. The race simulation is frozen meanwhile;
+// stop() puts every racer back exactly where the race left it.
+export class ReplayPlayer {
+    private track: Track;
+    private replay: Replay;
+    private targets: Array<{ target: ReplayTarget; frames: number[] } | null>;
+    private saved: Saved[];
+    private duration: number;
+    private time = 0;
+    private playing = true;
+    private speed = 1;
+
+    private a: ReplayFrame = createReplayFrame();
+    private b: ReplayFrame = createReplayFrame();
+    private tmp = {
+        posA: new THREE.Vector3(),
+        posB: new THREE.Vector3(),
+        quatA: new THREE.Quaternion(),
+        quatB: new THREE.Quaternion(),
+        local: new THREE.Quaternion(),
+        euler: new THREE.Euler(0, 0, 0, 'YXZ')
+    };
+
+    constructor(track: Track, replay: Replay, targets: ReplayTarget[]) {
+        this.track = track;
+        this.replay = replay;
+        this.duration = getReplayDuration(replay);
+        // Recorded racers matched to live models by id; racers missing from the scene are skipped
+        this.targets = replay.racers.map((racer, i) => {
+            const target = targets.find(t => t.racerId === racer.racerId);
+            return target && getFrameCount(replay.frames[i]) > 0 ? { target, frames: replay.frames[i] } : null;
+        });
+        this.saved = targets.map(target => ({
+            target,
+            state: { ...target.state },
+            position: target.root.position.clone(),
+            quaternion: target.root.quaternion.clone(),
+            visible: target.root.visible
+        }));
+        this.apply();
+    }
+
+    update(dt: number) {
+        if (this.playing) {
+            this.time += dt * this.speed;
+            if (this.time >= this.duration) {
+                this.time = this.duration;
+                this.playing = false;
+            }
+        }
+        this.apply();
+    }
+
+    seek(time: number) {
+        this.time = THREE.MathUtils.clamp(time, 0, this.duration);
+        this.apply();
+    }
+
+    // Play from the start again once the end is reached
+    togglePlaying() {
+        if (!this.playing && this.time >= this.duration) this.time = 0;
+        this.playing = !this.playing;
+    }
+
+    isPlaying(): boolean {
+        return this.playing;
+    }
+
+    setSpeed(speed: number) {
+        this.speed = speed;
+    }
+
+    getSpeed(): number {
+        return this.speed;
+    }
+
+    getTime(): number {
+        return this.time;
+    }
+
+    getDuration(): number {
+        return this.duration;
+    }
+
+    getReplay(): Replay {
+        return this.replay;
+    }
+
+    // Latest event still within the ticker window, or null
+    getRecentEvent(): ReplayEvent | null {
+        let recent: ReplayEvent | null = null;
+        for (const event of this.replay.events) {
+            if (event.time > this.time) break;
+            if (this.time - event.time <= REPLAY.eventTickerSec) recent = event;
+        }
+        return recent;
+    }
+
+    // Racers back to their live race state
+    stop() {
+        this.saved.forEach(({ target, state, position, quaternion, visible }) => {
+            Object.assign(target.state, state);
+            target.root.position.copy(position);
+            target.root.quaternion.copy(quaternion);
+            target.root.visible = visible;
+        });
+    }
+
+    // Interpolate between the two samples around the playhead for every racer
+    private apply() {
+        const { posA, posB, quatA, quatB } = this.tmp;
+        const sample = this.time / this.replay.sampleSeconds;
+        this.targets.forEach((entry) => {
+            if (!entry) return;
+            const { target, frames } = entry;
+            const last = getFrameCount(frames) - 1;
+            const i0 = Math.min(Math.floor(sample), last);
+            const i1 = Math.min(i0 + 1, last);
+            const f = i1 > i0 ? sample - i0 : 0;
+            const a = unpackFrame(frames, i0, this.a);
+            const b = unpackFrame(frames, i1, this.b);
+
+            this.pose(a, posA, quatA);
+            this.pose(b, posB, quatB);
+            target.root.position.copy(posA.lerp(posB, f));
+            target.root.quaternion.copy(quatA.slerp(quatB, f));
+            target.root.visible = a.visible;
+
+            // Shortest way round so interpolation across the start line doesn't sweep the lap
+            let dT = b.t - a.t;
+            dT -= Math.round(dT);
+            const state = target.state;
+            state.t = a.t + dT * f;
+            state.lateralOffset = THREE.MathUtils.lerp(a.lateralOffset, b.lateralOffset, f);
+            state.verticalOffset = THREE.MathUtils.lerp(a.verticalOffset, b.verticalOffset, f);
+            state.speedKmh = THREE.MathUtils.lerp(a.speedKmh, b.speedKmh, f);
+            state.boosting = a.boosting;
+            state.isDrifting = a.isDrifting;
+            state.lapCurrent = a.lapCurrent;
+            state.hull = a.hull;
+        });
+    }
+
+    private pose(frame: ReplayFrame, pos: THREE.Vector3, quat: THREE.Quaternion) {
+        const { local, euler } = this.tmp;
+        getTrackPose(this.track, frame.t, frame.lateralOffset, frame.verticalOffset, pos, quat);
+        euler.set(frame.pitch, frame.yaw, frame.roll, 'YXZ');
+        quat.multiply(local.setFromEuler(euler));
+    }
+}
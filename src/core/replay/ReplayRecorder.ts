@@ -0,0 +1,132 @@
+import * as THREE from 'three';
+import { REPLAY } from '../constants';
+import type { Track } from '../Track';
+import type { Replay, ReplayEvent, ReplayEventKind, ReplayFrame, ReplayRacer, ShipState } from '../types';
+import { createReplayFrame, getTrackPose, packFrame } from './ReplayFormat';
+
+// A racer as the replay sees it: the player Ship and NPCShips both fit
+export type ReplayTarget = {
+    racerId: string;
+    root: THREE.Object3D;
+    state: ShipState;
+};
+
+// Records every racer's state on the fixed step from GO until the race is torn down, plus race events
+export class ReplayRecorder {
+    private track: Track;
+    private targets: ReplayTarget[] = [];
+    private racers: ReplayRacer[] = [];
+    private frames: number[][] = [];
+    private events: ReplayEvent[] = [];
+    private lastLaps: number[] = [];
+    private recording = false;
+    private ticks = 0;
+    private elapsed = 0; // race seconds recorded so far
+    private sampleSeconds = 0;
+
+    private frame: ReplayFrame = createReplayFrame();
+    private tmp = {
+        pos: new THREE.Vector3(),
+        base: new THREE.Quaternion(),
+        local: new THREE.Quaternion(),
+        euler: new THREE.Euler(0, 0, 0, 'YXZ')
+    };
+
+    constructor(track: Track) {
+        this.track = track;
+    }
+
+    // Start a fresh recording at the green light
+    begin(targets: ReplayTarget[], racers: ReplayRacer[]) {
+        this.reset();
+        this.targets = targets;
+        this.racers = racers;
+        this.frames = targets.map(() => []);
+        this.lastLaps = targets.map(target => target.state.lapCurrent);
+        this.recording = true;
+    }
+
+    // Called once per fixed step while racing (and after the player finishes)
+    record(dt: number) {
+        if (!this.recording) return;
+        if (this.elapsed >= REPLAY.maxSeconds) {
+            this.recording = false;
+            return;
+        }
+
+        this.targets.forEach((target, i) => {
+            const lap = target.state.lapCurrent;
+            if (lap > this.lastLaps[i]) {
+                if (lap >= target.state.lapTotal) this.addEvent('finish', target.racerId, 'FINISH');
+                else if (lap > 1) this.addEvent('lap', target.racerId, `LAP ${lap}/${target.state.lapTotal}`);
+                this.lastLaps[i] = lap;
+            }
+        });
+
+        if (this.ticks % REPLAY.sampleEveryTicks === 0) {
+            this.sampleSeconds = dt * REPLAY.sampleEveryTicks;
+            this.targets.forEach((target, i) => packFrame(this.frames[i], this.capture(target)));
+        }
+        this.ticks++;
+        this.elapsed += dt;
+    }
+
+    addEvent(kind: ReplayEventKind, racerId: string, label: string, targetId?: string) {
+        if (!this.recording) return;
+        this.events.push({ time: this.elapsed, kind, racerId, targetId, label });
+    }
+
+    hasRecording(): boolean {
+        return this.frames.some(frames => frames.length > 0);
+    }
+
+    // Snapshot of everything recorded so far; recording carries on
+    toReplay(trackId: string, seed: number, laps: number): Replay {
+        return {
+            format: REPLAY.format,
+            version: REPLAY.version,
+            trackId,
+            seed,
+            laps,
+            sampleSeconds: this.sampleSeconds,
+            racers: this.racers.map(r => ({ ...r })),
+            frames: this.frames.map(frames => frames.slice()),
+            events: this.events.map(e => ({ ...e }))
+        };
+    }
+
+    reset() {
+        this.targets = [];
+        this.racers = [];
+        this.frames = [];
+        this.events = [];
+        this.lastLaps = [];
+        this.recording = false;
+        this.ticks = 0;
+        this.elapsed = 0;
+    }
+
+    // Track-space state plus the model's orientation relative to the track frame (banking, yaw, tricks)
+    private capture(target: ReplayTarget): ReplayFrame {
+        const { pos, base, local, euler } = this.tmp;
+        const { state } = target;
+        getTrackPose(this.track, state.t, state.lateralOffset, state.verticalOffset, pos, base);
+        local.copy(base).invert().multiply(target.root.quaternion);
+        euler.setFromQuaternion(local, 'YXZ');
+
+        const frame = this.frame;
+        frame.t = state.t;
+        frame.lateralOffset = state.lateralOffset;
+        frame.verticalOffset = state.verticalOffset;
+        frame.pitch = euler.x;
+        frame.yaw = euler.y;
+        frame.roll = euler.z;
+        frame.speedKmh = state.speedKmh;
+        frame.boosting = state.boosting;
+        frame.isDrifting = state.isDrifting;
+        frame.visible = target.root.visible;
+        frame.lapCurrent = state.lapCurrent;
+        frame.hull = state.hull;
+        return frame;
+    }
+}
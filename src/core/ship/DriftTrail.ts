@@ -395,12 +395,34 @@ export class DriftTrail {
         }
     }
 
+    // Recolour the ribbon and sparks (livery); existing points pick it up next update
+    public setColor(color: THREE.Color) {
+        this.color.copy(color);
+    }
+
+    // Drop all ribbon points and sparks (new race on the same trail)
+    public reset() {
+        this.pointsL = [];
+        this.pointsR = [];
+        this.geometryL.setDrawRange(0, 0);
+        this.geometryR.setDrawRange(0, 0);
+        this.lastShipT = -1;
+        this.lastOffset = 0;
+        this.sparkAges.fill(1e9);
+        this.sparkColors.fill(0); // additive black: dead sparks vanish
+        (this.sparkGeometry.attributes.color as THREE.BufferAttribute).needsUpdate = true;
+        this.sparkSpawnAcc = 0;
+    }
+
     public dispose() {
         this.geometryL.dispose();
         this.geometryR.dispose();
         this.material.dispose();
+        this.sparkGeometry.dispose();
+        this.sparkMaterial.dispose();
         this.root.remove(this.meshL);
         this.root.remove(this.meshR);
+        this.root.remove(this.sparkPoints);
     }
 }
 
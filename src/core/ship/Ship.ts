@@ -1,12 +1,24 @@
 import * as THREE from 'three';
-import { CAMERA, COLORS, LAPS_TOTAL, PHYSICS, TUNNEL, BOOST_PAD, FOCUS_REFILL, DRIFT, DRAFTING, RAMP } from '../constants';
+import { CAMERA, CAMERA_MODES, COLLISION, COLORS, LAPS_TOTAL, PHYSICS, TUNNEL, BOOST_PAD, FOCUS_REFILL, DRIFT, DRAFTING, RAMP, SHIELD, HULL, TRICKS, SHIP_CLASS } from '../constants';
 import { Track } from '../Track';
+import type { CameraMode, GamepadState, ItemKind, LapTime, PlayerInput, ShipClassId, ShipLivery, ShipProfile } from '../types';
+import { resolveShipProfile } from '../ShipClass';
+import { CheckpointTracker } from '../CheckpointTracker';
+import type { InputBindings } from '../InputBindings';
 import { ShipRocketTail } from './ShipRocketTail';
+import { createDecalTexture, paintShipModel } from './ShipLivery';
 import { ShipJetEngine } from './ShipJetEngine';
+import { ShipShield } from './ShipShield';
 
 function kmhToMps(kmh: number) { return kmh / 3.6; }
 
+// One-shot player controls (key or pad press)
+type ShipAction = 'focusRefill' | 'shield' | 'useItem';
+
 export class Ship {
+    public readonly racerId = 'player';
+    public heldItem: ItemKind | null = null; // from track item boxes (see ItemSystem)
+    public profile: ShipProfile = resolveShipProfile(SHIP_CLASS.defaultClass); // class stats read instead of PHYSICS/DRIFT
     public root = new THREE.Group();
     public state = {
         t: 0,
@@ -23,11 +35,14 @@ export class Ship {
         inTunnel: false,
         tunnelCenterBoost: 1.0, // multiplier from tunnel center alignment
         lastLapTime: 0,
-        lapTimes: [] as number[],
+        lapTimes: [] as LapTime[],
+        sectorSplits: [] as number[], // lap time at each gate passed this lap, indexed by gate - 1
         onBoostPadEntry: false, // true when just entered a boost pad (resets after check)
         isDrifting: false, // true when drifting (turning + boosting)
         driftDuration: 0, // accumulated drift time in seconds
         driftLength: 0, // accumulated drift distance in meters
+        nextCheckpointT: 0, // t of the next lap gate to pass
+        hull: 1, // 0..1 integrity
     };
 
     private track: Track;
@@ -52,6 +67,7 @@ export class Ship {
     private rollReturnProgress = 0;
     private rollReturnStartAngle = 0;
     private boostTimer = 0; // visual intensity for camera/shake
+    private contactShake = 0; // 0..1 camera shake from ship-to-ship hits
     private wasDrifting = false; // track previous frame's drift state
     private boostEnergy = 1; // 0..1 manual boost resource
     private boostRechargeDelay = 0; // countdown timer for recharge delay (0 = can recharge)
@@ -60,7 +76,7 @@ export class Ship {
     private now = 0;
     // lap detection helpers
     private prevT = 0;
-    private checkpointT = 0.0; // could move later; start line
+    public checkpoints: CheckpointTracker; // lap gate progress (start line + sector gates)
     private hasCrossedCheckpointThisFrame = false;
     private lapStartTime = 0; // Time when the current lap started
     private lapTime = 0; // Time elapsed since the start of the current lap
@@ -82,17 +98,40 @@ export class Ship {
     private wasOnBoostPad = false; // track previous frame's boost pad state to detect entry
     private baseFov = CAMERA.fov;
     private currentFov = CAMERA.fov;
+    private cameraMode: CameraMode = CAMERA_MODES.defaults.mode;
+    // Looks back down the track; Game renders it into the mirror viewport when enabled
+    public mirrorCamera = new THREE.PerspectiveCamera(CAMERA_MODES.mirror.fov, CAMERA_MODES.mirror.aspect, CAMERA.near, CAMERA.far);
 
     // Ramp launch state
     private wasOnRamp = false;
     private airborneTimer = 0;
+    // Airborne tricks (ramp launch until landing): steer barrel-rolls, drift flips.
+    // A released spin carries on to the next full turn; landing before it gets there is a bad landing.
+    private airTrickActive = false;
+    private trickAttempted = false;
+    private trickRotations = 0; // completed this jump
+    private trickRollDir = 0; // spin direction of an unfinished barrel roll
+    private rollSpun = 0; // radians in the current barrel roll
+    private flipAngle = 0; // pitch added by flips
+    private flipFinishing = false;
+    private flipSpun = 0;
+    private trickLandedHandlers: Array<(rotations: number, clean: boolean) => void> = [];
 
     // Focus refill state
     private focusRefillActive = false;
     private focusRefillProgress = 0;
     private focusRefillDuration = FOCUS_REFILL.duration;
+    private shield!: ShipShield;
+    private shieldTimer = 0; // seconds left on an active shield
+    private respawnTimer = 0; // > 0 while wrecked, counting down to the respawn
+    private invulnerableTimer = 0; // grace period after a respawn
+    private destroyedHandlers: Array<(position: THREE.Vector3) => void> = [];
+    private itemUseRequested = false; // item key or pad button pressed since ItemSystem last asked
+    private firedActions: Record<ShipAction, boolean> = { focusRefill: false, shield: false, useItem: false }; // since the last captureInput
+    private inputFromLog = false; // re-simulating: controls come from applyInput, not the keyboard or gamepad
 
     private shipMaterial!: THREE.MeshStandardMaterial;
+    private decalTexture: THREE.CanvasTexture | null = null;
     public jetEngine!: ShipJetEngine;
     public rocketTail!: ShipRocketTail;
     // Auto-throttle after race start until user provides input
@@ -143,6 +182,7 @@ export class Ship {
         // Points defined in local space (ship faces forward along +Z)
 
         const vertices: number[] = [];
+        const uvs: number[] = [];
         const indices: number[] = [];
 
         // Simple wedge dimensions
@@ -155,10 +195,11 @@ export class Ship {
         const frontZ = length * 0.5;
         const rearZ = -length * 0.5;
 
-        // Helper to add vertex and return index
+        // Helper to add vertex and return index; UVs are a top-down projection for livery decals
         const addVertex = (v: THREE.Vector3): number => {
             const idx = vertices.length / 3;
             vertices.push(v.x, v.y, v.z);
+            uvs.push(v.x / rearWidth + 0.5, v.z / length + 0.5);
             return idx;
         };
 
@@ -201,15 +242,18 @@ export class Ship {
 
         const geometry = new THREE.BufferGeometry();
         geometry.setAttribute('position', new THREE.Float32BufferAttribute(vertices, 3));
+        geometry.setAttribute('uv', new THREE.Float32BufferAttribute(uvs, 2));
         geometry.setIndex(indices);
         geometry.computeVertexNormals();
 
         return geometry;
     }
 
-    constructor(track: Track, camera: THREE.PerspectiveCamera) {
+    constructor(track: Track, camera: THREE.PerspectiveCamera, bindings: InputBindings) {
+        this.bindings = bindings;
         this.track = track;
         this.camera = camera;
+        this.checkpoints = new CheckpointTracker(track);
 
         // Simple wedge ship hull
         const body = new THREE.Group();
@@ -434,6 +478,11 @@ export class Ship {
         this.jetEngine = new ShipJetEngine(new THREE.Vector3(0, 0, -0.72));
         body.add(this.jetEngine.root);
 
+        // Shield bubble (hidden until spent from the flow meter)
+        this.shield = new ShipShield();
+        this.shield.centerOn(body);
+        body.add(this.shield.root);
+
         this.root.add(body);
 
         // Create rocket tail boost effect (initially hidden)
@@ -464,28 +513,121 @@ export class Ship {
     }
 
     public input = { left: false, right: false, up: false, down: false, boost: false, yawLeft: false, yawRight: false, drift: false };
+    // Latest gamepad poll; analog axes add to the keyboard flags above (keys read as full deflection)
+    private bindings: InputBindings;
+    private pad = { steer: 0, throttle: 0, brake: 0, boost: false, drift: false };
+
+    // Fed by Game every update; null when no gamepad is connected
+    setGamepadInput(pad: GamepadState | null) {
+        if (this.inputFromLog) return;
+        if (!this.inputEnabled || !pad) {
+            this.clearGamepadInput();
+            return;
+        }
+        this.pad.steer = pad.steer;
+        this.pad.throttle = pad.throttle;
+        this.pad.brake = pad.brake;
+        this.pad.boost = pad.boost;
+        this.pad.drift = pad.drift;
+        if (pad.focusRefill) this.fireAction('focusRefill');
+        if (pad.shield) this.fireAction('shield');
+        if (pad.useItem) this.fireAction('useItem');
+    }
+
+    private clearGamepadInput() {
+        this.pad.steer = 0;
+        this.pad.throttle = 0;
+        this.pad.brake = 0;
+        this.pad.boost = false;
+        this.pad.drift = false;
+    }
 
     private onKey(e: KeyboardEvent, down: boolean) {
         // Only process input if input is enabled (not during countdown)
-        if (!this.inputEnabled) return;
-
-        // Turn (Yaw) - A/D or ArrowLeft/Right
-        if (e.code === 'ArrowLeft' || e.code === 'KeyA') this.input.left = down;
-        if (e.code === 'ArrowRight' || e.code === 'KeyD') this.input.right = down;
-        // Throttle/Brake - W/S or ArrowUp/Down
-        if (e.code === 'ArrowUp' || e.code === 'KeyW') this.input.up = down;     // throttle
-        if (e.code === 'ArrowDown' || e.code === 'KeyS') this.input.down = down; // brake (no reverse)
-        if (e.code === 'Space') this.input.boost = down;
+        if (!this.inputEnabled || this.inputFromLog) return;
+
+        const b = this.bindings;
+        // Turn (Yaw)
+        if (b.is('steerLeft', e.code)) this.input.left = down;
+        if (b.is('steerRight', e.code)) this.input.right = down;
+        // Throttle/Brake
+        if (b.is('throttle', e.code)) this.input.up = down;
+        if (b.is('brake', e.code)) this.input.down = down; // no reverse
+        if (b.is('boost', e.code)) this.input.boost = down;
         // Drift (hold)
-        if (e.code === 'ShiftLeft' || e.code === 'ShiftRight') this.input.drift = down;
-        // Disable Q/E yaw in new scheme (ignored)
-        if (e.code === 'KeyQ') this.input.yawLeft = false;
-        if (e.code === 'KeyE') this.input.yawRight = false;
-
-        // Focus refill key (F key)
-        if (e.code === 'KeyF' && down) {
-            this.triggerFocusRefill();
+        if (b.is('drift', e.code)) this.input.drift = down;
+
+        // Focus refill
+        if (b.is('focusRefill', e.code) && down) {
+            this.fireAction('focusRefill');
         }
+        if (b.is('shield', e.code) && down) this.fireAction('shield');
+        if (b.is('useItem', e.code) && down) this.fireAction('useItem');
+    }
+
+    // One-shot controls act at once and are remembered for the input log
+    private fireAction(action: ShipAction) {
+        this.firedActions[action] = true;
+        this.runAction(action);
+    }
+
+    private runAction(action: ShipAction) {
+        if (action === 'focusRefill') this.triggerFocusRefill();
+        else if (action === 'shield') this.triggerShield();
+        else if (this.heldItem !== null) this.itemUseRequested = true;
+    }
+
+    // This step's controls for the input log; each fired action is reported once
+    captureInput(out: PlayerInput) {
+        out.left = this.input.left;
+        out.right = this.input.right;
+        out.up = this.input.up;
+        out.down = this.input.down;
+        out.boost = this.input.boost;
+        out.yawLeft = this.input.yawLeft;
+        out.yawRight = this.input.yawRight;
+        out.drift = this.input.drift;
+        out.steer = this.pad.steer;
+        out.throttle = this.pad.throttle;
+        out.brake = this.pad.brake;
+        out.padBoost = this.pad.boost;
+        out.padDrift = this.pad.drift;
+        out.focusRefill = this.firedActions.focusRefill;
+        out.shield = this.firedActions.shield;
+        out.useItem = this.firedActions.useItem;
+        this.clearFiredActions();
+    }
+
+    // Re-simulation: one recorded step's controls in place of the keyboard and gamepad
+    applyInput(input: PlayerInput) {
+        this.input.left = input.left;
+        this.input.right = input.right;
+        this.input.up = input.up;
+        this.input.down = input.down;
+        this.input.boost = input.boost;
+        this.input.yawLeft = input.yawLeft;
+        this.input.yawRight = input.yawRight;
+        this.input.drift = input.drift;
+        this.pad.steer = input.steer;
+        this.pad.throttle = input.throttle;
+        this.pad.brake = input.brake;
+        this.pad.boost = input.padBoost;
+        this.pad.drift = input.padDrift;
+        if (input.focusRefill) this.runAction('focusRefill');
+        if (input.shield) this.runAction('shield');
+        if (input.useItem) this.runAction('useItem');
+    }
+
+    setInputFromLog(enabled: boolean) {
+        this.inputFromLog = enabled;
+        this.clearInput();
+        this.clearFiredActions();
+    }
+
+    private clearFiredActions() {
+        this.firedActions.focusRefill = false;
+        this.firedActions.shield = false;
+        this.firedActions.useItem = false;
     }
 
     private onMouseMove(e: MouseEvent) {
@@ -524,6 +666,7 @@ export class Ship {
         this.input.yawLeft = false;
         this.input.yawRight = false;
         this.input.drift = false;
+        this.clearGamepadInput();
         // Do not change autoThrottle here; preserve state across pause/free-fly
     }
 
@@ -531,10 +674,31 @@ export class Ship {
         this.cameraControlEnabled = enabled;
     }
 
+    isCameraControlEnabled(): boolean {
+        return this.cameraControlEnabled;
+    }
+
+    setCameraMode(mode: CameraMode) {
+        this.cameraMode = mode;
+    }
+
+    getCameraMode(): CameraMode {
+        return this.cameraMode;
+    }
+
+    // True while the chase camera is a view from inside the hull (Game hides the model for that render)
+    isCameraInsideShip(): boolean {
+        return this.cameraControlEnabled && CAMERA_MODES.modes[this.cameraMode].hideShip;
+    }
+
     enableInput() {
         this.inputEnabled = true;
     }
 
+    isInputEnabled(): boolean {
+        return this.inputEnabled;
+    }
+
     disableInput() {
         this.inputEnabled = false;
     }
@@ -547,11 +711,61 @@ export class Ship {
         }
     }
 
+    // Spend a full flow meter on a shield instead of a focus refill
+    private triggerShield() {
+        if (this.state.flow >= SHIELD.minFlowRequired && !this.focusRefillActive && this.shieldTimer <= 0) {
+            this.state.flow = 0;
+            this.raiseShield();
+        }
+    }
+
+    // Also raised by a shield item, without spending flow
+    public raiseShield() {
+        this.shieldTimer = SHIELD.duration;
+        this.shield.setActive(true);
+    }
+
+    // Player items are used on demand; the distances only matter to NPCs
+    public wantsToUseItem(): boolean {
+        const requested = this.itemUseRequested;
+        this.itemUseRequested = false;
+        return requested;
+    }
+
+    // EMP hit
+    public drainBoost(amount: number) {
+        this.boostEnergy = Math.max(0, this.boostEnergy - amount);
+    }
+
+    // Boost item
+    public refillBoost() {
+        this.boostEnergy = 1;
+        this.boostRechargeDelay = 0;
+    }
+
+    public isShieldActive(): boolean {
+        return this.shieldTimer > 0;
+    }
+
+    // Shield bubble under the body (the ghost leaves it out of its hull copy)
+    public getShieldRoot(): THREE.Object3D {
+        return this.shield.root;
+    }
+
+    // Collisions and hazards call this first; true when an active shield took the hit
+    public absorbHit(): boolean {
+        if (this.shieldTimer <= 0) return false;
+        this.shieldTimer = 0;
+        this.shield.setActive(false);
+        return true;
+    }
+
     startRace() {
         // Keep lap at 0 - we start before the start line
         // Lap will increment to 1 when crossing the start line for the first time
         // Reset checkpoint flag to ensure clean detection
         this.hasCrossedCheckpointThisFrame = false;
+        this.checkpoints.reset();
         // Ensure prevT is set correctly
         this.prevT = this.state.t;
         this.lapStartTime = this.now; // Initialize lap start time
@@ -578,13 +792,18 @@ export class Ship {
         this.velocitySide = 0;
         this.velocityPitch = 0;
         this.boostTimer = 0;
+        this.contactShake = 0;
         this.boostEnergy = 1;
         this.boostRechargeDelay = 0;
         this.boostKeyWasPressed = false;
         this.boostEnergyPrevious = 1;
         this.now = 0;
         this.prevT = this.state.t; // Initialize to match starting position
-        this.checkpointT = 0.0;
+        this.checkpoints.reset();
+        this.state.nextCheckpointT = 0;
+        this.state.lastLapTime = 0;
+        this.state.lapTimes = [];
+        this.state.sectorSplits = [];
         this.hasCrossedCheckpointThisFrame = false;
         this.mouseYawTarget = 0;
         this.mousePitchTarget = 0;
@@ -604,6 +823,15 @@ export class Ship {
         // Reset focus refill state
         this.focusRefillActive = false;
         this.focusRefillProgress = 0;
+        this.shieldTimer = 0;
+        this.shield.setActive(false);
+        this.heldItem = null;
+        this.itemUseRequested = false;
+        this.clearFiredActions();
+        this.state.hull = 1;
+        this.respawnTimer = 0;
+        this.invulnerableTimer = 0;
+        this.root.visible = true;
 
         // Reset drift state
         this.state.isDrifting = false;
@@ -613,6 +841,9 @@ export class Ship {
         this.state.roll = 0;
         this.velocityRoll = 0;
         this.verticalVelocity = 0;
+        this.airborneTimer = 0;
+        this.resetAirTrick();
+        this.flipAngle = 0;
         // Reset sideways/return state
         this.turnHoldTimer = 0;
         this.turnHoldDir = 0;
@@ -634,6 +865,16 @@ export class Ship {
     update(dt: number) {
         this.now += dt;
 
+        // Wrecked: wait out the respawn delay, then reappear at the last gate
+        if (this.respawnTimer > 0) {
+            this.respawnTimer = Math.max(0, this.respawnTimer - dt);
+            this.state.speedKmh = 0;
+            if (this.respawnTimer === 0) this.respawn();
+            this.updatePositionAndCamera(dt);
+            return;
+        }
+        this.invulnerableTimer = Math.max(0, this.invulnerableTimer - dt);
+
         // Don't move during countdown (when input is disabled)
         if (!this.inputEnabled) {
             this.state.speedKmh = 0;
@@ -645,14 +886,14 @@ export class Ship {
         // speed and boost
         // Manual boost resource: drains while active, regens when not held (with delay)
         let isBoosting = false;
-        const boostKeyCurrentlyPressed = this.input.boost;
+        const boostKeyCurrentlyPressed = this.input.boost || this.pad.boost;
 
         // Check if we were boosting in the previous frame
         const wasBoostingLastFrame = this.boostKeyWasPressed && this.boostEnergy > 0.01;
 
         if (boostKeyCurrentlyPressed && this.boostEnergy > 0) {
             isBoosting = true;
-            this.boostEnergy = Math.max(0, this.boostEnergy - dt / PHYSICS.boostDurationSec);
+            this.boostEnergy = Math.max(0, this.boostEnergy - dt / this.profile.physics.boostDurationSec);
         }
 
         // Detect if boost just ran out (energy drained to 0 while boosting)
@@ -675,18 +916,21 @@ export class Ship {
 
         // Only regenerate boost energy when not actively boosting, delay has elapsed, and key is not pressed
         if (!isBoosting && !boostKeyCurrentlyPressed && this.boostRechargeDelay <= 0) {
-            this.boostEnergy = Math.min(1, this.boostEnergy + PHYSICS.boostRegenPerSec * dt);
+            this.boostEnergy = Math.min(1, this.boostEnergy + this.profile.physics.boostRegenPerSec * dt);
         }
 
         // Update previous frame's state
         this.boostKeyWasPressed = boostKeyCurrentlyPressed;
         this.boostEnergyPrevious = this.boostEnergy;
 
-        const manual = isBoosting ? PHYSICS.boostMultiplier : 1;
+        const manual = isBoosting ? this.profile.physics.boostMultiplier : 1;
 
         // Precompute yaw input and drift state early (used by speed reward below)
-        const yawInput = (this.input.right ? 1 : 0) - (this.input.left ? 1 : 0);
-        const driftActive = (this.input.drift && Math.abs(yawInput) > 0.01);
+        const yawInput = THREE.MathUtils.clamp((this.input.right ? 1 : 0) - (this.input.left ? 1 : 0) + this.pad.steer, -1, 1);
+        const driftHeld = this.input.drift || this.pad.drift;
+        // In the air the drift and steer inputs drive tricks instead
+        const tricking = this.airTrickActive && this.state.verticalOffset > TRICKS.minAirHeight;
+        const driftActive = !tricking && driftHeld && Math.abs(yawInput) > 0.01;
 
         // Tunnel boost logic: progressive boost based on center alignment
         const tunnelInfo = this.track.getTunnelAtT(this.state.t, this.state.lateralOffset);
@@ -714,6 +958,7 @@ export class Ship {
         const boostPadInfo = this.track.getBoostPadAtT(this.state.t);
         const justEnteredBoostPad = boostPadInfo.onPad && !this.wasOnBoostPad;
         if (boostPadInfo.onPad) {
+            this.state.hull = Math.min(1, this.state.hull + HULL.boostPadRegenPerSec * dt);
             // On a boost pad - activate boost and reset timer
             this.boostPadTimer = BOOST_PAD.boostDuration;
             this.boostPadMultiplier = BOOST_PAD.boostMultiplier;
@@ -745,37 +990,46 @@ export class Ship {
         if (justEnteredRamp) {
             this.verticalVelocity += RAMP.upwardImpulseMps;
             this.airborneTimer = RAMP.airDuration;
+            this.resetAirTrick();
+            this.airTrickActive = true;
         }
         this.wasOnRamp = rampInfo.onRamp;
 
-        // Throttle-based base speed (non-boost)
-        const throttleHeld = this.input.up;
-        const brakeHeld = this.input.down;
-        const reachedMaxNonBoost = this.baseSpeedKmh >= PHYSICS.maxNonBoostKmh - 0.001;
+        // Throttle-based base speed (non-boost); analog triggers scale accel/decel and cap the throttle speed
+        const throttle = Math.max(this.input.up ? 1 : 0, this.pad.throttle);
+        const brake = Math.max(this.input.down ? 1 : 0, this.pad.brake);
+        const throttleHeld = throttle > 0;
+        const brakeHeld = brake > 0;
+        const reachedMaxNonBoost = this.baseSpeedKmh >= this.profile.physics.maxNonBoostKmh - 0.001;
         if (throttleHeld) {
-            this.baseSpeedKmh = Math.min(PHYSICS.maxNonBoostKmh, this.baseSpeedKmh + PHYSICS.throttleAccelKmhPerSec * dt);
+            const throttleCap = this.profile.physics.maxNonBoostKmh * throttle;
+            if (this.baseSpeedKmh < throttleCap) {
+                this.baseSpeedKmh = Math.min(throttleCap, this.baseSpeedKmh + this.profile.physics.throttleAccelKmhPerSec * throttle * dt);
+            } else {
+                this.baseSpeedKmh = Math.max(throttleCap, this.baseSpeedKmh - this.profile.physics.coastDecelKmhPerSec * dt);
+            }
             // User provided input; disable auto-throttle
             this.autoThrottleActive = false;
         } else if (brakeHeld) {
-            this.baseSpeedKmh = Math.max(0, this.baseSpeedKmh - PHYSICS.brakeDecelKmhPerSec * dt);
+            this.baseSpeedKmh = Math.max(0, this.baseSpeedKmh - this.profile.physics.brakeDecelKmhPerSec * brake * dt);
             this.autoThrottleActive = false;
         } else {
             if (this.autoThrottleActive) {
                 // Gently ramp toward a baseline cruising speed without user input
-                const cruise = PHYSICS.baseSpeed;
-                const accel = PHYSICS.throttleAccelKmhPerSec * 0.6;
+                const cruise = this.profile.physics.baseSpeed;
+                const accel = this.profile.physics.throttleAccelKmhPerSec * 0.6;
                 if (this.baseSpeedKmh < cruise) {
                     this.baseSpeedKmh = Math.min(cruise, this.baseSpeedKmh + accel * dt);
                 } else if (!reachedMaxNonBoost) {
                     // If above cruise but below non-boost max, let normal decay handle it
-                    this.baseSpeedKmh = Math.max(cruise, this.baseSpeedKmh - PHYSICS.coastDecelKmhPerSec * dt);
+                    this.baseSpeedKmh = Math.max(cruise, this.baseSpeedKmh - this.profile.physics.coastDecelKmhPerSec * dt);
                 }
             } else {
                 // Coast behavior: decay unless at max non-boost speed; hold when at max
                 if (reachedMaxNonBoost) {
-                    this.baseSpeedKmh = PHYSICS.maxNonBoostKmh;
+                    this.baseSpeedKmh = this.profile.physics.maxNonBoostKmh;
                 } else {
-                    this.baseSpeedKmh = Math.max(0, this.baseSpeedKmh - PHYSICS.coastDecelKmhPerSec * dt);
+                    this.baseSpeedKmh = Math.max(0, this.baseSpeedKmh - this.profile.physics.coastDecelKmhPerSec * dt);
                 }
             }
         }
@@ -787,8 +1041,8 @@ export class Ship {
             const slipFrac = THREE.MathUtils.clamp(Math.abs(this.driftSlipAngle) / Math.max(1e-6, DRIFT.slipAngleMaxRad), 0, 1);
             const k = THREE.MathUtils.clamp((DRIFT.driftSpeedFromSlip ?? 1.0) * slipFrac, 0, 1);
             const driftMult = THREE.MathUtils.lerp(
-                (DRIFT.driftSpeedMinMultiplier ?? 1.0),
-                (DRIFT.driftSpeedMaxMultiplier ?? 1.0),
+                this.profile.drift.driftSpeedMinMultiplier,
+                this.profile.drift.driftSpeedMaxMultiplier,
                 k
             );
             targetSpeed *= driftMult;
@@ -798,7 +1052,7 @@ export class Ship {
         if (this.draftingActive) {
             const matchTarget = Math.min(
                 Math.max(this.draftingLeadSpeedKmh + DRAFTING.matchMaxDelta, this.state.speedKmh),
-                PHYSICS.maxSpeed
+                this.profile.physics.maxSpeed
             );
             targetSpeed = Math.max(targetSpeed, matchTarget);
         }
@@ -818,37 +1072,16 @@ export class Ship {
         // lap time calculation
         this.lapTime = this.now - this.lapStartTime;
 
-        // lap detection: crossing checkpoint at t=0
+        // lap detection: the line only counts once every checkpoint gate was passed in order
         // Count laps from the start (lapCurrent >= 0)
+        const passedGate = this.checkpoints.advance(prevTBeforeUpdate, this.state.t);
+        this.state.nextCheckpointT = this.checkpoints.getNextT();
         if (this.state.lapCurrent >= 0 && !this.hasCrossedCheckpointThisFrame) {
-            const prevT = prevTBeforeUpdate;
-            let newT = this.state.t;
-
-            // Check if we'll wrap
-            const willWrapForward = newT > 1;
-            const willWrapBackward = newT < 0;
-
-            // Normal case: crossed from negative to positive (without wrapping)
-            const normalCrossing = prevT < 0 && newT >= 0 && !willWrapForward && !willWrapBackward;
-
-            // Wrapping case: detect if we're about to wrap or just wrapped
-            let wrappingCrossing = false;
-            if (willWrapForward) {
-                // We're about to wrap forward: prevT was > 0.5 means we crossed 0
-                wrappingCrossing = prevT > 0.5;
-                // Wrap now for detection
-                newT = newT - 1;
-            } else if (willWrapBackward) {
-                // Wrapping backward shouldn't happen, but handle it
-                wrappingCrossing = false;
-            } else {
-                // Check if we already wrapped (prevT high, newT low after wrap)
-                // This handles the case where wrapping happened in a previous step
-                // But since we wrap after detection, we can check: prevT > 0.9 and newT < 0.1
-                wrappingCrossing = prevT > 0.9 && newT < 0.1;
+            if (passedGate > 0 && this.state.lapCurrent >= 1) {
+                // Keyed by gate so reversing over a gate and re-passing it overwrites instead of adding a split
+                this.state.sectorSplits[passedGate - 1] = this.lapTime;
             }
-
-            if (normalCrossing || wrappingCrossing) {
+            if (passedGate === 0) {
                 // Increment lap count (0 -> 1, 1 -> 2, 2 -> 3)
                 // Race finishes when crossing at lap 3 (lapCurrent >= lapTotal after increment)
                 this.state.lapCurrent++;
@@ -858,8 +1091,9 @@ export class Ship {
                 if (this.state.lapCurrent > 1) {
                     // Lap times after lap 1 (don't count the pre-race countdown lap)
                     this.state.lastLapTime = this.lapTime;
-                    this.state.lapTimes!.push(this.lapTime);
+                    this.state.lapTimes.push({ time: this.lapTime, splits: [...this.state.sectorSplits, this.lapTime] });
                 }
+                this.state.sectorSplits = [];
 
                 this.lapStartTime = this.now; // Update lap start time
                 this.lapTime = 0; // Reset lap time
@@ -877,10 +1111,10 @@ export class Ship {
         this.hasCrossedCheckpointThisFrame = false;
 
         // Yaw-driven turning: A/D (or arrows) control yaw and lateral
-        let targetSideVel = yawInput * PHYSICS.lateralAccel;
+        let targetSideVel = yawInput * this.profile.physics.lateralAccel;
         // Reduce grip and damping while drifting for a slippy feel
-        const lateralDamping = driftActive ? (PHYSICS.lateralDamping * DRIFT.driftDampingFactor) : PHYSICS.lateralDamping;
-        if (driftActive) targetSideVel *= DRIFT.driftGripFactor;
+        const lateralDamping = driftActive ? (this.profile.physics.lateralDamping * this.profile.drift.driftDampingFactor) : this.profile.physics.lateralDamping;
+        if (driftActive) targetSideVel *= this.profile.drift.driftGripFactor;
         this.velocitySide = THREE.MathUtils.damp(this.velocitySide, targetSideVel, lateralDamping, dt);
 
         // Force velocitySide to 0 when there's no input and it's very small (prevents drift)
@@ -892,6 +1126,11 @@ export class Ship {
         const lateralLimit = half * 0.95;
         this.state.lateralOffset = THREE.MathUtils.clamp(this.state.lateralOffset + this.velocitySide * dt, -lateralLimit, lateralLimit);
 
+        // Scraping the edge limit while still steering into it wears the hull
+        if (Math.abs(this.state.lateralOffset) >= lateralLimit && Math.sign(this.velocitySide) === Math.sign(this.state.lateralOffset) && this.state.speedKmh > HULL.wallScrapeMinSpeedKmh) {
+            this.applyDamage(HULL.wallScrapeDamagePerSec * (this.state.speedKmh / this.profile.physics.maxNonBoostKmh) * dt);
+        }
+
         // Apply draft lock follow assist (gentle magnetic alignment toward lead lane)
         if (this.draftFollowActive) {
             const k = THREE.MathUtils.clamp(this.draftFollowStrength * dt, 0, 1);
@@ -918,7 +1157,9 @@ export class Ship {
         const turningActive = dir !== 0;
         let desiredRoll = this.state.roll;
 
-        if (driftActive) {
+        if (this.airTrickActive && (this.trickRollDir !== 0 || (tricking && dir !== 0))) {
+            desiredRoll = this.updateTrickRoll(tricking ? dir : 0, dt);
+        } else if (driftActive) {
             // While drifting, ship should not roll: force target roll to 0 and reset roll state machine
             desiredRoll = 0;
             this.turnHoldTimer = 0;
@@ -1005,6 +1246,7 @@ export class Ship {
         const rollDamping = driftActive ? (PHYSICS.rollDamping * 3.0) : PHYSICS.rollDamping;
         this.state.roll = THREE.MathUtils.damp(this.state.roll, desiredRoll, rollDamping, dt);
         this.velocityRoll = 0;
+        this.updateTrickFlip(tricking && driftHeld, dt);
 
         // Vertical behavior: spring toward base hover height (no free flight)
         {
@@ -1025,6 +1267,9 @@ export class Ship {
                 this.state.verticalOffset = vHalf;
                 if (this.verticalVelocity > 0) this.verticalVelocity = 0;
             }
+            if (this.airTrickActive && this.verticalVelocity <= 0 && this.state.verticalOffset <= TRICKS.landingHeight) {
+                this.landAirTrick();
+            }
         }
 
         // Drift detection: hold Shift while turning (replaces boost+turn)
@@ -1077,13 +1322,20 @@ export class Ship {
             // When flow is full, user can use it to refill boost (focus refill)
             if (this.state.isDrifting) {
                 // Only add flow when drifting
-                const driftFlowGain = DRIFT.flowRefillRate * dt;
+                const driftFlowGain = this.profile.drift.flowRefillRate * dt;
                 this.state.flow = THREE.MathUtils.clamp(this.state.flow + driftFlowGain, 0, 1);
             }
             // Flow does not drain - it stays at current level until drifting adds more
             // or until focus refill is used (which drains flow to refill boost)
         }
 
+        // Shield times out if nothing hits it
+        if (this.shieldTimer > 0) {
+            this.shieldTimer = Math.max(0, this.shieldTimer - dt);
+            if (this.shieldTimer === 0) this.shield.setActive(false);
+        }
+        this.shield.update(dt);
+
         // Reset one-frame drafting flag (must be set by DraftingSystem before this update)
         this.draftingActive = false;
 
@@ -1129,7 +1381,7 @@ export class Ship {
         // Create rotation from Euler with order 'YXZ': Y (yaw) first, X (pitch) second, Z (bank) last
         // Euler(x, y, z, order) where x=pitch, y=yaw, z=bank
         // 'YXZ' order ensures yaw is applied first so it doesn't affect pitch axis
-        const inputEuler = new THREE.Euler(this.state.pitch, shipYaw, rollAngle, 'YXZ');
+        const inputEuler = new THREE.Euler(this.state.pitch + this.flipAngle, shipYaw, rollAngle, 'YXZ');
         const inputQ = new THREE.Quaternion().setFromEuler(inputEuler);
 
         // Apply input rotation to base quaternion
@@ -1158,9 +1410,181 @@ export class Ship {
         this.updateCamera(dt);
     }
 
+    // Ship-to-ship contact from CollisionSystem: push (m), lateral bump (m/s), fractional speed loss
+    public applyContact(push: number, bumpSpeed: number, speedLoss: number) {
+        const lateralLimit = this.track.width * 0.5 * 0.95;
+        this.state.lateralOffset = THREE.MathUtils.clamp(this.state.lateralOffset + push, -lateralLimit, lateralLimit);
+        this.velocitySide += bumpSpeed;
+        this.baseSpeedKmh *= 1 - speedLoss;
+        this.state.speedKmh *= 1 - speedLoss;
+    }
+
+    // Hull damage from impacts and hazards; the ship explodes at zero
+    public applyDamage(amount: number) {
+        if (this.respawnTimer > 0 || this.invulnerableTimer > 0 || !this.inputEnabled) return;
+        this.state.hull = Math.max(0, this.state.hull - amount);
+        if (this.state.hull > 0) return;
+
+        this.respawnTimer = HULL.respawnDelaySec;
+        this.root.visible = false;
+        this.state.speedKmh = 0;
+        this.baseSpeedKmh = 0;
+        this.velocitySide = 0;
+        this.state.boosting = false;
+        this.absorbHit();
+        const position = this.root.getWorldPosition(new THREE.Vector3());
+        this.destroyedHandlers.forEach(h => h(position));
+    }
+
+    public isWrecked(): boolean {
+        return this.respawnTimer > 0;
+    }
+
+    // Fired when the hull gives out, with the wreck's world position
+    public onDestroyed(handler: (position: THREE.Vector3) => void) {
+        this.destroyedHandlers.push(handler);
+    }
+
+    // Back on the racing line at the last gate passed, from standstill
+    private respawn() {
+        const gateT = this.checkpoints.getLastT();
+        if (gateT !== null) this.state.t = gateT;
+        this.prevT = this.state.t;
+        this.state.lateralOffset = 0;
+        this.state.verticalOffset = 0;
+        this.verticalVelocity = 0;
+        this.airborneTimer = 0;
+        this.resetAirTrick();
+        this.flipAngle = 0;
+        this.state.roll = 0;
+        this.state.hull = 1;
+        this.invulnerableTimer = HULL.invulnerableSec;
+        this.root.visible = true;
+    }
+
+    // Fired on landing a jump where a trick was tried; clean is false when landing mid-rotation
+    public onTrickLanded(handler: (rotations: number, clean: boolean) => void) {
+        this.trickLandedHandlers.push(handler);
+    }
+
+    // Barrel roll while steering in the air; after release the roll runs on to the next full turn
+    private updateTrickRoll(dir: number, dt: number): number {
+        const turn = Math.PI * 2;
+        const step = TRICKS.rollRate * dt;
+        if (dir !== 0) {
+            if (this.trickRollDir === 0) {
+                // Take over from the ground roll state machine
+                this.turnHoldTimer = 0;
+                this.turnHoldDir = 0;
+                this.rollSideReached = false;
+                this.rollSideDir = 0;
+                this.rollSidePauseTimer = 0;
+                this.rollReturnAnimating = false;
+            }
+            this.trickAttempted = true;
+            this.trickRollDir = dir;
+            this.state.roll += dir * step;
+            this.rollSpun += step;
+            return this.state.roll;
+        }
+
+        const target = (this.trickRollDir > 0 ? Math.ceil(this.state.roll / turn) : Math.floor(this.state.roll / turn)) * turn;
+        const remaining = Math.abs(target - this.state.roll);
+        if (remaining > step) {
+            this.state.roll += this.trickRollDir * step;
+            this.rollSpun += step;
+            return this.state.roll;
+        }
+        this.rollSpun += remaining;
+        this.trickRotations += Math.round(this.rollSpun / turn);
+        this.rollSpun = 0;
+        this.trickRollDir = 0;
+        this.state.roll = 0; // a whole number of turns looks level
+        return 0;
+    }
+
+    // Flip while holding drift in the air; like rolls, a released flip finishes its turn
+    private updateTrickFlip(flipping: boolean, dt: number) {
+        const turn = Math.PI * 2;
+        const step = TRICKS.flipRate * dt;
+        if (flipping) {
+            this.trickAttempted = true;
+            this.flipFinishing = true;
+            this.flipAngle += step;
+            this.flipSpun += step;
+        } else if (this.flipFinishing) {
+            const remaining = Math.ceil(this.flipAngle / turn) * turn - this.flipAngle;
+            if (remaining > step) {
+                this.flipAngle += step;
+                this.flipSpun += step;
+            } else {
+                this.flipSpun += remaining;
+                this.trickRotations += Math.round(this.flipSpun / turn);
+                this.flipSpun = 0;
+                this.flipFinishing = false;
+                this.flipAngle = 0;
+            }
+        } else {
+            this.flipAngle = THREE.MathUtils.damp(this.flipAngle, 0, PHYSICS.rollDamping, dt);
+        }
+    }
+
+    // Touchdown: completed rotations refill boost; landing mid-rotation costs speed
+    private landAirTrick() {
+        const turn = Math.PI * 2;
+        const offTurn = (angle: number) => Math.abs(angle - Math.round(angle / turn) * turn);
+        const rollMiss = this.trickRollDir !== 0 ? offTurn(this.state.roll) : 0;
+        const flipMiss = this.flipFinishing ? offTurn(this.flipAngle) : 0;
+        const clean = rollMiss <= TRICKS.landingTolerance && flipMiss <= TRICKS.landingTolerance;
+
+        if (clean) {
+            // Close enough to a full turn counts as finished
+            if (this.trickRollDir !== 0) this.trickRotations += Math.round(this.rollSpun / turn);
+            if (this.flipFinishing) this.trickRotations += Math.round(this.flipSpun / turn);
+            this.state.roll = 0;
+            this.flipAngle = 0;
+            this.boostEnergy = Math.min(1, this.boostEnergy + TRICKS.boostRewardPerRotation * this.trickRotations);
+        } else {
+            this.baseSpeedKmh *= 1 - TRICKS.badLandingSpeedLoss;
+            this.state.speedKmh *= 1 - TRICKS.badLandingSpeedLoss;
+            // Level out through the ground roll return animation; the flip damps back
+            this.state.roll -= Math.round(this.state.roll / turn) * turn;
+            this.rollSideReached = true;
+            this.rollSideDir = Math.sign(this.state.roll);
+            this.rollReturnAnimating = true;
+            this.rollReturnProgress = 0;
+            this.rollReturnStartAngle = this.state.roll;
+            this.flipAngle -= Math.round(this.flipAngle / turn) * turn;
+        }
+
+        const attempted = this.trickAttempted;
+        const rotations = clean ? this.trickRotations : 0;
+        this.resetAirTrick();
+        if (attempted) this.trickLandedHandlers.forEach(h => h(rotations, clean));
+    }
+
+    private resetAirTrick() {
+        this.airTrickActive = false;
+        this.trickAttempted = false;
+        this.trickRotations = 0;
+        this.trickRollDir = 0;
+        this.rollSpun = 0;
+        this.flipFinishing = false;
+        this.flipSpun = 0;
+    }
+
+    // Takes effect immediately; the menu only offers it between races
+    public setShipClass(classId: ShipClassId) {
+        this.profile = resolveShipProfile(classId);
+    }
+
+    public addCameraShake(strength: number) {
+        this.contactShake = Math.min(1, this.contactShake + strength);
+    }
+
     // Input/query helpers
     public isBoostHeld(): boolean {
-        return this.input.boost;
+        return this.input.boost || this.pad.boost;
     }
 
     private updateShipPosition() {
@@ -1236,23 +1660,33 @@ export class Ship {
         this.cameraYawVelocity = THREE.MathUtils.damp(this.cameraYawVelocity, this.targetCameraYaw - this.cameraYaw, CAMERA.cameraYawDamping, dt);
         this.cameraYaw += this.cameraYawVelocity * dt;
 
-        // chase camera locked directly behind ship (racing game style)
-        const camDistance = CAMERA.chaseDistance * (1 + this.boostTimer * 0.6);
+        // Camera locked behind (or on) the ship for the selected mode; boost pulls trailing views back
+        const view = CAMERA_MODES.modes[this.cameraMode];
+        const camDistance = view.rigid ? view.distance : view.distance * (1 + this.boostTimer * 0.6);
         const cameraPosition = new THREE.Vector3()
             .copy(camPos)
-            .addScaledVector(up, CAMERA.chaseHeight)
+            .addScaledVector(up, view.height)
             .addScaledVector(forward, -camDistance);
-        this.camera.position.lerp(cameraPosition, 1 - Math.pow(0.0001, dt));
+        if (view.rigid) this.camera.position.copy(cameraPosition);
+        else this.camera.position.lerp(cameraPosition, 1 - Math.pow(0.0001, dt));
 
         // Look ahead down the track in Frenet frame, then apply Mario Kart-style camera yaw
-        const lookAhead = CAMERA.lookAheadDistance;
         const baseLookPoint = new THREE.Vector3()
             .copy(camPos)
-            .addScaledVector(forward, lookAhead)
+            .addScaledVector(forward, view.lookAhead)
             .addScaledVector(up, 0.2);
 
-        // Align camera up with track normal so roll matches banking
-        this.camera.up.copy(up);
+        // Align camera up with track normal so roll matches banking; top-down keeps the track ahead at the top
+        this.camera.up.copy(view.topDown ? forward : up);
+
+        // Mirror eye above the ship, looking back down the track
+        const mirrorLook = new THREE.Vector3()
+            .copy(camPos)
+            .addScaledVector(forward, -CAMERA_MODES.mirror.lookBehind)
+            .addScaledVector(up, CAMERA_MODES.mirror.height);
+        this.mirrorCamera.position.copy(camPos).addScaledVector(up, CAMERA_MODES.mirror.height);
+        this.mirrorCamera.up.copy(up);
+        this.mirrorCamera.lookAt(mirrorLook);
 
         // Reset mouse look targets when button is not held
         if (!this.mouseButtonDown) {
@@ -1280,9 +1714,17 @@ export class Ship {
         this.camera.updateProjectionMatrix();
 
         // subtle speed shake
-        const shake = CAMERA.shakeMax * (this.state.speedKmh / PHYSICS.maxSpeed) * (0.4 + 0.6 * this.boostTimer);
+        const shake = CAMERA.shakeMax * (this.state.speedKmh / this.profile.physics.maxSpeed) * (0.4 + 0.6 * this.boostTimer);
         this.camera.position.x += (Math.random() - 0.5) * shake;
         this.camera.position.y += (Math.random() - 0.5) * shake;
+
+        // contact shake, decays after ship-to-ship hits
+        if (this.contactShake > 0) {
+            const hit = COLLISION.shakeMax * this.contactShake;
+            this.camera.position.x += (Math.random() - 0.5) * hit;
+            this.camera.position.y += (Math.random() - 0.5) * hit;
+            this.contactShake = Math.max(0, this.contactShake - COLLISION.shakeDecay * dt);
+        }
     }
 
     // Getters for focus refill state
@@ -1303,10 +1745,23 @@ export class Ship {
         return this.boostPadTimer;
     }
 
+    // Seconds since the current lap started
+    public getLapTime(): number {
+        return this.lapTime;
+    }
+
     public getNow(): number {
         return this.now;
     }
 
+    // Paint job from the SHIP menu; the hull colour is what getColor() reports
+    public applyLivery(livery: ShipLivery) {
+        this.decalTexture?.dispose();
+        this.decalTexture = createDecalTexture(livery.decal);
+        paintShipModel(this.root, livery, this.decalTexture);
+        this.jetEngine.setTint(new THREE.Color(livery.flameColor));
+    }
+
     // Expose ship color for color-matched effects
     public getColor(): THREE.Color {
         return this.shipMaterial?.color ?? new THREE.Color(0xffffff);
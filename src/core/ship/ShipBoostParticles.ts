@@ -30,6 +30,7 @@ export class ShipBoostParticles {
     private imesh: THREE.InstancedMesh;
     private tmpObj = new THREE.Object3D();
     private colors: THREE.Color[] = [];
+    private tint = new THREE.Color(0x00ffff); // cyan unless a livery flame colour is set
     private maxParticles = 50;
     private scaleMultiplier = 1.0;
     private baseOpacity = 0.8;
@@ -44,7 +45,7 @@ export class ShipBoostParticles {
 
         // Create material with additive blending for glow effect
         const material = new THREE.MeshBasicMaterial({
-            color: 0x00ffff, // Cyan
+            color: 0xffffff, // Per-instance colour carries the tint
             transparent: true,
             opacity: this.baseOpacity,
             blending: THREE.AdditiveBlending,
@@ -115,6 +116,10 @@ export class ShipBoostParticles {
         this.particles.push(particle);
     }
 
+    public setColor(color: THREE.Color) {
+        this.tint.copy(color);
+    }
+
     update(dt: number) {
         // Only visible when boosting
         const isBoosting = this.ship.state.boosting;
@@ -177,7 +182,7 @@ export class ShipBoostParticles {
 
             // Update color
             const color = this.colors[i];
-            color.setHSL(0.5, 1.0, 0.5); // Cyan
+            color.copy(this.tint);
             color.multiplyScalar(particle.opacity);
             this.imesh.setColorAt(i, color);
         }
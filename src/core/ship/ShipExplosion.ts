@@ -0,0 +1,65 @@
+import * as THREE from 'three';
+import { HULL } from '../constants';
+
+// One-shot debris burst where a ship's hull gave out; Game removes it once isDone()
+export class ShipExplosion {
+    public root = new THREE.Group();
+    private imesh: THREE.InstancedMesh;
+    private velocities: THREE.Vector3[] = [];
+    private positions: THREE.Vector3[] = [];
+    private age = 0;
+    private tmpObj = new THREE.Object3D();
+
+    constructor(position: THREE.Vector3, color: THREE.Color) {
+        const count = HULL.explosionParticles;
+        const geometry = new THREE.SphereGeometry(0.35, 6, 4);
+        const material = new THREE.MeshBasicMaterial({
+            color: 0xffffff,
+            transparent: true,
+            opacity: 1.0,
+            blending: THREE.AdditiveBlending,
+            depthWrite: false,
+            toneMapped: false
+        });
+        this.imesh = new THREE.InstancedMesh(geometry, material, count);
+        this.imesh.frustumCulled = false;
+        this.root.add(this.imesh);
+
+        const hot = new THREE.Color(0xffdd55);
+        for (let i = 0; i < count; i++) {
+            // Random direction on the unit sphere, random speed
+            const dir = new THREE.Vector3().randomDirection();
+            this.velocities.push(dir.multiplyScalar(HULL.explosionSpeed * (0.4 + 0.6 * Math.random())));
+            this.positions.push(position.clone());
+            this.imesh.setColorAt(i, (i % 3 === 0 ? color : hot).clone());
+        }
+        if (this.imesh.instanceColor) this.imesh.instanceColor.needsUpdate = true;
+        this.update(0);
+    }
+
+    update(dt: number) {
+        this.age += dt;
+        const life = THREE.MathUtils.clamp(1 - this.age / HULL.explosionLifetime, 0, 1);
+        const drag = Math.exp(-3 * dt);
+        for (let i = 0; i < this.positions.length; i++) {
+            this.velocities[i].multiplyScalar(drag);
+            this.positions[i].addScaledVector(this.velocities[i], dt);
+            this.tmpObj.position.copy(this.positions[i]);
+            this.tmpObj.scale.setScalar(0.3 + 1.7 * life);
+            this.tmpObj.updateMatrix();
+            this.imesh.setMatrixAt(i, this.tmpObj.matrix);
+        }
+        this.imesh.instanceMatrix.needsUpdate = true;
+        (this.imesh.material as THREE.MeshBasicMaterial).opacity = life;
+    }
+
+    isDone(): boolean {
+        return this.age >= HULL.explosionLifetime;
+    }
+
+    dispose() {
+        this.imesh.geometry.dispose();
+        (this.imesh.material as THREE.Material).dispose();
+        this.imesh.dispose();
+    }
+}
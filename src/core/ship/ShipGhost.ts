@@ -0,0 +1,196 @@
+import * as THREE from 'three';
+import { GHOST, PHYSICS, RENDER } from '../constants';
+import { loadJSON, saveJSON } from '../Storage';
+import type { Track } from '../Track';
+import type { Ship } from './Ship';
+import type { GhostFrame, GhostLap } from '../types';
+
+// Records the player's lap every fixed step and replays the best one as a translucent ship
+export class ShipGhost {
+    public root = new THREE.Group();
+
+    private track: Track;
+    private trackId: string;
+    private hullMaterial: THREE.MeshBasicMaterial;
+    private edgeMaterial: THREE.LineBasicMaterial;
+
+    // Recording of the lap currently being driven
+    private recording: GhostFrame[] = [];
+    private recordingActive = false;
+    private readonly maxFrames = GHOST.maxLapSeconds * RENDER.targetFPS;
+
+    // Best lap playback
+    private bestLap: GhostLap | null = null;
+    private playbackIndex = 0;
+    private playbackActive = false;
+
+    private tmp = {
+        pos: new THREE.Vector3(),
+        tangent: new THREE.Vector3(),
+        normal: new THREE.Vector3(),
+        binormal: new THREE.Vector3(),
+        x: new THREE.Vector3(),
+        y: new THREE.Vector3(),
+        basis: new THREE.Matrix4(),
+        rollEuler: new THREE.Euler(0, 0, 0, 'YXZ'),
+        rollQ: new THREE.Quaternion()
+    };
+
+    constructor(track: Track, ship: Ship) {
+        this.track = track;
+        this.trackId = track.trackId;
+
+        this.hullMaterial = new THREE.MeshBasicMaterial({
+            color: GHOST.color,
+            transparent: true,
+            opacity: GHOST.opacity,
+            depthWrite: false,
+            side: THREE.DoubleSide,
+            toneMapped: false
+        });
+        this.edgeMaterial = new THREE.LineBasicMaterial({
+            color: GHOST.color,
+            transparent: true,
+            opacity: GHOST.edgeOpacity,
+            depthWrite: false,
+            toneMapped: false
+        });
+
+        // Mirror the player hull (engine, tail and shield effects are skipped)
+        const skip = new Set<THREE.Object3D>([ship.jetEngine.root, ship.rocketTail.root, ship.getShieldRoot()]);
+        ship.root.children.forEach((child) => {
+            const clone = this.cloneModel(child, skip);
+            if (clone) this.root.add(clone);
+        });
+        this.root.scale.copy(ship.root.scale);
+        this.root.visible = false;
+
+        this.bestLap = this.load();
+    }
+
+    // Start recording a fresh lap and restart the ghost from the line
+    public beginLap() {
+        this.recording = [];
+        this.recordingActive = true;
+        this.playbackIndex = 0;
+        this.playbackActive = this.bestLap !== null;
+    }
+
+    // Called once per fixed step while racing
+    public record(state: GhostFrame) {
+        if (!this.recordingActive) return;
+        if (this.recording.length >= this.maxFrames) {
+            this.recordingActive = false;
+            return;
+        }
+        this.recording.push({
+            t: state.t,
+            lateralOffset: state.lateralOffset,
+            verticalOffset: state.verticalOffset,
+            roll: state.roll,
+            speedKmh: state.speedKmh,
+            boosting: state.boosting
+        });
+    }
+
+    // Close the current recording; keeps it when it beats the stored best. Returns true on a new best.
+    public completeLap(lapTime: number): boolean {
+        const frames = this.recording;
+        const complete = this.recordingActive && frames.length > 0;
+        this.recordingActive = false;
+        this.recording = [];
+        if (!complete || lapTime <= 0) return false;
+        if (this.bestLap && this.bestLap.lapTime <= lapTime) return false;
+
+        this.bestLap = { trackId: this.trackId, lapTime, frames };
+        this.save(this.bestLap);
+        return true;
+    }
+
+    // Advance playback by one recorded frame (frames were captured one per fixed step)
+    public update() {
+        const lap = this.bestLap;
+        if (!this.playbackActive || !lap || this.playbackIndex >= lap.frames.length) {
+            this.root.visible = false;
+            return;
+        }
+
+        this.applyFrame(lap.frames[this.playbackIndex]);
+        this.playbackIndex++;
+        this.root.visible = true;
+    }
+
+    public getBestLapTime(): number | null {
+        return this.bestLap ? this.bestLap.lapTime : null;
+    }
+
+    public reset() {
+        this.recording = [];
+        this.recordingActive = false;
+        this.playbackIndex = 0;
+        this.playbackActive = false;
+        this.root.visible = false;
+    }
+
+    public dispose() {
+        // Geometry is shared with the player ship; only ghost materials are owned here
+        this.hullMaterial.dispose();
+        this.edgeMaterial.dispose();
+        this.root.clear();
+    }
+
+    private applyFrame(frame: GhostFrame) {
+        const { pos, tangent, normal, binormal, x, y, basis, rollEuler, rollQ } = this.tmp;
+        this.track.getPointAtT(frame.t, pos);
+        this.track.getFrenetFrame(frame.t, normal, binormal, tangent);
+
+        pos.addScaledVector(binormal, frame.lateralOffset);
+        pos.addScaledVector(normal, PHYSICS.hoverHeight + frame.verticalOffset);
+
+        // Same track-aligned basis as the player ship, plus the recorded roll
+        tangent.normalize();
+        x.crossVectors(normal, tangent).normalize();
+        y.crossVectors(tangent, x).normalize();
+        basis.makeBasis(x, y, tangent);
+        this.root.quaternion.setFromRotationMatrix(basis);
+        rollEuler.set(0, 0, frame.roll, 'YXZ');
+        this.root.quaternion.multiply(rollQ.setFromEuler(rollEuler));
+        this.root.position.copy(pos);
+
+        this.hullMaterial.opacity = frame.boosting ? GHOST.boostOpacity : GHOST.opacity;
+    }
+
+    private cloneModel(object: THREE.Object3D, skip: Set<THREE.Object3D>): THREE.Object3D | null {
+        if (skip.has(object)) return null;
+
+        let clone: THREE.Object3D;
+        if (object instanceof THREE.Mesh) {
+            clone = new THREE.Mesh(object.geometry, this.hullMaterial);
+        } else if (object instanceof THREE.LineSegments) {
+            clone = new THREE.LineSegments(object.geometry, this.edgeMaterial);
+        } else if (object instanceof THREE.Group) {
+            clone = new THREE.Group();
+        } else {
+            return null;
+        }
+
+        clone.position.copy(object.position);
+        clone.rotation.copy(object.rotation);
+        clone.scale.copy(object.scale);
+        object.children.forEach((child) => {
+            const c = this.cloneModel(child, skip);
+            if (c) clone.add(c);
+        });
+        return clone;
+    }
+
+    private load(): GhostLap | null {
+        const lap = loadJSON<GhostLap | null>(GHOST.storageKeyPrefix + this.trackId, null);
+        if (lap?.trackId !== this.trackId || !Array.isArray(lap.frames) || lap.frames.length === 0) return null;
+        return lap;
+    }
+
+    private save(lap: GhostLap) {
+        saveJSON(GHOST.storageKeyPrefix + this.trackId, lap);
+    }
+}
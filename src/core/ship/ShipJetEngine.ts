@@ -1,4 +1,6 @@
 import * as THREE from 'three';
+import { LIVERY } from '../constants';
+import { getFlameShades } from './ShipLivery';
 
 export class ShipJetEngine {
     public root = new THREE.Group();
@@ -20,6 +22,9 @@ export class ShipJetEngine {
 
     // (Removed warm outer cone)
 
+    // Flame colours (livery tint)
+    private shades = getFlameShades(new THREE.Color(LIVERY.defaults.flameColor));
+
     // Animation state
     private timeSec: number = 0;
     private tmpColor = new THREE.Color();
@@ -118,6 +123,10 @@ export class ShipJetEngine {
         // No outer warm cone; engine visuals are purely blue
     }
 
+    public setTint(tint: THREE.Color) {
+        this.shades = getFlameShades(tint);
+    }
+
     // isMoving=true when the ship has non-zero forward speed
     public update(dt: number, isMoving: boolean, isBoosting: boolean) {
         this.timeSec += dt;
@@ -135,12 +144,8 @@ export class ShipJetEngine {
         const coneTargetOpacity = isMoving ? (isBoosting ? 1.0 : 0.98) : 0.85;
         this.coneOpacity = THREE.MathUtils.damp(this.coneOpacity, coneTargetOpacity, 10, dt);
         this.coneMaterial.opacity = THREE.MathUtils.clamp(this.coneOpacity * conePulse, 0.0, 1.0);
-        // Slight color shift toward hotter blue while boosting
-        if (isBoosting) {
-            this.coneMaterial.color.setRGB(0.28, 0.82, 1.0);
-        } else {
-            this.coneMaterial.color.setRGB(0.2, 0.65, 1.0);
-        }
+        // Slight color shift toward a hotter shade while boosting
+        this.coneMaterial.color.copy(isBoosting ? this.shades.coneHot : this.shades.cone);
         this.coneMesh.visible = this.coneMaterial.opacity > 0.02;
 
         // Maintain consistent scale; keep geometry allocations out of hot path
@@ -155,12 +160,8 @@ export class ShipJetEngine {
         const corePulse = 0.98 + 0.12 * Math.sin(this.timeSec * 18.0);
         this.coreOpacity = THREE.MathUtils.damp(this.coreOpacity, coreTargetOpacity, isBoosting ? 16 : 8, dt);
         this.coreMaterial.opacity = THREE.MathUtils.clamp(this.coreOpacity * corePulse, 0.0, 1.0);
-        // Make the core a brighter, hotter blue when boosting
-        if (isBoosting) {
-            this.coreMaterial.color.setRGB(0.45, 0.95, 1.0);
-        } else {
-            this.coreMaterial.color.setRGB(0.35, 0.85, 1.0);
-        }
+        // Make the core brighter and hotter when boosting
+        this.coreMaterial.color.copy(isBoosting ? this.shades.coreHot : this.shades.core);
         this.coreMesh.visible = this.coreMaterial.opacity > 0.02;
         this.coreMesh.scale.set(1.0, 1.0, isBoosting ? 1.2 : 1.0);
 
@@ -0,0 +1,94 @@
+import * as THREE from 'three';
+import { LIVERY } from '../constants';
+import type { LiveryDecal, ShipLivery } from '../types';
+
+export type FlameShades = {
+    cone: THREE.Color;
+    coneHot: THREE.Color; // while boosting
+    core: THREE.Color;
+    coreHot: THREE.Color;
+};
+
+// Jet flame colours from the livery tint; the hot shades lean toward white
+export function getFlameShades(tint: THREE.Color): FlameShades {
+    const white = new THREE.Color(1, 1, 1);
+    return {
+        cone: tint.clone(),
+        coneHot: tint.clone().lerp(white, 0.15),
+        core: tint.clone().lerp(white, 0.3),
+        coreHot: tint.clone().lerp(white, 0.5)
+    };
+}
+
+// Decal drawn in hull UV space (u across, v nose-to-tail from above); white leaves the paint untouched
+export function createDecalTexture(decal: LiveryDecal): THREE.CanvasTexture | null {
+    if (decal === 'none') return null;
+    const size = LIVERY.decalSize;
+    const canvas = document.createElement('canvas');
+    canvas.width = size;
+    canvas.height = size;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return null;
+
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, size, size);
+    ctx.fillStyle = LIVERY.decalInk;
+    ctx.strokeStyle = LIVERY.decalInk;
+    switch (decal) {
+        case 'stripe':
+            // Twin racing stripes down the spine
+            ctx.fillRect(size * 0.38, 0, size * 0.08, size);
+            ctx.fillRect(size * 0.54, 0, size * 0.08, size);
+            break;
+        case 'chevron':
+            ctx.lineWidth = size * 0.06;
+            for (let y = size * 0.15; y < size; y += size * 0.28) {
+                ctx.beginPath();
+                ctx.moveTo(size * 0.1, y + size * 0.18);
+                ctx.lineTo(size * 0.5, y);
+                ctx.lineTo(size * 0.9, y + size * 0.18);
+                ctx.stroke();
+            }
+            break;
+        case 'checker': {
+            const cell = size / 8;
+            for (let row = 0; row < 8; row++) {
+                for (let col = row % 2; col < 8; col += 2) ctx.fillRect(col * cell, row * cell, cell, cell);
+            }
+            break;
+        }
+    }
+
+    const texture = new THREE.CanvasTexture(canvas);
+    texture.colorSpace = THREE.SRGBColorSpace;
+    return texture;
+}
+
+// Repaint a ship model in place: hull panels, booster and edge lines. Effect meshes
+// (jet engine, rocket tail, shield) use other material types and are left alone.
+// Only geometry with UVs (the hull) carries the decal.
+export function paintShipModel(root: THREE.Object3D, livery: ShipLivery, decal: THREE.Texture | null) {
+    const hull = new THREE.Color(livery.hullColor);
+    const accent = new THREE.Color(livery.accentColor);
+    root.traverse((obj) => {
+        if (obj instanceof THREE.LineSegments && obj.material instanceof THREE.LineBasicMaterial) {
+            obj.material.color.copy(accent).multiplyScalar(LIVERY.edgeIntensity);
+            return;
+        }
+        if (!(obj instanceof THREE.Mesh) || !(obj.material instanceof THREE.MeshStandardMaterial)) return;
+        const material = obj.material;
+        // Booster parts are the high-metalness material
+        if (material.metalness > 0.7) {
+            material.color.copy(hull).multiplyScalar(LIVERY.boosterShade);
+            material.emissive.copy(material.color).multiplyScalar(0.3);
+            return;
+        }
+        material.color.copy(hull);
+        material.emissive.copy(accent).multiplyScalar(LIVERY.accentIntensity);
+        if (obj.geometry.getAttribute('uv')) {
+            material.map = decal;
+            material.emissiveMap = decal;
+            material.needsUpdate = true;
+        }
+    });
+}
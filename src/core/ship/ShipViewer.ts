@@ -1,14 +1,16 @@
 import * as THREE from 'three';
 import { OrbitControls } from 'three-stdlib';
 import { EffectComposer, RenderPass, EffectPass, BloomEffect } from 'postprocessing';
-import { COLORS, PHYSICS, POST, BOOST_PAD } from '../constants';
+import { COLORS, PHYSICS, POST, BOOST_PAD, SHIP_CLASSES, LIVERY } from '../constants';
 import type { Ship } from './Ship';
 import { ShipRocketTail } from './ShipRocketTail';
 import { DriftTrail } from './DriftTrail';
 import { DriftSpeedLines } from './DriftSpeedLines';
 import { DraftingParticles } from './drafting/DraftingParticles';
 import { DraftingVectorLines } from './drafting/DraftingVectorLines';
-import type { ShipState } from '../types';
+import type { LapTime, LiveryDecal, ShipClassId, ShipLivery, ShipState } from '../types';
+import { SHIP_CLASS_IDS, getShipStatBars } from '../ShipClass';
+import { createDecalTexture, getFlameShades, paintShipModel } from './ShipLivery';
 import { ShipBoostParticles } from './ShipBoostParticles';
 import { ShipShield } from './ShipShield';
 
@@ -26,6 +28,16 @@ export class ShipViewer {
     // UI state and overlay
     private ui = { boost: true, trackBoost: false, drift: false, draft: false, shield: false };
     private controlsEl: HTMLDivElement | null = null;
+    private statsEl: HTMLDivElement | null = null;
+    private classChangeHandlers: Array<(classId: ShipClassId) => void> = [];
+    private liveryEl: HTMLDivElement | null = null;
+    private liveryHandlers: Array<(livery: ShipLivery) => void> = [];
+
+    // Livery preview on the viewer clone
+    private livery: ShipLivery;
+    private decalTexture: THREE.CanvasTexture | null = null;
+    private hullColor = new THREE.Color(LIVERY.defaults.hullColor);
+    private flameShades = getFlameShades(new THREE.Color(LIVERY.defaults.flameColor));
 
     // Viewer ship clone and engine refs
     private viewerShip: THREE.Group | null = null;
@@ -75,9 +87,20 @@ export class ShipViewer {
     // Shield
     private shield: ShipShield | null = null;
 
-    constructor(mount: HTMLElement, ship: Ship) {
+    constructor(mount: HTMLElement, ship: Ship, livery: ShipLivery) {
         this.mount = mount;
         this.ship = ship;
+        this.livery = { ...livery };
+    }
+
+    // The player picked a class in the stats panel (already applied to the ship)
+    onClassChange(handler: (classId: ShipClassId) => void) {
+        this.classChangeHandlers.push(handler);
+    }
+
+    // The player edited the livery (the racing ship picks it up at race start)
+    onLiveryChange(handler: (livery: ShipLivery) => void) {
+        this.liveryHandlers.push(handler);
     }
 
     start() {
@@ -177,6 +200,7 @@ export class ShipViewer {
                 this.viewerShip = shipClone;
                 this.locateEngineMeshes(shipClone);
                 this.initEffects();
+                this.applyLiveryPreview();
             } else {
                 console.warn('ShipViewer: Ship clone has no children. Original ship root has', this.ship.root.children.length, 'children');
             }
@@ -196,6 +220,8 @@ export class ShipViewer {
 
         // Overlay control buttons
         this.createControlsOverlay();
+        this.createStatsOverlay();
+        this.createLiveryOverlay();
 
         // Resize handling
         this.onResizeBound = () => {
@@ -253,6 +279,7 @@ export class ShipViewer {
         if (this.controls) { this.controls.dispose(); this.controls = null; }
         if (this.composer) { this.composer.dispose(); this.composer = null; }
         if (this.renderer) { this.renderer.dispose(); this.renderer.domElement.remove(); this.renderer = null; }
+        if (this.decalTexture) { this.decalTexture.dispose(); this.decalTexture = null; }
         this.scene = null;
         this.camera = null;
         if (this.onResizeBound) { window.removeEventListener('resize', this.onResizeBound); this.onResizeBound = null; }
@@ -376,6 +403,165 @@ export class ShipViewer {
         this.controlsEl = container;
     }
 
+    // Class picker with the selected class's stats as bars (top-left)
+    private createStatsOverlay() {
+        const panel = document.createElement('div');
+        panel.className = 'shipviewer-stats';
+        panel.style.cssText = `
+            position: absolute;
+            top: 24px;
+            left: 24px;
+            width: 300px;
+            padding: 16px;
+            background: rgba(20, 18, 35, 0.82);
+            border: 1px solid rgba(255, 255, 255, 0.12);
+            border-radius: 8px;
+            color: #eaf6ff;
+            font-family: Orbitron, system-ui, sans-serif;
+            z-index: 5;
+        `;
+        this.mount.appendChild(panel);
+        this.statsEl = panel;
+        this.renderStats();
+    }
+
+    private renderStats() {
+        if (!this.statsEl || !this.ship) return;
+        const current = this.ship.profile.classId;
+        const def = SHIP_CLASSES[current];
+        this.statsEl.innerHTML = `
+            <div style="display: flex; gap: 6px; margin-bottom: 12px;">
+                ${SHIP_CLASS_IDS.map(id => `
+                    <button data-class="${id}" style="
+                        flex: 1;
+                        padding: 8px 0;
+                        background: rgba(0, 0, 0, 0.4);
+                        border: ${id === current ? '2px solid rgba(83, 215, 255, 0.85)' : '1px solid rgba(255, 255, 255, 0.12)'};
+                        border-radius: 999px;
+                        color: #eaf6ff;
+                        font: 800 11px Orbitron, system-ui, sans-serif;
+                        letter-spacing: 1px;
+                        cursor: pointer;
+                    ">${SHIP_CLASSES[id].name}</button>
+                `).join('')}
+            </div>
+            <div style="font-size: 11px; font-family: monospace; color: rgba(255, 255, 255, 0.6); margin-bottom: 12px;">${def.description}</div>
+            ${getShipStatBars(current).map(stat => `
+                <div style="display: flex; align-items: center; gap: 10px; margin-top: 6px; font-size: 11px; letter-spacing: 1px;">
+                    <span style="width: 100px;">${stat.label}</span>
+                    <div style="flex: 1; height: 8px; background: rgba(255, 255, 255, 0.1); border-radius: 4px; overflow: hidden;">
+                        <div style="width: ${(stat.value * 100).toFixed(0)}%; height: 100%; background: linear-gradient(90deg, #53d7ff, #ff2bd6);"></div>
+                    </div>
+                </div>
+            `).join('')}
+        `;
+        this.statsEl.querySelectorAll<HTMLElement>('[data-class]').forEach((el) => {
+            el.addEventListener('click', () => {
+                const classId = el.getAttribute('data-class') as ShipClassId;
+                this.ship?.setShipClass(classId);
+                this.renderStats();
+                this.classChangeHandlers.forEach(h => h(classId));
+            });
+        });
+    }
+
+    // Paint pickers (top-right): a swatch row per colour slot plus the decal choice
+    private createLiveryOverlay() {
+        const panel = document.createElement('div');
+        panel.className = 'shipviewer-livery';
+        panel.style.cssText = `
+            position: absolute;
+            top: 24px;
+            right: 24px;
+            width: 300px;
+            padding: 16px;
+            background: rgba(20, 18, 35, 0.82);
+            border: 1px solid rgba(255, 255, 255, 0.12);
+            border-radius: 8px;
+            color: #eaf6ff;
+            font-family: Orbitron, system-ui, sans-serif;
+            z-index: 5;
+        `;
+        this.mount.appendChild(panel);
+        this.liveryEl = panel;
+        this.renderLivery();
+    }
+
+    private renderLivery() {
+        if (!this.liveryEl) return;
+        const slots: Array<{ key: Exclude<keyof ShipLivery, 'decal'>; label: string }> = [
+            { key: 'hullColor', label: 'HULL' },
+            { key: 'accentColor', label: 'ACCENT' },
+            { key: 'trailColor', label: 'DRIFT TRAIL' },
+            { key: 'flameColor', label: 'ENGINE' }
+        ];
+        const rowLabel = 'font-size: 11px; letter-spacing: 1px; margin: 10px 0 6px 0;';
+        this.liveryEl.innerHTML = `
+            ${slots.map(slot => `
+                <div style="${rowLabel}">${slot.label}</div>
+                <div style="display: flex; gap: 6px;">
+                    ${LIVERY.palette.map(color => `
+                        <button data-slot="${slot.key}" data-color="${color}" style="
+                            width: 24px;
+                            height: 24px;
+                            padding: 0;
+                            background: ${color};
+                            border: ${this.livery[slot.key] === color ? '2px solid #ffffff' : '1px solid rgba(255, 255, 255, 0.12)'};
+                            border-radius: 50%;
+                            cursor: pointer;
+                        "></button>
+                    `).join('')}
+                </div>
+            `).join('')}
+            <div style="${rowLabel}">DECAL</div>
+            <div style="display: flex; gap: 6px;">
+                ${LIVERY.decals.map(decal => `
+                    <button data-decal="${decal}" style="
+                        flex: 1;
+                        padding: 6px 0;
+                        background: rgba(0, 0, 0, 0.4);
+                        border: ${this.livery.decal === decal ? '2px solid rgba(83, 215, 255, 0.85)' : '1px solid rgba(255, 255, 255, 0.12)'};
+                        border-radius: 999px;
+                        color: #eaf6ff;
+                        font: 800 10px Orbitron, system-ui, sans-serif;
+                        letter-spacing: 1px;
+                        text-transform: uppercase;
+                        cursor: pointer;
+                    ">${decal}</button>
+                `).join('')}
+            </div>
+        `;
+        this.liveryEl.querySelectorAll<HTMLElement>('[data-slot]').forEach((el) => {
+            el.addEventListener('click', () => {
+                const slot = el.getAttribute('data-slot') as Exclude<keyof ShipLivery, 'decal'>;
+                this.updateLivery({ ...this.livery, [slot]: el.getAttribute('data-color') as string });
+            });
+        });
+        this.liveryEl.querySelectorAll<HTMLElement>('[data-decal]').forEach((el) => {
+            el.addEventListener('click', () => {
+                this.updateLivery({ ...this.livery, decal: el.getAttribute('data-decal') as LiveryDecal });
+            });
+        });
+    }
+
+    private updateLivery(livery: ShipLivery) {
+        this.livery = livery;
+        this.applyLiveryPreview();
+        this.renderLivery();
+        this.liveryHandlers.forEach(h => h({ ...livery }));
+    }
+
+    // Repaint the viewer clone and its effects with the current livery
+    private applyLiveryPreview() {
+        this.decalTexture?.dispose();
+        this.decalTexture = createDecalTexture(this.livery.decal);
+        if (this.viewerShip) paintShipModel(this.viewerShip, this.livery, this.decalTexture);
+        this.hullColor.set(this.livery.hullColor);
+        this.flameShades = getFlameShades(new THREE.Color(this.livery.flameColor));
+        this.driftTrail?.setColor(new THREE.Color(this.livery.trailColor));
+        this.shipBoostParticles?.setColor(new THREE.Color(this.livery.flameColor));
+    }
+
     private initEffects() {
         if (!this.viewerShip) return;
         const rocketProxy = {
@@ -442,7 +628,7 @@ export class ShipViewer {
             this.speedLinesShipProxy = {
                 root: this.viewerShip,
                 state: { isDrifting: false, speedKmh: 160, t: 0 },
-                getColor: () => COLORS.neonCyan
+                getColor: () => this.hullColor
             };
             this.driftSpeedLines = new DriftSpeedLines(this.speedLinesShipProxy as any, this.miniTrack as any, { useTrackForward: true });
             this.scene?.add(this.driftSpeedLines.root);
@@ -461,8 +647,9 @@ export class ShipViewer {
             inTunnel: false,
             tunnelCenterBoost: 1,
             lastLapTime: 0,
-            lapTimes: [] as number[],
+            lapTimes: [] as LapTime[],
             onBoostPadEntry: false,
+            hull: 1,
             isDrifting: false,
             driftDuration: 0,
             driftLength: 0
@@ -494,13 +681,12 @@ export class ShipViewer {
                     }
                 }
             }
-            // Jet cone: ConeGeometry + MeshBasicMaterial (blue)
+            // Jet cone: ConeGeometry + MeshBasicMaterial (livery tinted)
             if (!this.jetConeMesh && obj.geometry instanceof THREE.ConeGeometry && obj.material instanceof THREE.MeshBasicMaterial) {
-                // Skip rocket tail cones by checking approximate color (orange/white) and scale; jet cone is cyan/blue
+                // Skip rocket tail cones by length; the tint can be any colour so it can't tell them apart
                 const m = obj.material as THREE.MeshBasicMaterial;
-                const c = m.color;
-                const isBlue = c.b > c.g && c.g >= 0.55; // bluish
-                if (isBlue) {
+                const isJet = ((obj.geometry as THREE.ConeGeometry).parameters?.height ?? 1) < 0.3;
+                if (isJet) {
                     // Check if this is the inner core (smaller radius) or main cone
                     const geo = obj.geometry as THREE.ConeGeometry;
                     const radius = geo.parameters?.radius ?? 0;
@@ -515,7 +701,7 @@ export class ShipViewer {
                 }
             }
             // Outer warm cone: ConeGeometry + MeshBasicMaterial (yellow/orange)
-            if (!this.outerConeMesh && obj.geometry instanceof THREE.ConeGeometry && obj.material instanceof THREE.MeshBasicMaterial) {
+            if (!this.outerConeMesh && obj !== this.jetConeMesh && obj !== this.coreConeMesh && obj.geometry instanceof THREE.ConeGeometry && obj.material instanceof THREE.MeshBasicMaterial) {
                 const m = obj.material as THREE.MeshBasicMaterial;
                 const c = m.color;
                 const isWarm = c.r > 0.9 && c.g > 0.6 && c.b < 0.3;
@@ -592,19 +778,19 @@ export class ShipViewer {
                 radiusScale = 1.05;
                 lengthScale = 1.0 + 0.14 + 0.06 * Math.sin(this.nowSec * 9.0); // ~1.14-1.20
                 targetOpacity = 1.0;
-                targetColor = new THREE.Color(0.28, 0.82, 1.0); // Brighter, hotter blue
+                targetColor = this.flameShades.coneHot; // Brighter, hotter shade
             } else if (isMoving) {
                 // Just moving (track boost or moving without regular boost): normal size
                 radiusScale = 1.0;
                 lengthScale = 1.0 + 0.06 * Math.sin(this.nowSec * 9.0); // ~1.0-1.06
                 targetOpacity = 0.98;
-                targetColor = new THREE.Color(0.2, 0.65, 1.0); // Standard blue
+                targetColor = this.flameShades.cone;
             } else {
                 // Idle: smaller and dimmer
                 radiusScale = 0.85;
                 lengthScale = 0.9;
                 targetOpacity = 0.85;
-                targetColor = new THREE.Color(0.2, 0.65, 1.0); // Standard blue
+                targetColor = this.flameShades.cone;
             }
 
             this.jetConeMat.opacity = THREE.MathUtils.clamp(targetOpacity * conePulse, 0, 1);
@@ -620,11 +806,7 @@ export class ShipViewer {
                 this.coreConeMat.opacity = coreOpacity;
                 this.coreConeMesh.visible = coreOpacity > 0.02;
                 // Core is brighter when boosting
-                if (isRegularBoost) {
-                    this.coreConeMat.color.setRGB(0.45, 0.95, 1.0); // Brightest hot blue
-                } else {
-                    this.coreConeMat.color.setRGB(0.35, 0.85, 1.0); // Standard hot blue
-                }
+                this.coreConeMat.color.copy(isRegularBoost ? this.flameShades.coreHot : this.flameShades.core);
                 this.coreConeMesh.scale.set(1.0, 1.0, isRegularBoost ? 1.2 : 1.0);
             }
 
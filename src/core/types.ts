@@ -19,13 +19,127 @@ export interface ShipState {
     inTunnel: boolean;
     tunnelCenterBoost: number; // multiplier from tunnel center alignment
     lastLapTime?: number; // seconds for the last completed lap
-    lapTimes?: number[]; // array of all lap times
+    lapTimes?: LapTime[]; // all completed laps with their sector splits
+    sectorSplits?: number[]; // lap time at each checkpoint gate passed so far this lap
     onBoostPadEntry: boolean; // true when just entered a boost pad (resets after check)
     isDrifting: boolean; // true when drifting (turning + boosting)
     driftDuration: number; // accumulated drift time in seconds
     driftLength: number; // accumulated drift distance in meters
+    nextCheckpointT?: number; // t of the next gate this racer must pass (laps only count once every gate is passed in order)
+    hull: number; // 0..1 integrity, see HULL
 }
 
+// Ship-to-ship contact reported by CollisionSystem
+export type RacerContact = {
+    racerA: string;
+    racerB: string;
+    rearId: string; // the ship that lost speed (unless its shield absorbed the hit)
+    shielded: string[]; // racers whose shield absorbed this hit
+    strength: number; // 0..1
+    t: number; // track position of the contact
+};
+
+// Combat items handed out by track item boxes (see ITEMS)
+export type ItemKind = 'emp' | 'mine' | 'shield' | 'boost';
+
+// Item effect reported by ItemSystem
+export type ItemEvent = {
+    kind: ItemKind;
+    userId: string;
+    targetId?: string; // racer hit by an EMP or a mine
+    absorbed?: boolean; // the target's shield took the hit
+};
+
+// Style point sources (see STYLE)
+export type StyleTrick = 'drift' | 'air' | 'tunnel' | 'draft' | 'nearMiss' | 'trick';
+
+// The running combo for the HUD; null trick when no combo is active
+export type StyleCombo = {
+    points: number; // unbanked points
+    multiplier: number;
+    trick: StyleTrick | null; // latest trick in the chain
+};
+
+// Ship setup a leaderboard record was set with
+export type ShipConfig = {
+    color: string; // hex, e.g. '#53d7ff'
+    shipClass?: ShipClassId; // missing on records saved before ship classes
+};
+
+export type ShipClassId = 'light' | 'balanced' | 'heavy';
+
+// The PHYSICS entries a ship class can override
+export type ShipPhysicsStats = {
+    baseSpeed: number;
+    maxSpeed: number;
+    maxNonBoostKmh: number;
+    throttleAccelKmhPerSec: number;
+    brakeDecelKmhPerSec: number;
+    coastDecelKmhPerSec: number;
+    boostMultiplier: number;
+    boostDurationSec: number;
+    boostRegenPerSec: number;
+    lateralAccel: number;
+    lateralDamping: number;
+};
+
+// The DRIFT entries a ship class can override
+export type ShipDriftStats = {
+    driftGripFactor: number;
+    driftDampingFactor: number;
+    driftSpeedMinMultiplier: number;
+    driftSpeedMaxMultiplier: number;
+    flowRefillRate: number;
+};
+
+export type ShipClassDef = {
+    name: string;
+    description: string;
+    physics: Partial<ShipPhysicsStats>;
+    drift: Partial<ShipDriftStats>;
+};
+
+// A class resolved against the shared tables; what Ship and NPCShip read
+export type ShipProfile = {
+    classId: ShipClassId;
+    physics: ShipPhysicsStats;
+    drift: ShipDriftStats;
+};
+
+// Player paint job from the SHIP menu; colours are css hex strings so they persist as-is
+export type LiveryDecal = 'none' | 'stripe' | 'chevron' | 'checker';
+
+export type ShipLivery = {
+    hullColor: string;
+    accentColor: string; // hull glow and edge lines
+    trailColor: string; // drift trail
+    flameColor: string; // jet engine flame and boost particles
+    decal: LiveryDecal;
+};
+
+// One finished race in the local leaderboard (keyed by trackId + laps + mode)
+export type LeaderboardEntry = {
+    trackId: string;
+    trackName: string;
+    laps: number;
+    mode: RaceMode;
+    bestLap: number; // seconds, 0 when no lap was timed
+    raceTime: number; // seconds
+    position: number;
+    racers: number;
+    ship: ShipConfig;
+    date: number; // ms since epoch
+    styleScore?: number; // missing on records saved before style scoring
+};
+
+export type LeaderboardFilter = Partial<Pick<LeaderboardEntry, 'trackId' | 'laps' | 'mode'>>;
+
+// A completed lap; splits[i] is the lap time at gate i+1, the last entry is the finish line
+export type LapTime = {
+    time: number;
+    splits: number[];
+};
+
 export interface TrackSystem {
     curve: CatmullRomCurve3;
     length: number;
@@ -131,6 +245,48 @@ export type FrameProfileSection = {
     feather?: number;
 };
 
+// Explicit layout overrides for Track.generate; omitted parts fall back to seeded placement
+export type TrackLayout = {
+    controlPoints?: Vector3[];
+    frameProfiles?: FrameProfileSection[];
+    tunnels?: TunnelSegment[];
+    boostPads?: BoostPadSegment[];
+    ramps?: RampSegment[];
+};
+
+// Layout problems detected while generating a track (shown in the editor)
+export type TrackWarning = {
+    kind: 'curvature' | 'grade' | 'pinch';
+    t: number; // where on the track [0..1]
+    message: string;
+};
+
+// Track editor tools: select/drag handles, paint segments along t, or erase them
+export type EditorTool = 'select' | 'tunnel-rings' | 'tunnel-wormhole' | 'boost-pad' | 'ramp' | 'erase';
+
+// Frame profile as stored in a track file (numeric values only; function profiles are not portable)
+export type TrackFileFrameProfile = {
+    startT: number;
+    endT: number;
+    rollDeg?: number;
+    twistDeg?: number;
+    upBias?: [number, number, number];
+    feather?: number;
+};
+
+// Portable track file (JSON)
+export type TrackFile = {
+    format: string; // always TRACK_FILE.format
+    version: number;
+    name: string;
+    options: TrackOptions;
+    controlPoints: [number, number, number][];
+    frameProfiles: TrackFileFrameProfile[];
+    tunnels: TunnelSegment[];
+    boostPads: BoostPadSegment[];
+    ramps: RampSegment[];
+};
+
 export type RacePosition = {
     racerId: string;
     position: number;
@@ -139,6 +295,10 @@ export type RacePosition = {
     finished: boolean;
     finishTime?: number;
     t?: number; // Track position [0..1]
+    nextCheckpointT?: number; // Caps progress so skipped gates don't gain places
+    bestLap?: number; // Fastest completed lap in seconds (race clock)
+    penalty?: number; // Respawn penalty seconds included in finishTime
+    styleScore?: number; // Style points banked over the race (player only)
 };
 
 export type RaceState = 'NOT_STARTED' | 'COUNTDOWN' | 'RACING' | 'FINISHED';
@@ -150,3 +310,177 @@ export type RaceResults = {
 };
 
 
+
+export type RaceMode = 'race' | 'time-trial';
+
+// In-race camera views (see CAMERA_MODES)
+export type CameraMode = 'chase-near' | 'chase-far' | 'bumper' | 'tactical';
+
+export type CameraModeSettings = {
+    distance: number; // meters behind the ship (negative = ahead of its centre)
+    height: number; // meters above the ship along the track normal
+    lookAhead: number; // meters down the track the camera aims at
+    rigid: boolean; // locked to the ship instead of trailing it
+    hideShip: boolean; // the model would block the lens
+    topDown: boolean; // look straight down with the track ahead at the top of the screen
+};
+
+// Persisted camera choice
+export type CameraSettings = {
+    mode: CameraMode;
+    mirror: boolean; // rear-view mirror picture-in-picture
+};
+
+// Rebindable keyboard actions (see INPUT.defaultBindings)
+export type InputAction =
+    | 'steerLeft' | 'steerRight' | 'throttle' | 'brake' | 'boost' | 'drift' | 'focusRefill' | 'draftLock' | 'shield' | 'useItem'
+    | 'pause' | 'toggleMinimap' | 'freeFly' | 'cameraCycle' | 'rearMirror'
+    | 'freeCamForward' | 'freeCamBack' | 'freeCamLeft' | 'freeCamRight' | 'freeCamUp' | 'freeCamDown' | 'freeCamSprint';
+
+export type InputBindingMap = Record<InputAction, string[]>; // KeyboardEvent.code values per action
+
+// One gamepad poll: analog drive axes, held buttons and edge-triggered presses
+export type GamepadState = {
+    steer: number; // -1 (left) .. 1 (right), deadzone and response curve applied
+    throttle: number; // 0..1
+    brake: number; // 0..1
+    boost: boolean;
+    drift: boolean;
+    focusRefill: boolean; // pressed this poll
+    shield: boolean; // pressed this poll
+    useItem: boolean; // pressed this poll
+    draftLock: boolean; // pressed this poll
+    pause: boolean; // pressed this poll
+    cameraCycle: boolean; // pressed this poll
+};
+
+export type AIDifficulty = 'easy' | 'normal' | 'hard' | 'expert';
+
+// NPC driving quality for one difficulty preset (RACE_SETUP.difficulty)
+export type AISkill = {
+    speedMultiplier: number;
+    aggressiveShare: number; // share of the field driving aggressively
+    lineAccuracy: number; // 0..1, how tightly NPCs hold the racing line
+    boostTiming: number; // 0..1, share of boosts saved for straights and pad exits
+    rubberBanding: RubberBandCurve; // catch-up strength for this difficulty
+};
+
+// Catch-up curve: [gap meters (+ = NPC ahead of the player), speed multiplier] points sorted by gap,
+// linearly interpolated and held flat past the ends. Empty = no catch-up.
+export type RubberBandCurve = Array<[number, number]>;
+
+// Pre-race choices from the setup panel
+export type RaceSetup = {
+    laps: number;
+    opponents: number; // NPC count (race mode only)
+    difficulty: AIDifficulty;
+    rubberBanding: boolean; // NPC catch-up; off for competitive play
+    seed: number | null; // procedural track seed; null races the loaded track (file or editor)
+};
+
+// Time trial ghost recording (one frame per fixed simulation step)
+export type GhostFrame = {
+    t: number; // curve position [0..1]
+    lateralOffset: number;
+    verticalOffset: number;
+    roll: number; // radians
+    speedKmh: number;
+    boosting: boolean;
+};
+
+export type GhostLap = {
+    trackId: string; // track the lap was recorded on (seed or track file id)
+    lapTime: number; // seconds
+    frames: GhostFrame[];
+};
+
+// Player controls for one fixed step (see replay/InputLog)
+export type PlayerInput = {
+    // Held keys (Ship.input)
+    left: boolean;
+    right: boolean;
+    up: boolean;
+    down: boolean;
+    boost: boolean;
+    yawLeft: boolean;
+    yawRight: boolean;
+    drift: boolean;
+    // Gamepad drive state
+    steer: number;
+    throttle: number;
+    brake: number;
+    padBoost: boolean;
+    padDrift: boolean;
+    // One-shot actions fired since the previous step
+    focusRefill: boolean;
+    shield: boolean;
+    useItem: boolean;
+    draftLock: boolean;
+};
+
+// Player controls for a whole race, one entry per fixed step from GO. With the track seed (NPC and item
+// streams derive from it) and the setup, feeding it back re-simulates the race.
+export type InputLog = {
+    trackId: string;
+    seed: number;
+    mode: RaceMode;
+    setup: RaceSetup;
+    fixedDelta: number; // seconds per step
+    frames: number[]; // packed PlayerInput per step, see replay/InputLog
+};
+
+// Race replay (see replay/ReplayRecorder). One sample per racer every REPLAY.sampleEveryTicks fixed steps.
+export type ReplayFrame = {
+    t: number; // curve position [0..1]
+    lateralOffset: number;
+    verticalOffset: number;
+    pitch: number; // radians, ship model relative to the track frame
+    yaw: number;
+    roll: number;
+    speedKmh: number;
+    boosting: boolean;
+    isDrifting: boolean;
+    visible: boolean; // false while wrecked
+    lapCurrent: number;
+    hull: number;
+};
+
+export type ReplayEventKind = 'contact' | 'item' | 'wreck' | 'trick' | 'lap' | 'finish';
+
+export type ReplayEvent = {
+    time: number; // race seconds
+    kind: ReplayEventKind;
+    racerId: string;
+    targetId?: string; // other racer involved (contact partner, item target)
+    label: string; // ticker text, e.g. "MINE"
+};
+
+export type ReplayRacer = {
+    racerId: string;
+    name: string;
+    color: string; // css color
+};
+
+export type Replay = {
+    format: string; // REPLAY.format
+    version: number;
+    trackId: string; // track the race was run on (seed or track file id)
+    seed: number;
+    laps: number;
+    sampleSeconds: number; // time between samples
+    racers: ReplayRacer[];
+    frames: number[][]; // per racer (same order as racers): packed ReplayFrame samples, see replay/ReplayFormat
+    events: ReplayEvent[];
+};
+
+// Photo mode adjustments (pause menu → PHOTO MODE)
+export type PhotoSettings = {
+    fov: number; // degrees
+    roll: number; // degrees
+    focusDistance: number; // meters in front of the camera
+    bokehScale: number; // depth-of-field blur, 0 = off
+    bloom: number; // BloomEffect intensity
+    vignette: number; // VignetteEffect darkness
+    chromatic: number; // ChromaticAberrationEffect offset
+    frozen: boolean; // false lets the race carry on behind the free camera
+};
@@ -1,13 +1,90 @@
+import { INPUT } from '../constants';
+import { formatKeyCode, type InputBindings } from '../InputBindings';
+import type { InputAction } from '../types';
+
+type ControlRow = {
+    action: InputAction;
+    label: string;
+    pad?: string; // fixed gamepad binding (standard mapping)
+};
+
+const SECTIONS: Array<{ title: string; rows: ControlRow[] }> = [
+    {
+        title: 'DRIVING',
+        rows: [
+            { action: 'steerLeft', label: 'Turn Left', pad: 'Left Stick' },
+            { action: 'steerRight', label: 'Turn Right', pad: 'Left Stick' },
+            { action: 'throttle', label: 'Throttle', pad: 'RT' },
+            { action: 'brake', label: 'Brake', pad: 'LT' },
+            { action: 'boost', label: 'Boost', pad: 'A' },
+            { action: 'drift', label: 'Drift', pad: 'RB' },
+            { action: 'focusRefill', label: 'Focus Refill', pad: 'Y' },
+            { action: 'draftLock', label: 'Draft Lock-On', pad: 'X' },
+            { action: 'shield', label: 'Shield', pad: 'B' },
+            { action: 'useItem', label: 'Use Item', pad: 'LB' }
+        ]
+    },
+    {
+        title: 'GAME',
+        rows: [
+            { action: 'pause', label: 'Pause', pad: 'Start' },
+            { action: 'toggleMinimap', label: 'Minimap Toggle' },
+            { action: 'freeFly', label: 'Free Flight' },
+            { action: 'cameraCycle', label: 'Camera View', pad: 'Back' },
+            { action: 'rearMirror', label: 'Rear-View Mirror' }
+        ]
+    },
+    {
+        title: 'FREE CAMERA',
+        rows: [
+            { action: 'freeCamForward', label: 'Forward' },
+            { action: 'freeCamBack', label: 'Back' },
+            { action: 'freeCamLeft', label: 'Left' },
+            { action: 'freeCamRight', label: 'Right' },
+            { action: 'freeCamUp', label: 'Up' },
+            { action: 'freeCamDown', label: 'Down' },
+            { action: 'freeCamSprint', label: 'Sprint' }
+        ]
+    }
+];
+
+const rowStyle = `
+    display: flex;
+    justify-content: space-between;
+    align-items: center;
+    gap: 16px;
+    padding: 10px 20px;
+    background: linear-gradient(90deg, rgba(83, 215, 255, .1), rgba(255, 43, 214, .05));
+    border: 1px solid rgba(255, 255, 255, .1);
+    border-radius: 8px;
+`;
+
+const keyStyle = `
+    min-width: 90px;
+    padding: 6px 10px;
+    background: rgba(0, 0, 0, 0.4);
+    border: 1px solid rgba(83, 215, 255, 0.4);
+    border-radius: 6px;
+    color: rgba(83, 215, 255, 1);
+    font-family: monospace;
+    font-size: 13px;
+    cursor: pointer;
+`;
+
+// Menu viewport panel listing the live key bindings; click a key slot to rebind it
 export class ControlsViewer {
     private mount: HTMLElement;
+    private bindings: InputBindings;
+    private capture: { action: InputAction; slot: number } | null = null;
 
-    constructor(mount: HTMLElement) {
+    constructor(mount: HTMLElement, bindings: InputBindings) {
         this.mount = mount;
+        this.bindings = bindings;
     }
 
     start() {
-        // Create controls content HTML
-        const controlsHTML = `
+        this.capture = null;
+        this.mount.innerHTML = `
             <div style="
                 width: 100%;
                 height: 100%;
@@ -22,164 +99,102 @@ export class ControlsViewer {
                     font-size: clamp(40px, 5vw, 64px);
                     font-weight: 800;
                     letter-spacing: 2px;
-                    margin: 0 0 40px 0;
+                    margin: 0 0 20px 0;
                     text-align: center;
                     color: #ffffff;
-                    text-shadow: 
+                    text-shadow:
                         0 0 10px rgba(83, 215, 255, 0.8),
                         0 0 20px rgba(83, 215, 255, 0.4),
                         0 0 30px rgba(255, 43, 214, 0.3);
                     -webkit-text-stroke: 0.5px rgba(255, 255, 255, 0.2);
                 ">CONTROLS</h1>
-                
-                <div style="
-                    flex: 1;
-                    display: flex;
-                    flex-direction: column;
-                    gap: 30px;
-                    justify-content: center;
-                    max-width: 600px;
-                    margin: 0 auto;
-                    padding: 20px;
-                ">
-                    <div style="
-                        display: flex;
-                        justify-content: space-between;
-                        align-items: center;
-                        padding: 20px 30px;
-                        background: linear-gradient(90deg, rgba(83, 215, 255, .1), rgba(255, 43, 214, .05));
-                        border: 1px solid rgba(255, 255, 255, .1);
-                        border-radius: 8px;
-                        transition: all 0.3s ease;
-                    ">
-						<span style="font-size: 16px; font-weight: 600; color: rgba(255, 255, 255, 0.9);">
-							Turn Left/Right
-						</span>
-						<span style="font-size: 14px; font-weight: 400; color: rgba(83, 215, 255, 1); font-family: monospace;">
-							A/D or ← →
-						</span>
-                    </div>
-                    
-                    <div style="
-                        display: flex;
-                        justify-content: space-between;
-                        align-items: center;
-                        padding: 20px 30px;
-                        background: linear-gradient(90deg, rgba(83, 215, 255, .1), rgba(255, 43, 214, .05));
-                        border: 1px solid rgba(255, 255, 255, .1);
-                        border-radius: 8px;
-                        transition: all 0.3s ease;
-                    ">
-                        <span style="font-size: 16px; font-weight: 600; color: rgba(255, 255, 255, 0.9);">
-                            Boost
-                        </span>
-                        <span style="font-size: 14px; font-weight: 400; color: rgba(83, 215, 255, 1); font-family: monospace;">
-                            Hold Space
-                        </span>
-                    </div>
-
-                    <div style="
-                        display: flex;
-                        justify-content: space-between;
-                        align-items: center;
-                        padding: 20px 30px;
-                        background: linear-gradient(90deg, rgba(83, 215, 255, .1), rgba(255, 43, 214, .05));
-                        border: 1px solid rgba(255, 255, 255, .1);
-                        border-radius: 8px;
-                        transition: all 0.3s ease;
-                    ">
-                        <span style="font-size: 16px; font-weight: 600; color: rgba(255, 255, 255, 0.9);">
-                            Drift
-                        </span>
-                        <span style="font-size: 14px; font-weight: 400; color: rgba(83, 215, 255, 1); font-family: monospace;">
-                            Hold Shift
-                        </span>
-                    </div>
-                    
-                    <div style="
-                        display: flex;
-                        justify-content: space-between;
-                        align-items: center;
-                        padding: 20px 30px;
-                        background: linear-gradient(90deg, rgba(83, 215, 255, .1), rgba(255, 43, 214, .05));
-                        border: 1px solid rgba(255, 255, 255, .1);
-                        border-radius: 8px;
-                        transition: all 0.3s ease;
-                    ">
-                        <span style="font-size: 16px; font-weight: 600; color: rgba(255, 255, 255, 0.9);">
-                            Focus Refill
-                        </span>
-                        <span style="font-size: 14px; font-weight: 400; color: rgba(83, 215, 255, 1); font-family: monospace;">
-                            F
-                        </span>
-                    </div>
-                    
-                    <div style="
-                        display: flex;
-                        justify-content: space-between;
-                        align-items: center;
-                        padding: 20px 30px;
-                        background: linear-gradient(90deg, rgba(83, 215, 255, .1), rgba(255, 43, 214, .05));
-                        border: 1px solid rgba(255, 255, 255, .1);
-                        border-radius: 8px;
-                        transition: all 0.3s ease;
-                    ">
-						<span style="font-size: 16px; font-weight: 600; color: rgba(255, 255, 255, 0.9);">
-							Throttle / Brake
-						</span>
-						<span style="font-size: 14px; font-weight: 400; color: rgba(83, 215, 255, 1); font-family: monospace;">
-							W / S or ↑ ↓
-						</span>
-                    </div>
-                    
-                    <div style="
-                        display: flex;
-                        justify-content: space-between;
-                        align-items: center;
-                        padding: 20px 30px;
-                        background: linear-gradient(90deg, rgba(83, 215, 255, .1), rgba(255, 43, 214, .05));
-                        border: 1px solid rgba(255, 255, 255, .1);
-                        border-radius: 8px;
-                        transition: all 0.3s ease;
-                    ">
-                        <span style="font-size: 16px; font-weight: 600; color: rgba(255, 255, 255, 0.9);">
-                            Pause
-                        </span>
-                        <span style="font-size: 14px; font-weight: 400; color: rgba(83, 215, 255, 1); font-family: monospace;">
-                            Escape
-                        </span>
-                    </div>
-                    
-                    <div style="
-                        display: flex;
-                        justify-content: space-between;
-                        align-items: center;
-                        padding: 20px 30px;
-                        background: linear-gradient(90deg, rgba(83, 215, 255, .1), rgba(255, 43, 214, .05));
-                        border: 1px solid rgba(255, 255, 255, .1);
-                        border-radius: 8px;
-                        transition: all 0.3s ease;
-                    ">
-                        <span style="font-size: 16px; font-weight: 600; color: rgba(255, 255, 255, 0.9);">
-                            Minimap Toggle
-                        </span>
-                        <span style="font-size: 14px; font-weight: 400; color: rgba(83, 215, 255, 1); font-family: monospace;">
-                            M
-                        </span>
-                    </div>
+                <div id="controlsHint" style="text-align: center; font-size: 12px; font-family: monospace; color: rgba(255, 255, 255, 0.6); margin-bottom: 20px;"></div>
+                <div id="controlsRows" style="flex: 1; overflow-y: auto; max-width: 700px; width: 100%; margin: 0 auto;"></div>
+                <div style="display: flex; justify-content: center; margin-top: 20px;">
+                    <button class="btn" id="controlsReset">RESET DEFAULTS</button>
                 </div>
             </div>
         `;
 
-        this.mount.innerHTML = controlsHTML;
+        this.mount.querySelector('#controlsReset')?.addEventListener('click', () => {
+            this.setCapture(null);
+            this.bindings.resetDefaults();
+            this.renderRows();
+        });
+        this.renderRows();
     }
 
     stop() {
+        this.setCapture(null);
         this.mount.innerHTML = '';
     }
 
     dispose() {
         this.stop();
     }
-}
 
+    private renderRows() {
+        const rows = this.mount.querySelector('#controlsRows') as HTMLElement | null;
+        const hint = this.mount.querySelector('#controlsHint') as HTMLElement | null;
+        if (!rows || !hint) return;
+        hint.textContent = this.capture
+            ? 'Press a key to bind · Esc cancels · Backspace clears'
+            : 'Click a key to rebind it';
+
+        rows.innerHTML = SECTIONS.map(section => `
+            <div style="margin-bottom: 20px;">
+                <div style="font-size: 13px; letter-spacing: 2px; color: rgba(83, 215, 255, 0.8); margin-bottom: 8px;">${section.title}</div>
+                <div style="display: flex; flex-direction: column; gap: 8px;">
+                    ${section.rows.map(row => this.renderRow(row)).join('')}
+                </div>
+            </div>
+        `).join('');
+
+        rows.querySelectorAll<HTMLElement>('[data-action]').forEach((el) => {
+            el.addEventListener('click', () => {
+                this.setCapture({
+                    action: el.getAttribute('data-action') as InputAction,
+                    slot: Number(el.getAttribute('data-slot'))
+                });
+                this.renderRows();
+            });
+        });
+    }
+
+    private renderRow(row: ControlRow): string {
+        const keys = this.bindings.getKeys(row.action);
+        const slots = Array.from({ length: INPUT.maxKeysPerAction }, (_, slot) => {
+            const capturing = this.capture?.action === row.action && this.capture.slot === slot;
+            const label = capturing ? '...' : keys[slot] ? formatKeyCode(keys[slot]) : '-';
+            return `<button data-action="${row.action}" data-slot="${slot}" style="${keyStyle}${capturing ? ' border-color: #ff2bd6; color: #ff2bd6;' : ''}">${label}</button>`;
+        }).join('');
+        return `
+            <div style="${rowStyle}">
+                <span style="flex: 1; font-size: 14px; font-weight: 600; color: rgba(255, 255, 255, 0.9);">${row.label}</span>
+                ${slots}
+                <span style="width: 90px; text-align: right; font-size: 12px; font-family: monospace; color: rgba(255, 255, 255, 0.5);">${row.pad ?? ''}</span>
+            </div>
+        `;
+    }
+
+    private setCapture(capture: { action: InputAction; slot: number } | null) {
+        if (!this.capture && capture) window.addEventListener('keydown', this.onCaptureKey, true);
+        if (this.capture && !capture) window.removeEventListener('keydown', this.onCaptureKey, true);
+        this.capture = capture;
+    }
+
+    // Capture phase so the key never reaches Ship or Game while rebinding
+    private onCaptureKey = (e: KeyboardEvent) => {
+        if (!this.capture) return;
+        e.preventDefault();
+        e.stopPropagation();
+        const { action, slot } = this.capture;
+        if (e.code === 'Backspace' || e.code === 'Delete') {
+            this.bindings.clearKey(action, slot);
+        } else if (e.code !== 'Escape') {
+            this.bindings.setKey(action, slot, e.code);
+        }
+        this.setCapture(null);
+        this.renderRows();
+    };
+}
@@ -0,0 +1,171 @@
+import { SHIP_CLASSES } from '../constants';
+import type { Leaderboard } from '../Leaderboard';
+import type { LeaderboardEntry, LeaderboardFilter, RaceMode } from '../types';
+import { formatTime } from './formatTime';
+
+const MODE_LABELS: Record<RaceMode, string> = {
+    race: 'RACE',
+    'time-trial': 'TIME TRIAL'
+};
+
+const selectStyle = `
+    flex: 1;
+    padding: 8px 10px;
+    background: rgba(0, 0, 0, 0.4);
+    border: 1px solid rgba(83, 215, 255, 0.4);
+    border-radius: 6px;
+    color: #ffffff;
+    font-family: monospace;
+    font-size: 13px;
+`;
+
+// Menu viewport panel for browsing, filtering and clearing local leaderboard records
+export class LeaderboardPanel {
+    private mount: HTMLElement;
+    private leaderboard: Leaderboard;
+    private filter: LeaderboardFilter = {};
+
+    constructor(mount: HTMLElement, leaderboard: Leaderboard) {
+        this.mount = mount;
+        this.leaderboard = leaderboard;
+    }
+
+    // trackId preselects the track filter (e.g. the currently loaded track) when it has records
+    start(trackId?: string) {
+        const tracks = this.leaderboard.getTracks();
+        this.filter = trackId && tracks.some(t => t.trackId === trackId) ? { trackId } : {};
+
+        this.mount.innerHTML = `
+            <div style="
+                width: 100%;
+                height: 100%;
+                display: flex;
+                flex-direction: column;
+                padding: 60px 40px;
+                box-sizing: border-box;
+                color: #ffffff;
+                font-family: 'Orbitron', sans-serif;
+            ">
+                <h1 style="
+                    font-size: clamp(40px, 5vw, 64px);
+                    font-weight: 800;
+                    letter-spacing: 2px;
+                    margin: 0 0 30px 0;
+                    text-align: center;
+                    color: #ffffff;
+                    text-shadow:
+                        0 0 10px rgba(83, 215, 255, 0.8),
+                        0 0 20px rgba(83, 215, 255, 0.4),
+                        0 0 30px rgba(255, 43, 214, 0.3);
+                ">LEADERBOARDS</h1>
+
+                <div style="display: flex; gap: 12px; max-width: 900px; width: 100%; margin: 0 auto 20px auto; align-items: center;">
+                    <select id="leaderboardTrack" style="${selectStyle}">
+                        <option value="">ALL TRACKS</option>
+                        ${tracks.map(t => `<option value="${escapeHtml(t.trackId)}">${escapeHtml(t.trackName)}</option>`).join('')}
+                    </select>
+                    <select id="leaderboardMode" style="${selectStyle}">
+                        <option value="">ALL MODES</option>
+                        ${(Object.keys(MODE_LABELS) as RaceMode[]).map(m => `<option value="${m}">${MODE_LABELS[m]}</option>`).join('')}
+                    </select>
+                    <select id="leaderboardLaps" style="${selectStyle}">
+                        <option value="">ALL LAPS</option>
+                        ${this.leaderboard.getLapCounts().map(n => `<option value="${n}">${n} LAPS</option>`).join('')}
+                    </select>
+                    <button class="btn" id="leaderboardClear">CLEAR</button>
+                </div>
+
+                <div id="leaderboardRows" style="flex: 1; overflow-y: auto; max-width: 900px; width: 100%; margin: 0 auto;"></div>
+            </div>
+        `;
+
+        const trackSelect = this.mount.querySelector('#leaderboardTrack') as HTMLSelectElement;
+        const modeSelect = this.mount.querySelector('#leaderboardMode') as HTMLSelectElement;
+        const lapsSelect = this.mount.querySelector('#leaderboardLaps') as HTMLSelectElement;
+        trackSelect.value = this.filter.trackId ?? '';
+
+        const onFilterChange = () => {
+            this.filter = {
+                trackId: trackSelect.value || undefined,
+                mode: (modeSelect.value || undefined) as RaceMode | undefined,
+                laps: lapsSelect.value ? Number(lapsSelect.value) : undefined
+            };
+            this.renderRows();
+        };
+        trackSelect.addEventListener('change', onFilterChange);
+        modeSelect.addEventListener('change', onFilterChange);
+        lapsSelect.addEventListener('change', onFilterChange);
+
+        this.mount.querySelector('#leaderboardClear')?.addEventListener('click', () => {
+            const count = this.leaderboard.query(this.filter).length;
+            if (count === 0) return;
+            if (!window.confirm(`Delete ${count} record${count === 1 ? '' : 's'}?`)) return;
+            this.leaderboard.clear(this.filter);
+            this.start(this.filter.trackId);
+        });
+
+        this.renderRows();
+    }
+
+    stop() {
+        this.mount.innerHTML = '';
+    }
+
+    dispose() {
+        this.stop();
+    }
+
+    private renderRows() {
+        const rows = this.mount.querySelector('#leaderboardRows') as HTMLElement | null;
+        if (!rows) return;
+        const entries = this.leaderboard.query(this.filter);
+        if (entries.length === 0) {
+            rows.innerHTML = `<div style="text-align: center; padding: 40px; font-family: monospace; color: rgba(255, 255, 255, 0.5);">No records yet. Finish a race to set one.</div>`;
+            return;
+        }
+
+        const cell = 'padding: 8px 10px; text-align: left;';
+        rows.innerHTML = `
+            <table style="width: 100%; border-collapse: collapse; font-family: monospace; font-size: 13px;">
+                <thead>
+                    <tr style="color: rgba(83, 215, 255, 0.8); border-bottom: 1px solid rgba(83, 215, 255, 0.4);">
+                        <th style="${cell}">#</th>
+                        <th style="${cell}">TRACK</th>
+                        <th style="${cell}">MODE</th>
+                        <th style="${cell}">LAPS</th>
+                        <th style="${cell}">RACE</th>
+                        <th style="${cell}">BEST LAP</th>
+                        <th style="${cell}">POS</th>
+                        <th style="${cell}">STYLE</th>
+                        <th style="${cell}">SHIP</th>
+                        <th style="${cell}">DATE</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    ${entries.map((e, i) => this.renderRow(e, i, cell)).join('')}
+                </tbody>
+            </table>
+        `;
+    }
+
+    private renderRow(e: LeaderboardEntry, index: number, cell: string): string {
+        return `
+            <tr style="border-bottom: 1px solid rgba(255, 255, 255, 0.08); color: ${index === 0 ? '#ff2bd6' : '#ffffff'};">
+                <td style="${cell}">${index + 1}</td>
+                <td style="${cell}">${escapeHtml(e.trackName)}</td>
+                <td style="${cell}">${MODE_LABELS[e.mode] ?? e.mode}</td>
+                <td style="${cell}">${e.laps}</td>
+                <td style="${cell}">${formatTime(e.raceTime)}</td>
+                <td style="${cell}">${e.bestLap > 0 ? formatTime(e.bestLap) : '-'}</td>
+                <td style="${cell}">${e.position}/${e.racers}</td>
+                <td style="${cell}">${e.styleScore !== undefined ? e.styleScore.toLocaleString() : '-'}</td>
+                <td style="${cell}"><span style="display: inline-block; width: 14px; height: 14px; border-radius: 3px; background: ${escapeHtml(e.ship.color)};"></span>${e.ship.shipClass && SHIP_CLASSES[e.ship.shipClass] ? ` ${SHIP_CLASSES[e.ship.shipClass].name}` : ''}</td>
+                <td style="${cell}">${new Date(e.date).toLocaleDateString()}</td>
+            </tr>
+        `;
+    }
+}
+
+function escapeHtml(text: string): string {
+    return text.replace(/[&<>"']/g, c => `&#${c.charCodeAt(0)};`);
+}
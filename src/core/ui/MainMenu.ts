@@ -1,6 +1,6 @@
 import type { NewsItem } from './news';
 
-type Action = 'race' | 'controls' | 'build-ship' | 'restart' | 'quit';
+type Action = 'race' | 'time-trial' | 'controls' | 'build-ship' | 'track' | 'editor' | 'leaderboards' | 'photo' | 'restart' | 'quit';
 
 export class MainMenu {
     private root: HTMLElement;
@@ -9,8 +9,13 @@ export class MainMenu {
     private mode: 'main' | 'pause' = 'main';
     private callbacks: Record<Action, Array<() => void>> = {
         race: [],
+        'time-trial': [],
         controls: [],
         'build-ship': [],
+        track: [],
+        editor: [],
+        leaderboards: [],
+        photo: [],
         restart: [],
         quit: []
     };
@@ -87,16 +92,20 @@ export class MainMenu {
         if (this.mode === 'pause') {
             list.innerHTML = [
                 `<li class="menu-item" data-action="controls">CONTROLS</li>`,
+                `<li class="menu-item" data-action="photo">PHOTO MODE</li>`,
                 `<li class="menu-item" data-action="restart">RESTART RACE</li>`,
                 `<li class="menu-item" data-action="quit">QUIT GAME</li>`
             ].join('');
         } else {
             list.innerHTML = [
                 `<li class="menu-item" data-action="race">RACE</li>`,
+                `<li class="menu-item" data-action="time-trial">TIME TRIAL</li>`,
                 `<li class="menu-item" data-action="build-ship">SHIP</li>`,
+                `<li class="menu-item" data-action="track">TRACK</li>`,
+                `<li class="menu-item" data-action="editor">EDITOR</li>`,
                 `<li class="menu-item" data-action="controls">CONTROLS</li>`,
                 `<li class="menu-item disabled" data-action="multiplayer" aria-disabled="true">MULTIPLAYER</li>`,
-                `<li class="menu-item disabled" data-action="leaderboards" aria-disabled="true">LEADERBOARDS</li>`
+                `<li class="menu-item" data-action="leaderboards">LEADERBOARDS</li>`
             ].join('');
         }
     }
@@ -165,7 +174,7 @@ export class MainMenu {
             this.rafId = null;
         }
         this.newsTrack.innerHTML = '';
-        this.callbacks = { race: [], controls: [], 'build-ship': [], restart: [], quit: [] };
+        this.callbacks = { race: [], 'time-trial': [], controls: [], 'build-ship': [], track: [], editor: [], leaderboards: [], photo: [], restart: [], quit: [] };
     }
 }
 
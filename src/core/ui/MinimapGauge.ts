@@ -19,6 +19,7 @@ export class MinimapGauge {
     private startLinePoints: { x: number; y: number }[] = [];
     private shipPositions: ShipPosition[] = [];
     private animationId: number | null = null;
+    private onResize = () => this.updateSize(); // kept so destroy() can remove the same listener
     private tunnelSegments: Array<{ startIdx: number; endIdx: number; startT: number; endT: number }> = [];
     private pulseTime = 0;
 
@@ -42,7 +43,7 @@ export class MinimapGauge {
 
         // Set up canvas size
         this.updateSize();
-        window.addEventListener('resize', () => this.updateSize());
+        window.addEventListener('resize', this.onResize);
 
         // Precompute track projection
         this.precomputeTrackProjection();
@@ -51,6 +52,11 @@ export class MinimapGauge {
         this.animate();
     }
 
+    // Re-project after the track has been regenerated
+    public refresh() {
+        this.precomputeTrackProjection();
+    }
+
     private updateSize() {
         const rect = this.canvas.getBoundingClientRect();
         const dpr = window.devicePixelRatio || 1;
@@ -525,6 +531,7 @@ export class MinimapGauge {
             cancelAnimationFrame(this.animationId);
             this.animationId = null;
         }
+        window.removeEventListener('resize', this.onResize);
     }
 }
 
@@ -0,0 +1,105 @@
+import { PHOTO } from '../constants';
+import type { PhotoSettings } from '../types';
+
+export type PhotoModeEvent =
+    | { type: 'change'; settings: PhotoSettings }
+    | { type: 'capture'; scale: number }
+    | { type: 'exit' };
+
+type SliderKey = Exclude<keyof PhotoSettings, 'frozen'>;
+
+const SLIDERS: Array<{ key: SliderKey; label: string; decimals: number }> = [
+    { key: 'fov', label: 'FOV', decimals: 0 },
+    { key: 'roll', label: 'ROLL', decimals: 0 },
+    { key: 'focusDistance', label: 'FOCUS', decimals: 0 },
+    { key: 'bokehScale', label: 'BLUR', decimals: 1 },
+    { key: 'bloom', label: 'BLOOM', decimals: 2 },
+    { key: 'vignette', label: 'VIGNETTE', decimals: 2 },
+    { key: 'chromatic', label: 'CHROMATIC', decimals: 4 }
+];
+
+// Side panel for photo mode: camera and post-FX sliders, time freeze and PNG capture
+export class PhotoModePanel {
+    private root: HTMLElement;
+    private settings: PhotoSettings;
+    private handlers: Array<(event: PhotoModeEvent) => void> = [];
+
+    constructor(settings: PhotoSettings) {
+        this.settings = { ...settings };
+
+        this.root = document.createElement('div');
+        this.root.style.cssText = `
+            position: fixed;
+            top: 24px;
+            right: 24px;
+            width: 280px;
+            display: flex;
+            flex-direction: column;
+            gap: 10px;
+            padding: 16px 20px;
+            box-sizing: border-box;
+            background: rgba(5, 8, 30, 0.85);
+            border: 1px solid rgba(83, 215, 255, 0.4);
+            border-radius: 8px;
+            z-index: 30;
+            font-family: 'Orbitron', sans-serif;
+            color: #ffffff;
+        `;
+        this.root.innerHTML = `
+            <span style="font-size: 14px; letter-spacing: 2px; color: rgba(83, 215, 255, 0.9);">PHOTO MODE</span>
+            ${SLIDERS.map(({ key, label }) => `
+                <label style="display: flex; flex-direction: column; gap: 4px; font-size: 11px; letter-spacing: 1px;">
+                    <span style="display: flex; justify-content: space-between;">${label}<span data-value="${key}" style="font-family: monospace;"></span></span>
+                    <input data-slider="${key}" type="range" min="${PHOTO[key].min}" max="${PHOTO[key].max}" step="${PHOTO[key].step}" value="${this.settings[key]}" style="accent-color: #53d7ff;">
+                </label>
+            `).join('')}
+            <label style="display: flex; align-items: center; gap: 8px; font-size: 11px; letter-spacing: 1px; cursor: pointer;">
+                <input id="photoFrozen" type="checkbox" ${this.settings.frozen ? 'checked' : ''} style="accent-color: #53d7ff;">FREEZE TIME
+            </label>
+            <div style="display: flex; gap: 8px;">
+                ${PHOTO.captureScales.map(s => `<button class="btn" data-capture="${s}" style="flex: 1;">PNG ${s}x</button>`).join('')}
+            </div>
+            <button class="btn" data-action="exit">EXIT</button>
+            <span style="font-size: 10px; font-family: monospace; color: rgba(255, 255, 255, 0.6);">Move with the free camera keys, drag the view to look around</span>
+        `;
+        document.body.appendChild(this.root);
+        this.refreshValues();
+
+        this.root.querySelectorAll<HTMLInputElement>('[data-slider]').forEach((el) => {
+            el.addEventListener('input', () => {
+                this.settings[el.getAttribute('data-slider') as SliderKey] = Number(el.value);
+                this.refreshValues();
+                this.emit({ type: 'change', settings: { ...this.settings } });
+            });
+        });
+        const frozen = this.root.querySelector('#photoFrozen') as HTMLInputElement;
+        frozen.addEventListener('change', () => {
+            this.settings.frozen = frozen.checked;
+            this.emit({ type: 'change', settings: { ...this.settings } });
+        });
+        this.root.querySelectorAll<HTMLElement>('[data-capture]').forEach((el) => {
+            el.addEventListener('click', () => this.emit({ type: 'capture', scale: Number(el.getAttribute('data-capture')) }));
+        });
+        this.root.querySelector('[data-action="exit"]')?.addEventListener('click', () => this.emit({ type: 'exit' }));
+    }
+
+    onControl(handler: (event: PhotoModeEvent) => void) {
+        this.handlers.push(handler);
+    }
+
+    dispose() {
+        this.handlers = [];
+        this.root.remove();
+    }
+
+    private refreshValues() {
+        SLIDERS.forEach(({ key, decimals }) => {
+            const el = this.root.querySelector(`[data-value="${key}"]`);
+            if (el) el.textContent = this.settings[key].toFixed(decimals);
+        });
+    }
+
+    private emit(event: PhotoModeEvent) {
+        this.handlers.forEach(h => h(event));
+    }
+}
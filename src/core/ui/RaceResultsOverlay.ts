@@ -0,0 +1,147 @@
+import type { RaceResults } from '../types';
+import { formatTime } from './formatTime';
+
+type ResultsAction = 'restart' | 'new-track' | 'replay' | 'rerun' | 'menu';
+
+export type RacerLabel = {
+    name: string;
+    color: string; // css color for the row swatch
+};
+
+// Full-screen classification shown after the player finishes
+export class RaceResultsOverlay {
+    private root: HTMLElement;
+    private rowsEl: HTMLElement;
+    private handlers: Array<(action: ResultsAction) => void> = [];
+    private lastSignature = '';
+
+    constructor() {
+        this.root = document.createElement('div');
+        this.root.style.cssText = `
+            position: fixed;
+            inset: 0;
+            display: none;
+            align-items: center;
+            justify-content: center;
+            background: rgba(2, 4, 20, 0.75);
+            backdrop-filter: blur(4px);
+            z-index: 30;
+            font-family: 'Orbitron', sans-serif;
+            color: #ffffff;
+        `;
+        this.root.innerHTML = `
+            <div style="
+                width: min(900px, 92vw);
+                max-height: 90vh;
+                display: flex;
+                flex-direction: column;
+                gap: 24px;
+                padding: 40px;
+                box-sizing: border-box;
+                background: rgba(5, 8, 30, 0.85);
+                border: 1px solid rgba(83, 215, 255, 0.4);
+                border-radius: 8px;
+            ">
+                <h1 id="raceResultsTitle" style="
+                    font-size: clamp(36px, 5vw, 56px);
+                    font-weight: 800;
+                    letter-spacing: 2px;
+                    margin: 0;
+                    text-align: center;
+                    text-shadow:
+                        0 0 10px rgba(83, 215, 255, 0.8),
+                        0 0 20px rgba(83, 215, 255, 0.4),
+                        0 0 30px rgba(255, 43, 214, 0.3);
+                ">RESULTS</h1>
+                <div id="raceResultsRows" style="overflow-y: auto;"></div>
+                <div style="display: flex; justify-content: center; gap: 16px;">
+                    <button class="btn" data-action="restart">RESTART</button>
+                    <button class="btn" data-action="new-track">NEW TRACK</button>
+                    <button class="btn" data-action="replay">REPLAY</button>
+                    <button class="btn" data-action="rerun">RE-RUN</button>
+                    <button class="btn" data-action="menu">MENU</button>
+                </div>
+            </div>
+        `;
+        document.body.appendChild(this.root);
+        this.rowsEl = this.root.querySelector('#raceResultsRows') as HTMLElement;
+
+        this.root.querySelectorAll<HTMLElement>('[data-action]').forEach((el) => {
+            el.addEventListener('click', () => {
+                const action = el.getAttribute('data-action') as ResultsAction;
+                this.handlers.forEach(h => h(action));
+            });
+        });
+    }
+
+    onAction(handler: (action: ResultsAction) => void) {
+        this.handlers.push(handler);
+    }
+
+    isVisible(): boolean {
+        return this.root.style.display !== 'none';
+    }
+
+    show(title: string) {
+        const titleEl = this.root.querySelector('#raceResultsTitle');
+        if (titleEl) titleEl.textContent = title;
+        this.root.style.display = 'flex';
+    }
+
+    hide() {
+        this.root.style.display = 'none';
+        this.lastSignature = '';
+    }
+
+    // Re-renders only when the classification changed (NPCs keep finishing after the player)
+    update(results: RaceResults, labels: Map<string, RacerLabel>, playerId: string) {
+        const positions = results.positions;
+        const signature = positions.map(p => `${p.racerId}:${p.position}:${p.finished}:${p.bestLap ?? ''}:${p.styleScore ?? ''}`).join('|');
+        if (signature === this.lastSignature) return;
+        this.lastSignature = signature;
+
+        const winnerTime = positions.find(p => p.finished)?.finishTime;
+        const cell = 'padding: 10px 12px; text-align: left;';
+        this.rowsEl.innerHTML = `
+            <table style="width: 100%; border-collapse: collapse; font-family: monospace; font-size: 15px;">
+                <thead>
+                    <tr style="color: rgba(83, 215, 255, 0.8); border-bottom: 1px solid rgba(83, 215, 255, 0.4);">
+                        <th style="${cell}">POS</th>
+                        <th style="${cell}">RACER</th>
+                        <th style="${cell}">TIME</th>
+                        <th style="${cell}">BEST LAP</th>
+                        <th style="${cell}">GAP</th>
+                        <th style="${cell}">STYLE</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    ${positions.map((p) => {
+                        const label = labels.get(p.racerId) ?? { name: p.racerId.toUpperCase(), color: '#ffffff' };
+                        const isPlayer = p.racerId === playerId;
+                        const time = p.finished && p.finishTime !== undefined
+                            ? `${formatTime(p.finishTime)}${p.penalty ? ` (+${p.penalty}s)` : ''}`
+                            : 'DNF';
+                        const gap = p.finished && winnerTime !== undefined && p.finishTime !== undefined && p.finishTime > winnerTime
+                            ? `+${(p.finishTime - winnerTime).toFixed(2)}`
+                            : '-';
+                        return `
+                            <tr style="border-bottom: 1px solid rgba(255, 255, 255, 0.08); color: ${isPlayer ? '#ff2bd6' : '#ffffff'};">
+                                <td style="${cell}">${p.position}</td>
+                                <td style="${cell}"><span style="display: inline-block; width: 12px; height: 12px; margin-right: 10px; border-radius: 2px; background: ${label.color};"></span>${label.name}</td>
+                                <td style="${cell}">${time}</td>
+                                <td style="${cell}">${p.bestLap !== undefined ? formatTime(p.bestLap) : '-'}</td>
+                                <td style="${cell}">${gap}</td>
+                                <td style="${cell}">${p.styleScore !== undefined ? p.styleScore.toLocaleString() : '-'}</td>
+                            </tr>
+                        `;
+                    }).join('')}
+                </tbody>
+            </table>
+        `;
+    }
+
+    dispose() {
+        this.handlers = [];
+        this.root.remove();
+    }
+}
@@ -0,0 +1,208 @@
+import { RACE_SETUP } from '../constants';
+import { sanitizeRaceSetup } from '../RaceSetup';
+import type { AIDifficulty, RaceMode, RaceSetup } from '../types';
+
+const DIFFICULTY_LABELS: Record<AIDifficulty, string> = {
+    easy: 'EASY',
+    normal: 'NORMAL',
+    hard: 'HARD',
+    expert: 'EXPERT'
+};
+
+const fieldStyle = `
+    flex: 1;
+    padding: 10px 14px;
+    background: rgba(0, 0, 0, 0.4);
+    border: 1px solid rgba(83, 215, 255, 0.4);
+    border-radius: 6px;
+    color: #ffffff;
+    font-family: monospace;
+    font-size: 14px;
+`;
+
+const rowStyle = 'display: flex; justify-content: space-between; align-items: center; gap: 20px; font-size: 14px; color: rgba(255, 255, 255, 0.9);';
+
+// Menu viewport panel shown before a race: laps, opponents, AI difficulty and track choice
+export class RaceSetupPanel {
+    private mount: HTMLElement;
+    private startHandlers: Array<(setup: RaceSetup) => void> = [];
+    private loadFileHandlers: Array<(file: File) => void> = [];
+    private statusEl: HTMLElement | null = null;
+    private loadedTrackName = 'Untitled';
+
+    constructor(mount: HTMLElement) {
+        this.mount = mount;
+    }
+
+    onStart(handler: (setup: RaceSetup) => void) {
+        this.startHandlers.push(handler);
+    }
+
+    // A track file picked from the panel; the caller loads it and reports back via setLoadedTrack
+    onLoadFile(handler: (file: File) => void) {
+        this.loadFileHandlers.push(handler);
+    }
+
+    // A new track was loaded: show its name and race on it
+    setLoadedTrack(name: string) {
+        this.loadedTrackName = name;
+        const label = this.mount.querySelector('#raceSetupLoadedName');
+        if (label) label.textContent = name;
+        const source = this.mount.querySelector('#raceSetupTrackSource') as HTMLSelectElement | null;
+        if (source) {
+            source.value = 'loaded';
+            this.updateTrackRows();
+        }
+    }
+
+    setStatus(text: string, isError = false) {
+        if (!this.statusEl) return;
+        this.statusEl.textContent = text;
+        this.statusEl.style.color = isError ? '#ff4444' : 'rgba(83, 215, 255, 1)';
+    }
+
+    // loadedTrackName labels the track currently in memory (file, editor or procedural)
+    start(mode: RaceMode, setup: RaceSetup, loadedTrackName: string) {
+        this.loadedTrackName = loadedTrackName;
+        const range = (min: number, max: number) => Array.from({ length: max - min + 1 }, (_, i) => min + i);
+        this.mount.innerHTML = `
+            <div style="
+                width: 100%;
+                height: 100%;
+                display: flex;
+                flex-direction: column;
+                padding: 60px 40px;
+                box-sizing: border-box;
+                color: #ffffff;
+                font-family: 'Orbitron', sans-serif;
+            ">
+                <h1 style="
+                    font-size: clamp(40px, 5vw, 64px);
+                    font-weight: 800;
+                    letter-spacing: 2px;
+                    margin: 0 0 40px 0;
+                    text-align: center;
+                    color: #ffffff;
+                    text-shadow:
+                        0 0 10px rgba(83, 215, 255, 0.8),
+                        0 0 20px rgba(83, 215, 255, 0.4),
+                        0 0 30px rgba(255, 43, 214, 0.3);
+                ">${mode === 'time-trial' ? 'TIME TRIAL' : 'RACE SETUP'}</h1>
+
+                <div style="display: flex; flex-direction: column; gap: 20px; max-width: 600px; width: 100%; margin: 0 auto;">
+                    <label style="${rowStyle}">
+                        LAPS
+                        <select id="raceSetupLaps" style="${fieldStyle}">
+                            ${range(RACE_SETUP.lapsMin, RACE_SETUP.lapsMax).map(n => `<option value="${n}">${n}</option>`).join('')}
+                        </select>
+                    </label>
+                    <label style="${rowStyle}${mode === 'time-trial' ? ' display: none;' : ''}">
+                        OPPONENTS
+                        <select id="raceSetupOpponents" style="${fieldStyle}">
+                            ${range(RACE_SETUP.opponentsMin, RACE_SETUP.opponentsMax).map(n => `<option value="${n}">${n}</option>`).join('')}
+                        </select>
+                    </label>
+                    <label style="${rowStyle}${mode === 'time-trial' ? ' display: none;' : ''}">
+                        DIFFICULTY
+                        <select id="raceSetupDifficulty" style="${fieldStyle}">
+                            ${(Object.keys(DIFFICULTY_LABELS) as AIDifficulty[]).map(d => `<option value="${d}">${DIFFICULTY_LABELS[d]}</option>`).join('')}
+                        </select>
+                    </label>
+                    <label style="${rowStyle}${mode === 'time-trial' ? ' display: none;' : ''}">
+                        CATCH-UP
+                        <select id="raceSetupRubberBanding" style="${fieldStyle}">
+                            <option value="on">ON</option>
+                            <option value="off">OFF (COMPETITIVE)</option>
+                        </select>
+                    </label>
+                    <label style="${rowStyle}">
+                        TRACK
+                        <select id="raceSetupTrackSource" style="${fieldStyle}">
+                            <option value="seed">SEED</option>
+                            <option value="loaded">LOADED TRACK</option>
+                        </select>
+                    </label>
+                    <div id="raceSetupSeedRow" style="${rowStyle}">
+                        <input id="raceSetupSeed" type="number" min="0" step="1" style="${fieldStyle}" />
+                        <button class="btn" id="raceSetupRandomSeed">RANDOM</button>
+                    </div>
+                    <div id="raceSetupLoadedRow" style="${rowStyle}">
+                        <span id="raceSetupLoadedName" style="flex: 1; font-family: monospace;"></span>
+                        <button class="btn" id="raceSetupLoadFile">LOAD FILE</button>
+                        <input id="raceSetupFileInput" type="file" accept=".json,application/json" style="display: none;" />
+                    </div>
+
+                    <div style="display: flex; justify-content: center; margin-top: 12px;">
+                        <button class="btn" id="raceSetupStart">START</button>
+                    </div>
+                    <div id="raceSetupStatus" style="min-height: 20px; text-align: center; font-size: 13px; font-family: monospace;"></div>
+                </div>
+            </div>
+        `;
+
+        this.statusEl = this.mount.querySelector('#raceSetupStatus');
+        const laps = this.mount.querySelector('#raceSetupLaps') as HTMLSelectElement;
+        const opponents = this.mount.querySelector('#raceSetupOpponents') as HTMLSelectElement;
+        const difficulty = this.mount.querySelector('#raceSetupDifficulty') as HTMLSelectElement;
+        const rubberBanding = this.mount.querySelector('#raceSetupRubberBanding') as HTMLSelectElement;
+        const source = this.mount.querySelector('#raceSetupTrackSource') as HTMLSelectElement;
+        const seed = this.mount.querySelector('#raceSetupSeed') as HTMLInputElement;
+        laps.value = String(setup.laps);
+        opponents.value = String(setup.opponents);
+        difficulty.value = setup.difficulty;
+        rubberBanding.value = setup.rubberBanding ? 'on' : 'off';
+        source.value = setup.seed === null ? 'loaded' : 'seed';
+        seed.value = String(setup.seed ?? Math.floor(Math.random() * 1e9));
+        (this.mount.querySelector('#raceSetupLoadedName') as HTMLElement).textContent = this.loadedTrackName;
+        this.updateTrackRows();
+
+        source.addEventListener('change', () => this.updateTrackRows());
+        this.mount.querySelector('#raceSetupRandomSeed')?.addEventListener('click', () => {
+            seed.value = String(Math.floor(Math.random() * 1e9));
+        });
+
+        const input = this.mount.querySelector('#raceSetupFileInput') as HTMLInputElement;
+        input.addEventListener('change', () => {
+            const file = input.files?.[0];
+            if (file) this.loadFileHandlers.forEach(h => h(file));
+            input.value = '';
+        });
+        this.mount.querySelector('#raceSetupLoadFile')?.addEventListener('click', () => input.click());
+
+        this.mount.querySelector('#raceSetupStart')?.addEventListener('click', () => {
+            const seedValue = Number(seed.value);
+            if (source.value === 'seed' && (seed.value.trim() === '' || !Number.isInteger(seedValue) || seedValue < 0)) {
+                this.setStatus('Seed must be a whole number', true);
+                return;
+            }
+            const chosen = sanitizeRaceSetup({
+                laps: Number(laps.value),
+                opponents: mode === 'time-trial' ? setup.opponents : Number(opponents.value),
+                difficulty: difficulty.value as AIDifficulty,
+                rubberBanding: rubberBanding.value === 'on',
+                seed: source.value === 'seed' ? seedValue : null
+            });
+            this.startHandlers.forEach(h => h(chosen));
+        });
+    }
+
+    stop() {
+        this.statusEl = null;
+        this.mount.innerHTML = '';
+    }
+
+    dispose() {
+        this.stop();
+        this.startHandlers = [];
+        this.loadFileHandlers = [];
+    }
+
+    private updateTrackRows() {
+        const source = this.mount.querySelector('#raceSetupTrackSource') as HTMLSelectElement | null;
+        const seedRow = this.mount.querySelector('#raceSetupSeedRow') as HTMLElement | null;
+        const loadedRow = this.mount.querySelector('#raceSetupLoadedRow') as HTMLElement | null;
+        if (!source || !seedRow || !loadedRow) return;
+        seedRow.style.display = source.value === 'seed' ? 'flex' : 'none';
+        loadedRow.style.display = source.value === 'loaded' ? 'flex' : 'none';
+    }
+}
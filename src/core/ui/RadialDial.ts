@@ -9,6 +9,7 @@ export class RadialDial {
     private centerX: number = 0;
     private centerY: number = 0;
     private animationId: number | null = null;
+    private onResize = () => this.updateSize(); // kept so destroy() can remove the same listener
 
     constructor(canvasId: string, color: string = '#53d7ff') {
         this.canvas = document.getElementById(canvasId) as HTMLCanvasElement;
@@ -17,7 +18,7 @@ export class RadialDial {
 
         // Set up canvas size
         this.updateSize();
-        window.addEventListener('resize', () => this.updateSize());
+        window.addEventListener('resize', this.onResize);
 
         // Start animation loop
         this.animate();
@@ -120,8 +121,9 @@ export class RadialDial {
     public destroy() {
         if (this.animationId) {
             cancelAnimationFrame(this.animationId);
+            this.animationId = null;
         }
-        window.removeEventListener('resize', () => this.updateSize());
+        window.removeEventListener('resize', this.onResize);
     }
 }
 
@@ -0,0 +1,145 @@
+import { REPLAY } from '../constants';
+import type { ReplayEvent, ReplayRacer } from '../types';
+import { formatTime } from './formatTime';
+
+export type ReplayControlEvent =
+    | { type: 'toggle' }
+    | { type: 'seek'; time: number }
+    | { type: 'speed'; speed: number }
+    | { type: 'focus'; racerId: string | null }
+    | { type: 'save' }
+    | { type: 'exit' };
+
+export type ReplayControlState = {
+    time: number;
+    duration: number;
+    playing: boolean;
+    speed: number;
+    focus: string | null; // racer id, null = auto-direction
+    event: ReplayEvent | null; // shown in the ticker
+};
+
+const chipStyle = `
+    padding: 6px 10px;
+    background: rgba(0, 0, 0, 0.4);
+    border: 1px solid rgba(83, 215, 255, 0.4);
+    border-radius: 6px;
+    color: rgba(255, 255, 255, 0.85);
+    font-family: monospace;
+    font-size: 12px;
+    cursor: pointer;
+`;
+
+// Bottom bar for replay playback: play/pause, timeline with event markers, speed and racer focus
+export class ReplayControls {
+    private root: HTMLElement;
+    private scrubber: HTMLInputElement;
+    private timeEl: HTMLElement;
+    private toggleEl: HTMLElement;
+    private tickerEl: HTMLElement;
+    private names = new Map<string, string>();
+    private handlers: Array<(event: ReplayControlEvent) => void> = [];
+    private scrubbing = false;
+
+    constructor(racers: ReplayRacer[], duration: number, events: ReplayEvent[]) {
+        racers.forEach(r => this.names.set(r.racerId, r.name));
+
+        this.root = document.createElement('div');
+        this.root.style.cssText = `
+            position: fixed;
+            left: 50%;
+            bottom: 24px;
+            transform: translateX(-50%);
+            width: min(1000px, 94vw);
+            display: flex;
+            flex-direction: column;
+            gap: 10px;
+            padding: 16px 20px;
+            box-sizing: border-box;
+            background: rgba(5, 8, 30, 0.85);
+            border: 1px solid rgba(83, 215, 255, 0.4);
+            border-radius: 8px;
+            z-index: 30;
+            font-family: 'Orbitron', sans-serif;
+            color: #ffffff;
+        `;
+        const markers = duration > 0
+            ? events.filter(e => e.kind !== 'lap').map(e => `
+                <span title="${e.label}" style="position: absolute; left: ${(e.time / duration) * 100}%; top: 0; bottom: 0; width: 2px; background: ${e.kind === 'wreck' ? '#ff2bd6' : 'rgba(255, 214, 10, 0.7)'};"></span>
+            `).join('')
+            : '';
+        this.root.innerHTML = `
+            <div style="display: flex; justify-content: space-between; align-items: center; gap: 16px;">
+                <span style="font-size: 14px; letter-spacing: 2px; color: rgba(83, 215, 255, 0.9);">REPLAY</span>
+                <span id="replayTicker" style="flex: 1; text-align: center; font-size: 13px; font-family: monospace; color: #ffd60a;"></span>
+                <span id="replayTime" style="font-size: 13px; font-family: monospace;"></span>
+            </div>
+            <div style="position: relative; height: 24px;">
+                <div style="position: absolute; left: 0; right: 0; top: 8px; height: 8px; pointer-events: none;">${markers}</div>
+                <input id="replayScrubber" type="range" min="0" max="${duration}" step="0.01" value="0" style="position: absolute; inset: 0; width: 100%; margin: 0; accent-color: #53d7ff; background: transparent;">
+            </div>
+            <div style="display: flex; flex-wrap: wrap; align-items: center; gap: 8px;">
+                <button class="btn" id="replayToggle" style="min-width: 110px;"></button>
+                ${REPLAY.speeds.map(s => `<button data-speed="${s}" style="${chipStyle}">${s}x</button>`).join('')}
+                <span style="width: 12px;"></span>
+                <button data-focus="" style="${chipStyle}">AUTO</button>
+                ${racers.map(r => `<button data-focus="${r.racerId}" style="${chipStyle}"><span style="display: inline-block; width: 10px; height: 10px; margin-right: 6px; border-radius: 2px; background: ${r.color};"></span>${r.name}</button>`).join('')}
+                <span style="flex: 1;"></span>
+                <button class="btn" data-action="save">SAVE</button>
+                <button class="btn" data-action="exit">EXIT</button>
+            </div>
+        `;
+        document.body.appendChild(this.root);
+
+        this.scrubber = this.root.querySelector('#replayScrubber') as HTMLInputElement;
+        this.timeEl = this.root.querySelector('#replayTime') as HTMLElement;
+        this.toggleEl = this.root.querySelector('#replayToggle') as HTMLElement;
+        this.tickerEl = this.root.querySelector('#replayTicker') as HTMLElement;
+
+        this.toggleEl.addEventListener('click', () => this.emit({ type: 'toggle' }));
+        this.scrubber.addEventListener('pointerdown', () => { this.scrubbing = true; });
+        this.scrubber.addEventListener('pointerup', () => { this.scrubbing = false; });
+        this.scrubber.addEventListener('input', () => this.emit({ type: 'seek', time: Number(this.scrubber.value) }));
+        this.root.querySelectorAll<HTMLElement>('[data-speed]').forEach((el) => {
+            el.addEventListener('click', () => this.emit({ type: 'speed', speed: Number(el.getAttribute('data-speed')) }));
+        });
+        this.root.querySelectorAll<HTMLElement>('[data-focus]').forEach((el) => {
+            el.addEventListener('click', () => this.emit({ type: 'focus', racerId: el.getAttribute('data-focus') || null }));
+        });
+        this.root.querySelectorAll<HTMLElement>('[data-action]').forEach((el) => {
+            el.addEventListener('click', () => this.emit({ type: el.getAttribute('data-action') as 'save' | 'exit' }));
+        });
+    }
+
+    onControl(handler: (event: ReplayControlEvent) => void) {
+        this.handlers.push(handler);
+    }
+
+    update(state: ReplayControlState) {
+        // Leave the thumb alone while it is being dragged
+        if (!this.scrubbing) this.scrubber.value = String(state.time);
+        this.timeEl.textContent = `${formatTime(state.time)} / ${formatTime(state.duration)}`;
+        this.toggleEl.textContent = state.playing ? 'PAUSE' : 'PLAY';
+
+        const event = state.event;
+        this.tickerEl.textContent = event
+            ? `${this.names.get(event.racerId) ?? event.racerId} ${event.label}${event.targetId ? ` · ${this.names.get(event.targetId) ?? event.targetId}` : ''}`
+            : '';
+
+        this.root.querySelectorAll<HTMLElement>('[data-speed]').forEach((el) => {
+            el.style.borderColor = Number(el.getAttribute('data-speed')) === state.speed ? '#ff2bd6' : 'rgba(83, 215, 255, 0.4)';
+        });
+        this.root.querySelectorAll<HTMLElement>('[data-focus]').forEach((el) => {
+            el.style.borderColor = (el.getAttribute('data-focus') || null) === state.focus ? '#ff2bd6' : 'rgba(83, 215, 255, 0.4)';
+        });
+    }
+
+    dispose() {
+        this.handlers = [];
+        this.root.remove();
+    }
+
+    private emit(event: ReplayControlEvent) {
+        this.handlers.forEach(h => h(event));
+    }
+}
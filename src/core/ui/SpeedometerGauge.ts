@@ -7,6 +7,8 @@ export class SpeedometerGauge {
     private targetSpeed: number = 0;
     private targetBoost: number = 0;
     private targetFlow: number = 0;
+    private hull: number = 1;
+    private targetHull: number = 1;
     private actualSpeed: number = 0;
     private lapCurrent: number = 1;
     private lapTotal: number = 3;
@@ -15,6 +17,7 @@ export class SpeedometerGauge {
     private centerX: number = 0;
     private centerY: number = 0;
     private animationId: number | null = null;
+    private onResize = () => this.updateSize(); // kept so destroy() can remove the same listener
     private pulseTime: number = 0;
     private lightSweepAngle: number = 0;
 
@@ -31,7 +34,7 @@ export class SpeedometerGauge {
 
         // Set up canvas size
         this.updateSize();
-        window.addEventListener('resize', () => this.updateSize());
+        window.addEventListener('resize', this.onResize);
 
         // Start animation loop
         this.animate();
@@ -64,6 +67,10 @@ export class SpeedometerGauge {
         this.targetFlow = Math.max(0, Math.min(1, flow));
     }
 
+    public setHull(hull: number) {
+        this.targetHull = Math.max(0, Math.min(1, hull));
+    }
+
     public setMaxSpeed(maxSpeed: number) {
         this.maxSpeed = maxSpeed;
     }
@@ -82,6 +89,7 @@ export class SpeedometerGauge {
         this.speed = this.speed + (this.targetSpeed - this.speed) * 0.15;
         this.boost = this.boost + (this.targetBoost - this.boost) * 0.15;
         this.flow = this.flow + (this.targetFlow - this.flow) * 0.15;
+        this.hull = this.hull + (this.targetHull - this.hull) * 0.15;
 
         // Update pulse time for glow effect
         this.pulseTime += 0.05;
@@ -126,6 +134,9 @@ export class SpeedometerGauge {
         // Draw speed arc (innermost, white) - represents actual speed
         this.drawArc(speedRadius, this.speed, '#ffffff', 8, 1.0);
 
+        // Draw hull integrity in the gap below the main arcs
+        this.drawHullArc(baseRadius * 1.1);
+
         // Draw connecting beam across bottom of speed segments
         this.drawSpeedConnectingBeam(speedRadius);
 
@@ -581,6 +592,35 @@ export class SpeedometerGauge {
         this.ctx.restore();
     }
 
+    // Short segmented arc across the bottom gap, filling left to right; red and pulsing when critical
+    private drawHullArc(radius: number) {
+        const hullSegments = 8;
+        const arcLeft = Math.PI * 0.7;
+        const arcRight = Math.PI * 0.3;
+        const segmentAngle = (arcLeft - arcRight) / hullSegments;
+        const filledSegments = Math.ceil(this.hull * hullSegments - 0.001);
+        const critical = this.targetHull < 0.3;
+        const color = critical ? '#ff4444' : '#ffdd55';
+        const pulse = critical ? Math.sin(this.pulseTime * 2) * 0.3 + 0.7 : 1.0;
+
+        this.ctx.save();
+        this.ctx.strokeStyle = color;
+        this.ctx.lineWidth = 6;
+        this.ctx.shadowColor = color;
+        for (let i = 0; i < hullSegments; i++) {
+            // Canvas angles run clockwise, so walk from the left end toward the right
+            const start = arcLeft - i * segmentAngle;
+            const end = start - segmentAngle * 0.8;
+            const isFilled = i < filledSegments;
+            this.ctx.globalAlpha = isFilled ? pulse : 0.15;
+            this.ctx.shadowBlur = isFilled ? 10 : 0;
+            this.ctx.beginPath();
+            this.ctx.arc(this.centerX, this.centerY, radius, end, start);
+            this.ctx.stroke();
+        }
+        this.ctx.restore();
+    }
+
     private drawSpeedConnectingBeam(radius: number) {
         this.ctx.save();
 
@@ -628,7 +668,8 @@ export class SpeedometerGauge {
     public destroy() {
         if (this.animationId) {
             cancelAnimationFrame(this.animationId);
+            this.animationId = null;
         }
-        window.removeEventListener('resize', () => this.updateSize());
+        window.removeEventListener('resize', this.onResize);
     }
 }
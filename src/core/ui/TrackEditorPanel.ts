@@ -0,0 +1,193 @@
+import type { EditorTool, TrackWarning } from '../types';
+
+type EditorAction = 'add-point' | 'remove-point' | 'export' | 'exit';
+
+const TOOLS: Array<{ tool: EditorTool; label: string }> = [
+    { tool: 'select', label: 'MOVE' },
+    { tool: 'tunnel-rings', label: 'RINGS' },
+    { tool: 'tunnel-wormhole', label: 'WORMHOLE' },
+    { tool: 'boost-pad', label: 'BOOST' },
+    { tool: 'ramp', label: 'RAMP' },
+    { tool: 'erase', label: 'ERASE' }
+];
+
+const KIND_LABELS: Record<TrackWarning['kind'], string> = {
+    curvature: 'CORNER',
+    grade: 'GRADE',
+    pinch: 'PINCH'
+};
+
+// Side panel for the track editor: tools, point actions, layout stats and validation warnings
+export class TrackEditorPanel {
+    private root: HTMLElement;
+    private toolHandlers: Array<(tool: EditorTool) => void> = [];
+    private actionHandlers: Array<(action: EditorAction) => void> = [];
+    private warningHandlers: Array<(warning: TrackWarning) => void> = [];
+    private warnings: TrackWarning[] = [];
+
+    constructor() {
+        this.root = document.createElement('div');
+        this.root.style.cssText = `
+            position: fixed;
+            top: 20px;
+            left: 20px;
+            bottom: 20px;
+            width: 300px;
+            display: none;
+            flex-direction: column;
+            gap: 14px;
+            padding: 20px;
+            box-sizing: border-box;
+            background: rgba(5, 8, 30, 0.85);
+            border: 1px solid rgba(83, 215, 255, 0.4);
+            border-radius: 8px;
+            color: #ffffff;
+            font-family: 'Orbitron', sans-serif;
+            z-index: 20;
+            overflow: hidden;
+        `;
+        this.root.innerHTML = `
+            <h1 style="
+                font-size: 28px;
+                font-weight: 800;
+                letter-spacing: 2px;
+                margin: 0;
+                text-align: center;
+                text-shadow: 0 0 10px rgba(83, 215, 255, 0.8), 0 0 20px rgba(255, 43, 214, 0.3);
+            ">EDITOR</h1>
+
+            <input id="editorTrackName" type="text" value="Untitled" style="
+                padding: 8px 12px;
+                background: rgba(0, 0, 0, 0.4);
+                border: 1px solid rgba(83, 215, 255, 0.4);
+                border-radius: 6px;
+                color: #ffffff;
+                font-family: monospace;
+                font-size: 13px;
+            " />
+
+            <div id="editorTools" style="display: grid; grid-template-columns: 1fr 1fr; gap: 8px;">
+                ${TOOLS.map(t => `<button class="btn" data-tool="${t.tool}" style="padding: 8px; font-size: 12px;">${t.label}</button>`).join('')}
+            </div>
+
+            <div style="display: flex; gap: 8px;">
+                <button class="btn" data-action="add-point" style="flex: 1; padding: 8px; font-size: 12px;">+ POINT</button>
+                <button class="btn" data-action="remove-point" style="flex: 1; padding: 8px; font-size: 12px;">- POINT</button>
+            </div>
+
+            <div id="editorStats" style="font-family: monospace; font-size: 12px; color: rgba(255, 255, 255, 0.7); line-height: 1.5;"></div>
+            <div id="editorStatus" style="min-height: 16px; font-family: monospace; font-size: 12px; color: rgba(83, 215, 255, 1);"></div>
+
+            <div style="font-size: 13px; letter-spacing: 1px;">WARNINGS <span id="editorWarningCount"></span></div>
+            <div id="editorWarnings" style="flex: 1; overflow-y: auto; display: flex; flex-direction: column; gap: 6px; font-family: monospace; font-size: 12px;"></div>
+
+            <div style="font-family: monospace; font-size: 11px; color: rgba(255, 255, 255, 0.5); line-height: 1.5;">
+                Drag handles to move · Shift+drag for height<br/>
+                Drag along the track to paint · Del removes point
+            </div>
+
+            <div style="display: flex; gap: 8px;">
+                <button class="btn" data-action="export" style="flex: 1; padding: 8px; font-size: 12px;">EXPORT</button>
+                <button class="btn" data-action="exit" style="flex: 1; padding: 8px; font-size: 12px;">EXIT</button>
+            </div>
+        `;
+        document.body.appendChild(this.root);
+
+        this.root.querySelectorAll<HTMLElement>('[data-tool]').forEach((el) => {
+            el.addEventListener('click', () => {
+                const tool = el.getAttribute('data-tool') as EditorTool;
+                this.setTool(tool);
+                this.toolHandlers.forEach(h => h(tool));
+            });
+        });
+        this.root.querySelectorAll<HTMLElement>('[data-action]').forEach((el) => {
+            el.addEventListener('click', () => {
+                const action = el.getAttribute('data-action') as EditorAction;
+                this.actionHandlers.forEach(h => h(action));
+            });
+        });
+        // Keep editor hotkeys (Delete, Backspace) from firing while typing a name
+        this.root.querySelector('#editorTrackName')?.addEventListener('keydown', (e) => e.stopPropagation());
+    }
+
+    onToolChange(handler: (tool: EditorTool) => void) {
+        this.toolHandlers.push(handler);
+    }
+
+    onAction(handler: (action: EditorAction) => void) {
+        this.actionHandlers.push(handler);
+    }
+
+    onWarningClick(handler: (warning: TrackWarning) => void) {
+        this.warningHandlers.push(handler);
+    }
+
+    show() { this.root.style.display = 'flex'; }
+    hide() { this.root.style.display = 'none'; }
+
+    getTrackName(): string {
+        const input = this.root.querySelector('#editorTrackName') as HTMLInputElement;
+        return input.value.trim() || 'Untitled';
+    }
+
+    setTrackName(name: string) {
+        const input = this.root.querySelector('#editorTrackName') as HTMLInputElement;
+        input.value = name;
+    }
+
+    setTool(tool: EditorTool) {
+        this.root.querySelectorAll<HTMLElement>('[data-tool]').forEach((el) => {
+            const active = el.getAttribute('data-tool') === tool;
+            el.style.borderColor = active ? 'rgba(255, 43, 214, 1)' : '';
+            el.style.boxShadow = active ? '0 0 10px rgba(255, 43, 214, 0.6)' : '';
+        });
+    }
+
+    setStats(stats: { handles: number; tunnels: number; boostPads: number; ramps: number; lengthMeters: number }) {
+        const el = this.root.querySelector('#editorStats');
+        if (!el) return;
+        el.innerHTML = [
+            `POINTS ${stats.handles} · LENGTH ${(stats.lengthMeters / 1000).toFixed(2)} km`,
+            `TUNNELS ${stats.tunnels} · BOOST ${stats.boostPads} · RAMPS ${stats.ramps}`
+        ].join('<br/>');
+    }
+
+    setStatus(text: string, isError = false) {
+        const el = this.root.querySelector('#editorStatus') as HTMLElement | null;
+        if (!el) return;
+        el.textContent = text;
+        el.style.color = isError ? '#ff4444' : 'rgba(83, 215, 255, 1)';
+    }
+
+    setWarnings(warnings: TrackWarning[]) {
+        this.warnings = warnings;
+        const count = this.root.querySelector('#editorWarningCount');
+        if (count) count.textContent = warnings.length > 0 ? `(${warnings.length})` : '';
+        const list = this.root.querySelector('#editorWarnings') as HTMLElement | null;
+        if (!list) return;
+        list.innerHTML = '';
+        if (warnings.length === 0) {
+            list.innerHTML = `<div style="color: rgba(0, 255, 153, 0.8);">No problems found</div>`;
+            return;
+        }
+        warnings.forEach((w, i) => {
+            const item = document.createElement('div');
+            item.style.cssText = `
+                padding: 6px 8px;
+                border-left: 3px solid #ff4444;
+                background: rgba(255, 68, 68, 0.1);
+                cursor: pointer;
+            `;
+            item.innerHTML = `<span style="color: #ff8888;">${KIND_LABELS[w.kind]} @ t=${w.t.toFixed(3)}</span><br/>${w.message}`;
+            item.addEventListener('click', () => this.warningHandlers.forEach(h => h(this.warnings[i])));
+            list.appendChild(item);
+        });
+    }
+
+    dispose() {
+        this.toolHandlers = [];
+        this.actionHandlers = [];
+        this.warningHandlers = [];
+        this.root.remove();
+    }
+}
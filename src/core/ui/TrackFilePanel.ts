@@ -0,0 +1,153 @@
+import { TRACK_FILE } from '../constants';
+
+// Menu viewport panel for importing/exporting track files (file picker or drag-drop)
+export class TrackFilePanel {
+    private mount: HTMLElement;
+    private importHandlers: Array<(file: File) => void> = [];
+    private exportHandlers: Array<(name: string) => void> = [];
+    private statusEl: HTMLElement | null = null;
+    private trackName = 'Untitled';
+
+    private onDragOver = (e: DragEvent) => {
+        e.preventDefault();
+        if (e.dataTransfer) e.dataTransfer.dropEffect = 'copy';
+        this.setDropHighlight(true);
+    };
+    private onDragLeave = () => this.setDropHighlight(false);
+    private onDrop = (e: DragEvent) => {
+        e.preventDefault();
+        this.setDropHighlight(false);
+        const file = e.dataTransfer?.files?.[0];
+        if (file) this.importHandlers.forEach(h => h(file));
+    };
+
+    constructor(mount: HTMLElement) {
+        this.mount = mount;
+    }
+
+    onImport(handler: (file: File) => void) {
+        this.importHandlers.push(handler);
+    }
+
+    onExport(handler: (name: string) => void) {
+        this.exportHandlers.push(handler);
+    }
+
+    setTrackName(name: string) {
+        this.trackName = name;
+        const input = this.mount.querySelector('#trackFileName') as HTMLInputElement | null;
+        if (input) input.value = name;
+    }
+
+    setStatus(text: string, isError = false) {
+        if (!this.statusEl) return;
+        this.statusEl.textContent = text;
+        this.statusEl.style.color = isError ? '#ff4444' : 'rgba(83, 215, 255, 1)';
+    }
+
+    start() {
+        this.mount.innerHTML = `
+            <div style="
+                width: 100%;
+                height: 100%;
+                display: flex;
+                flex-direction: column;
+                padding: 60px 40px;
+                box-sizing: border-box;
+                color: #ffffff;
+                font-family: 'Orbitron', sans-serif;
+            ">
+                <h1 style="
+                    font-size: clamp(40px, 5vw, 64px);
+                    font-weight: 800;
+                    letter-spacing: 2px;
+                    margin: 0 0 40px 0;
+                    text-align: center;
+                    color: #ffffff;
+                    text-shadow:
+                        0 0 10px rgba(83, 215, 255, 0.8),
+                        0 0 20px rgba(83, 215, 255, 0.4),
+                        0 0 30px rgba(255, 43, 214, 0.3);
+                ">TRACK</h1>
+
+                <div style="display: flex; flex-direction: column; gap: 24px; max-width: 600px; width: 100%; margin: 0 auto;">
+                    <label style="display: flex; justify-content: space-between; align-items: center; gap: 20px; font-size: 14px; color: rgba(255, 255, 255, 0.9);">
+                        NAME
+                        <input id="trackFileName" type="text" value="" style="
+                            flex: 1;
+                            padding: 10px 14px;
+                            background: rgba(0, 0, 0, 0.4);
+                            border: 1px solid rgba(83, 215, 255, 0.4);
+                            border-radius: 6px;
+                            color: #ffffff;
+                            font-family: monospace;
+                            font-size: 14px;
+                        " />
+                    </label>
+
+                    <div id="trackDropZone" style="
+                        padding: 40px 30px;
+                        text-align: center;
+                        background: linear-gradient(90deg, rgba(83, 215, 255, .1), rgba(255, 43, 214, .05));
+                        border: 2px dashed rgba(255, 255, 255, .25);
+                        border-radius: 8px;
+                        font-size: 14px;
+                        color: rgba(255, 255, 255, 0.8);
+                        transition: all 0.2s ease;
+                    ">DROP A ${TRACK_FILE.extension.toUpperCase()} FILE HERE</div>
+
+                    <div style="display: flex; justify-content: center; gap: 16px;">
+                        <button class="btn" id="trackImportBtn">IMPORT</button>
+                        <button class="btn" id="trackExportBtn">EXPORT</button>
+                        <input id="trackFileInput" type="file" accept=".json,application/json" style="display: none;" />
+                    </div>
+
+                    <div id="trackFileStatus" style="min-height: 20px; text-align: center; font-size: 13px; font-family: monospace;"></div>
+                    <div style="text-align: center; font-size: 12px; color: rgba(255, 255, 255, 0.5); font-family: monospace;">
+                        Share a hosted file with ?${TRACK_FILE.urlParam}=&lt;url&gt;
+                    </div>
+                </div>
+            </div>
+        `;
+
+        this.statusEl = this.mount.querySelector('#trackFileStatus');
+        this.setTrackName(this.trackName);
+
+        const input = this.mount.querySelector('#trackFileInput') as HTMLInputElement;
+        input.addEventListener('change', () => {
+            const file = input.files?.[0];
+            if (file) this.importHandlers.forEach(h => h(file));
+            input.value = '';
+        });
+        this.mount.querySelector('#trackImportBtn')?.addEventListener('click', () => input.click());
+        this.mount.querySelector('#trackExportBtn')?.addEventListener('click', () => {
+            const nameInput = this.mount.querySelector('#trackFileName') as HTMLInputElement;
+            this.trackName = nameInput.value.trim() || 'Untitled';
+            this.exportHandlers.forEach(h => h(this.trackName));
+        });
+
+        this.mount.addEventListener('dragover', this.onDragOver);
+        this.mount.addEventListener('dragleave', this.onDragLeave);
+        this.mount.addEventListener('drop', this.onDrop);
+    }
+
+    stop() {
+        this.mount.removeEventListener('dragover', this.onDragOver);
+        this.mount.removeEventListener('dragleave', this.onDragLeave);
+        this.mount.removeEventListener('drop', this.onDrop);
+        this.statusEl = null;
+        this.mount.innerHTML = '';
+    }
+
+    dispose() {
+        this.stop();
+        this.importHandlers = [];
+        this.exportHandlers = [];
+    }
+
+    private setDropHighlight(active: boolean) {
+        const zone = this.mount.querySelector('#trackDropZone') as HTMLElement | null;
+        if (!zone) return;
+        zone.style.borderColor = active ? 'rgba(83, 215, 255, 1)' : 'rgba(255, 255, 255, .25)';
+    }
+}
@@ -0,0 +1,6 @@
+// Race time as m:ss.cc (results, leaderboards, replay timeline)
+export function formatTime(seconds: number): string {
+    const mins = Math.floor(seconds / 60);
+    const secs = seconds % 60;
+    return `${mins}:${secs.toFixed(2).padStart(5, '0')}`;
+}